@@ -0,0 +1,81 @@
+/**
+ * Partner API keys (admin) for /api/search
+ * GET    /api/admin/api-keys                               → all keys (without the keys themselves)
+ * POST   /api/admin/api-keys { name, requestsPerMinute? }  → create; the response holds the only copy of the key
+ * PUT    /api/admin/api-keys?id=4 { name, requestsPerMinute, enabled } → update or disable
+ * DELETE /api/admin/api-keys?id=4
+ *
+ * Changes apply at once on this instance, on the others within a minute.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { handleCors, parseJsonBody, requireAdmin } from '../../lib/http';
+import {
+  apiKeySchema,
+  createApiKey,
+  deleteApiKey,
+  listApiKeys,
+  updateApiKey,
+  type ApiKeyInput
+} from '../../lib/api-keys';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+const idSchema = z.coerce.number().int().positive();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET, POST, PUT, DELETE')) return;
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, apiKeys: await listApiKeys() });
+    }
+
+    if (req.method === 'POST' || req.method === 'PUT') {
+      const input = apiKeySchema.safeParse(parseJsonBody(req) ?? {});
+      const id = req.method === 'PUT' ? idSchema.safeParse(req.query.id) : null;
+      if (!input.success || (id && !id.success)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid API key',
+          details: (input.error || id?.error)?.message
+        });
+      }
+
+      const data = input.data as ApiKeyInput;
+      if (id?.success) {
+        const saved = await updateApiKey(id.data, data);
+        if (!saved) {
+          return res.status(404).json({ success: false, error: 'API key not found' });
+        }
+        console.log(`[ApiKeys] Updated key ${saved.id} "${saved.name}" (${saved.requestsPerMinute}/min, ${saved.enabled ? 'enabled' : 'disabled'})`);
+        return res.status(200).json({ success: true, apiKey: saved });
+      }
+
+      const { apiKey, plainKey } = await createApiKey(data);
+      console.log(`[ApiKeys] Created key ${apiKey.id} "${apiKey.name}" (${apiKey.keyPrefix}…)`);
+      return res.status(200).json({ success: true, apiKey, key: plainKey });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = idSchema.safeParse(req.query.id);
+      if (!id.success) {
+        return res.status(400).json({ success: false, error: 'Invalid id', details: id.error.message });
+      }
+      if (!await deleteApiKey(id.data)) {
+        return res.status(404).json({ success: false, error: 'API key not found' });
+      }
+      console.log(`[ApiKeys] Deleted key ${id.data}`);
+      return res.status(200).json({ success: true, deleted: id.data });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('[ApiKeys] Request failed:', error);
+    return res.status(500).json({ success: false, error: 'API key request failed', details: error.message });
+  }
+}
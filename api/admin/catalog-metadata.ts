@@ -0,0 +1,84 @@
+/**
+ * Catalog metadata status and reload (admin)
+ * GET  /api/admin/catalog-metadata                    → what this instance currently uses
+ * POST /api/admin/catalog-metadata { seed?: boolean } → bump the version and reload
+ *
+ * seed: true first copies data/brands.json, categories.json and themes.json
+ * into the metadata tables. Other instances reload within a minute.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import {
+  bumpCatalogMetadataVersion,
+  getAvailableBrands,
+  getAvailableProductTypes,
+  getCatalogMetadata,
+  refreshCatalogMetadata,
+  seedCatalogMetadataFromFiles
+} from '../../lib/catalog-metadata';
+import { handleCors, parseJsonBody, requireAdmin } from '../../lib/http';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 30
+};
+
+const reloadSchema = z.object({
+  seed: z.boolean().default(false)
+});
+
+function describeMetadata() {
+  const metadata = getCatalogMetadata();
+  return {
+    source: metadata.source,
+    version: metadata.version,
+    loadedAt: new Date(metadata.loadedAt).toISOString(),
+    brands: { total: metadata.brands.length, available: getAvailableBrands(metadata).length },
+    productTypes: {
+      total: metadata.productTypes.length,
+      available: getAvailableProductTypes(metadata).map(type => ({ type, count: metadata.counts?.productTypes.get(type) ?? null }))
+    },
+    categories: metadata.categories.length,
+    themes: metadata.popularThemes.map(theme => ({ theme, count: metadata.counts?.themes.get(theme) ?? null }))
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET, POST')) return;
+  if (!requireAdmin(req, res)) return;
+
+  if (req.method === 'GET') {
+    await refreshCatalogMetadata();
+    return res.status(200).json({ success: true, metadata: describeMetadata() });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const parsed = reloadSchema.safeParse(parseJsonBody(req) ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid reload request',
+      details: parsed.error.message
+    });
+  }
+
+  try {
+    const version = parsed.data.seed ? await seedCatalogMetadataFromFiles() : await bumpCatalogMetadataVersion();
+    const metadata = await refreshCatalogMetadata({ force: true });
+    if (metadata.version !== version) {
+      throw new Error(`Reload did not pick up version ${version} (still ${metadata.source} ${metadata.version})`);
+    }
+    console.log(`[Catalog] Reloaded by admin (seed=${parsed.data.seed}), version=${version}`);
+    return res.status(200).json({ success: true, seeded: parsed.data.seed, metadata: describeMetadata() });
+  } catch (error: any) {
+    console.error('[Catalog] Reload failed:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Catalog metadata reload failed',
+      details: error.message
+    });
+  }
+}
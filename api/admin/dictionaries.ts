@@ -0,0 +1,96 @@
+/**
+ * Search dictionaries (admin): brand aliases, synonyms, theme expansions, ignored words
+ * GET    /api/admin/dictionaries[?kind=synonym]   → stored entries
+ * POST   /api/admin/dictionaries { kind, term, targets } → create, or replace the entry with that kind + term
+ * PUT    /api/admin/dictionaries?id=12 { kind, term, targets } → update (or rename) an entry
+ * DELETE /api/admin/dictionaries?id=12
+ *
+ * Every change bumps the catalog metadata version: this instance reloads
+ * immediately, the others within a minute (see lib/catalog-metadata.ts).
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { bumpCatalogMetadataVersion, refreshCatalogMetadata } from '../../lib/catalog-metadata';
+import { handleCors, parseJsonBody, requireAdmin } from '../../lib/http';
+import {
+  DICTIONARY_KINDS,
+  deleteDictionaryEntry,
+  dictionaryEntrySchema,
+  listDictionaryEntries,
+  saveDictionaryEntry,
+  updateDictionaryEntry,
+  type DictionaryEntry
+} from '../../lib/search-dictionaries';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+const idSchema = z.coerce.number().int().positive();
+const kindSchema = z.enum(DICTIONARY_KINDS).optional();
+
+async function publishChange() {
+  const version = await bumpCatalogMetadataVersion();
+  await refreshCatalogMetadata({ force: true });
+  return version;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET, POST, PUT, DELETE')) return;
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      const kind = kindSchema.safeParse(req.query.kind);
+      if (!kind.success) {
+        return res.status(400).json({ success: false, error: 'Invalid kind', details: kind.error.message });
+      }
+      const entries = await listDictionaryEntries(kind.data);
+      return res.status(200).json({ success: true, entries });
+    }
+
+    if (req.method === 'POST' || req.method === 'PUT') {
+      const entry = dictionaryEntrySchema.safeParse(parseJsonBody(req) ?? {});
+      const id = req.method === 'PUT' ? idSchema.safeParse(req.query.id) : null;
+      if (!entry.success || (id && !id.success)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid dictionary entry',
+          details: (entry.error || id?.error)?.message
+        });
+      }
+
+      const data = entry.data as DictionaryEntry;
+      const saved = id?.success ? await updateDictionaryEntry(id.data, data) : await saveDictionaryEntry(data);
+      if (!saved) {
+        return res.status(404).json({ success: false, error: 'Entry not found' });
+      }
+      const version = await publishChange();
+      console.log(`[Dictionaries] Saved ${saved.kind} "${saved.term}" → [${saved.targets.join(', ')}], version=${version}`);
+      return res.status(200).json({ success: true, entry: saved, version });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = idSchema.safeParse(req.query.id);
+      if (!id.success) {
+        return res.status(400).json({ success: false, error: 'Invalid id', details: id.error.message });
+      }
+      if (!await deleteDictionaryEntry(id.data)) {
+        return res.status(404).json({ success: false, error: 'Entry not found' });
+      }
+      const version = await publishChange();
+      console.log(`[Dictionaries] Deleted entry ${id.data}, version=${version}`);
+      return res.status(200).json({ success: true, deleted: id.data, version });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    // Unique (kind, term) violation on a rename
+    if (error.code === '23505') {
+      return res.status(409).json({ success: false, error: 'An entry with this kind and term already exists' });
+    }
+    console.error('[Dictionaries] Request failed:', error);
+    return res.status(500).json({ success: false, error: 'Dictionary update failed', details: error.message });
+  }
+}
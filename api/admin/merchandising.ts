@@ -0,0 +1,92 @@
+/**
+ * Merchandising rules (admin): pins, boosts, buries, hides, redirects and campaigns
+ * GET    /api/admin/merchandising              → all rules (also disabled and ended ones)
+ * GET    /api/admin/merchandising?query=kat    → which rules that query would fire now
+ * POST   /api/admin/merchandising { name, conditions, actions, ... } → create
+ * PUT    /api/admin/merchandising?id=3 { ... } → replace
+ * DELETE /api/admin/merchandising?id=3
+ *
+ * Changes apply at once on this instance, on the others within a minute.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { refreshCatalogMetadata } from '../../lib/catalog-metadata';
+import { handleCors, parseJsonBody, requireAdmin } from '../../lib/http';
+import {
+  createRule,
+  deleteRule,
+  evaluateRules,
+  listRules,
+  merchandisingRuleSchema,
+  updateRule,
+  type MerchandisingRuleInput
+} from '../../lib/merchandising';
+import { parseFilters } from '../../lib/search-ai';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 30
+};
+
+const idSchema = z.coerce.number().int().positive();
+
+/**
+ * Preview: parse the query like /api/search does and evaluate every rule
+ */
+async function previewRules(query: string) {
+  await refreshCatalogMetadata();
+  const [{ filters }, rules] = await Promise.all([parseFilters(query), listRules()]);
+  const outcome = evaluateRules(rules, query, filters);
+  return { query, filters, ...outcome };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET, POST, PUT, DELETE')) return;
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      if (typeof req.query.query === 'string' && req.query.query.trim()) {
+        return res.status(200).json({ success: true, preview: await previewRules(req.query.query.trim()) });
+      }
+      return res.status(200).json({ success: true, rules: await listRules() });
+    }
+
+    if (req.method === 'POST' || req.method === 'PUT') {
+      const rule = merchandisingRuleSchema.safeParse(parseJsonBody(req) ?? {});
+      const id = req.method === 'PUT' ? idSchema.safeParse(req.query.id) : null;
+      if (!rule.success || (id && !id.success)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid merchandising rule',
+          details: (rule.error || id?.error)?.message
+        });
+      }
+
+      const data = rule.data as MerchandisingRuleInput;
+      const saved = id?.success ? await updateRule(id.data, data) : await createRule(data);
+      if (!saved) {
+        return res.status(404).json({ success: false, error: 'Rule not found' });
+      }
+      console.log(`[Merchandising] Saved rule ${saved.id} "${saved.name}" (${saved.actions.map(a => a.type).join(', ')})`);
+      return res.status(200).json({ success: true, rule: saved });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = idSchema.safeParse(req.query.id);
+      if (!id.success) {
+        return res.status(400).json({ success: false, error: 'Invalid id', details: id.error.message });
+      }
+      if (!await deleteRule(id.data)) {
+        return res.status(404).json({ success: false, error: 'Rule not found' });
+      }
+      console.log(`[Merchandising] Deleted rule ${id.data}`);
+      return res.status(200).json({ success: true, deleted: id.data });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('[Merchandising] Request failed:', error);
+    return res.status(500).json({ success: false, error: 'Merchandising request failed', details: error.message });
+  }
+}
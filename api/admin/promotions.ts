@@ -0,0 +1,103 @@
+/**
+ * Promotions (admin): scheduled discount codes shown with search results
+ * GET    /api/admin/promotions                        → all promotions (also disabled and ended ones)
+ * GET    /api/admin/promotions?priceMax=50&productType=Beeld&firstSearch=true
+ *                                                     → which promotion such a search would get now
+ * POST   /api/admin/promotions { code, amount, description, label, conditions, startsAt, endsAt, ... } → create
+ * PUT    /api/admin/promotions?id=2 { ... }          → replace
+ * DELETE /api/admin/promotions?id=2
+ *
+ * Changes apply at once on this instance, on the others within a minute.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { handleCors, parseJsonBody, requireAdmin } from '../../lib/http';
+import {
+  createPromotion,
+  deletePromotion,
+  listPromotions,
+  promotionSchema,
+  selectPromotion,
+  toOffer,
+  updatePromotion,
+  type PromotionInput
+} from '../../lib/promotions';
+import { emptyFilters } from '../../lib/search-filters';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+const idSchema = z.coerce.number().int().positive();
+
+const previewSchema = z.object({
+  priceMin: z.coerce.number().positive().optional(),
+  priceMax: z.coerce.number().positive().optional(),
+  productType: z.string().optional(),
+  firstSearch: z.enum(['true', 'false']).optional()
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET, POST, PUT, DELETE')) return;
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      const promotions = await listPromotions();
+      if (Object.keys(req.query).length === 0) {
+        return res.status(200).json({ success: true, promotions });
+      }
+
+      const preview = previewSchema.safeParse(req.query);
+      if (!preview.success) {
+        return res.status(400).json({ success: false, error: 'Invalid preview', details: preview.error.message });
+      }
+      const filters = {
+        ...emptyFilters(),
+        priceMin: preview.data.priceMin ?? null,
+        priceMax: preview.data.priceMax ?? null,
+        productType: preview.data.productType ?? null
+      };
+      const selected = selectPromotion(promotions, { filters, firstSearch: preview.data.firstSearch === 'true' });
+      return res.status(200).json({ success: true, preview: { filters, discountCode: selected ? toOffer(selected) : null } });
+    }
+
+    if (req.method === 'POST' || req.method === 'PUT') {
+      const promotion = promotionSchema.safeParse(parseJsonBody(req) ?? {});
+      const id = req.method === 'PUT' ? idSchema.safeParse(req.query.id) : null;
+      if (!promotion.success || (id && !id.success)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid promotion',
+          details: (promotion.error || id?.error)?.message
+        });
+      }
+
+      const data = promotion.data as PromotionInput;
+      const saved = id?.success ? await updatePromotion(id.data, data) : await createPromotion(data);
+      if (!saved) {
+        return res.status(404).json({ success: false, error: 'Promotion not found' });
+      }
+      console.log(`[Promotions] Saved promotion ${saved.id} "${saved.code}" (${saved.startsAt ?? 'now'} → ${saved.endsAt ?? 'open'})`);
+      return res.status(200).json({ success: true, promotion: saved });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = idSchema.safeParse(req.query.id);
+      if (!id.success) {
+        return res.status(400).json({ success: false, error: 'Invalid id', details: id.error.message });
+      }
+      if (!await deletePromotion(id.data)) {
+        return res.status(404).json({ success: false, error: 'Promotion not found' });
+      }
+      console.log(`[Promotions] Deleted promotion ${id.data}`);
+      return res.status(200).json({ success: true, deleted: id.data });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('[Promotions] Request failed:', error);
+    return res.status(500).json({ success: false, error: 'Promotion request failed', details: error.message });
+  }
+}
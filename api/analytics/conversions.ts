@@ -0,0 +1,41 @@
+/**
+ * Conversion per search id (clicks, purchases) plus overall conversion rate
+ * GET /api/analytics/conversions?days=30&limit=50[&searchId=...] (Authorization: Bearer ADMIN_API_KEY)
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getConversions, reportOptionsSchema } from '../../lib/analytics';
+import { handleCors, requireAdmin } from '../../lib/http';
+import { searchIdSchema } from '../../lib/pagination';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const options = reportOptionsSchema.safeParse(req.query);
+  const searchId = searchIdSchema.optional().safeParse(req.query.searchId);
+  if (!options.success || !searchId.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid report options',
+      details: (options.error || searchId.error)?.message
+    });
+  }
+
+  try {
+    const report = await getConversions(options.data, searchId.data);
+    return res.status(200).json({ success: true, ...options.data, ...report });
+  } catch (error: any) {
+    console.error('[Analytics] conversions report failed:', error);
+    return res.status(500).json({ success: false, error: 'Report failed', details: error.message });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Analytics event ingest
+ * POST /api/analytics/events with { event: 'click' | 'purchase', search_id, product_id?, product_url?, client_id? }
+ *
+ * search_id is the searchId returned by /api/search; events for unknown or
+ * expired searches are rejected (422). Same origins and rate limits as
+ * /api/search (lib/request-guard.ts), with a bucket of its own.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { interactionEventSchema, recordInteraction } from '../../lib/analytics';
+import { handlePublicCors, parseJsonBody } from '../../lib/http';
+import { guardPublicRequest } from '../../lib/request-guard';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handlePublicCors(req, res, 'POST')) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const parsed = interactionEventSchema.safeParse(parseJsonBody(req));
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid event',
+      details: parsed.error.message
+    });
+  }
+
+  if (!await guardPublicRequest(req, res, { scope: 'events' })) return;
+
+  try {
+    if (!await recordInteraction(parsed.data)) {
+      return res.status(422).json({ success: false, error: 'Unknown or expired search_id' });
+    }
+    return res.status(202).json({ success: true });
+  } catch (error: any) {
+    console.error('[Analytics] Event ingest failed:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Event ingest failed',
+      details: error.message
+    });
+  }
+}
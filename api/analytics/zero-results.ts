@@ -0,0 +1,35 @@
+/**
+ * Queries that returned no results
+ * GET /api/analytics/zero-results?days=30&limit=50 (Authorization: Bearer ADMIN_API_KEY)
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getZeroResultQueries, reportOptionsSchema } from '../../lib/analytics';
+import { handleCors, requireAdmin } from '../../lib/http';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res, 'GET')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const options = reportOptionsSchema.safeParse(req.query);
+  if (!options.success) {
+    return res.status(400).json({ success: false, error: 'Invalid report options', details: options.error.message });
+  }
+
+  try {
+    const queries = await getZeroResultQueries(options.data);
+    return res.status(200).json({ success: true, ...options.data, queries });
+  } catch (error: any) {
+    console.error('[Analytics] zero-results report failed:', error);
+    return res.status(500).json({ success: false, error: 'Report failed', details: error.message });
+  }
+}
@@ -2,7 +2,7 @@
  * Debug endpoint to check catalog metadata loading on Vercel
  */
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getCatalogMetadata, buildPromptInstructions } from '../lib/catalog-metadata';
+import { getCatalogMetadata, buildPromptInstructions, refreshCatalogMetadata } from '../lib/catalog-metadata';
 
 export const config = {
   runtime: 'nodejs',
@@ -17,12 +17,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const metadata = getCatalogMetadata();
+    const metadata = await refreshCatalogMetadata();
     const instructions = buildPromptInstructions();
     
     return res.status(200).json({
       success: true,
       metadata: {
+        source: metadata.source,
+        version: metadata.version,
         brandsCount: metadata.brands.length,
         categoriesCount: metadata.categories.length,
         productTypesCount: metadata.productTypes.length,
@@ -0,0 +1,58 @@
+/**
+ * Similar products ("Vergelijkbare kunstcadeaus")
+ * GET /api/similar?productId=123                       → nearest neighbours of the product's embedding
+ *   &scope=any|type|artist|complementary               (default any)
+ *   &limit=8 &inStock=true &priceBand=similar          (half to double the product's price)
+ *   &priceMin=20 &priceMax=80                          (explicit budget)
+ *
+ * Same abuse protection as /api/search (origins, API keys, rate limits).
+ *
+ * @see lib/similar-products.ts
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { refreshCatalogMetadata } from '../lib/catalog-metadata';
+import { handlePublicCors } from '../lib/http';
+import { guardPublicRequest } from '../lib/request-guard';
+import { findSimilarProducts, similarOptionsSchema, type SimilarOptions } from '../lib/similar-products';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handlePublicCors(req, res, 'GET')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const options = similarOptionsSchema.safeParse(req.query);
+  if (!options.success) {
+    return res.status(400).json({ success: false, error: 'Invalid parameters', details: options.error.message });
+  }
+
+  if (!await guardPublicRequest(req, res)) return;
+
+  try {
+    // Category names in formatProduct come from the catalog metadata
+    await refreshCatalogMetadata();
+
+    const similar = await findSimilarProducts(options.data as SimilarOptions);
+    if (!similar) {
+      return res.status(404).json({ success: false, error: 'Product not found' });
+    }
+
+    res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate=600');
+    return res.status(200).json({
+      success: true,
+      product: { id: similar.product.id, title: similar.product.title, type: similar.product.type, artist: similar.product.artist },
+      scope: similar.scope,
+      total: similar.items.length,
+      items: similar.items
+    });
+  } catch (error: any) {
+    console.error('[Similar] Request failed:', error);
+    return res.status(500).json({ success: false, error: 'Similar products failed', details: error.message });
+  }
+}
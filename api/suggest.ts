@@ -0,0 +1,56 @@
+/**
+ * Type-ahead for the search bar
+ * GET /api/suggest?q=klim&limit=8    → popular queries, artists, types, themes and product titles
+ *
+ * No LLM and no embedding: matched in memory, so it can be called on every
+ * keystroke (debounced). Same origins and API keys as /api/search, with a
+ * more generous per-IP limit (SUGGEST_RATE_LIMIT_PER_MINUTE).
+ *
+ * @see lib/suggest.ts
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { refreshCatalogMetadata } from '../lib/catalog-metadata';
+import { handlePublicCors } from '../lib/http';
+import { suggestLimit } from '../lib/rate-limit';
+import { guardPublicRequest } from '../lib/request-guard';
+import { suggest, suggestOptionsSchema, type SuggestOptions } from '../lib/suggest';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 10
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handlePublicCors(req, res, 'GET')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const options = suggestOptionsSchema.safeParse(req.query);
+  if (!options.success) {
+    return res.status(400).json({ success: false, error: 'Invalid parameters', details: options.error.message });
+  }
+
+  if (!await guardPublicRequest(req, res, { scope: 'suggest', ipLimit: suggestLimit() })) return;
+
+  const startTime = Date.now();
+  try {
+    // Artists, types, themes and their counts come from the catalog metadata
+    await refreshCatalogMetadata();
+
+    const { q, limit } = options.data as SuggestOptions;
+    const suggestions = await suggest({ q, limit });
+
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+    return res.status(200).json({
+      success: true,
+      query: q,
+      suggestions,
+      took_ms: Date.now() - startTime
+    });
+  } catch (error: any) {
+    console.error('[Suggest] Request failed:', error);
+    return res.status(500).json({ success: false, error: 'Suggest failed', details: error.message });
+  }
+}
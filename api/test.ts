@@ -1,9 +1,7 @@
 /**
  * Test endpoint to diagnose performance
  */
-import { embed, generateObject } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { z } from 'zod';
+import { getSearchProviders } from '../lib/ai-providers';
 
 // Explicit Node.js runtime for stable imports
 export const runtime = 'nodejs';
@@ -15,31 +13,27 @@ export default async function handler(req: Request) {
   
   try {
     const query = "schilderij onder 50 euro";
+    const providers = getSearchProviders();
     
     // Test filter parsing
     const filterStart = Date.now();
-    const { object: filters } = await generateObject({
-      model: openai('gpt-4o-mini'),
-      schema: z.object({
-        priceMin: z.number().optional(),
-        priceMax: z.number().optional()
-      }),
-      prompt: `Extract filters from: "${query}"`
-    });
+    const filters = await providers.parser.parse(query);
     timings.filterParsing = Date.now() - filterStart;
     
     // Test embedding
     const embedStart = Date.now();
-    const { embedding } = await embed({
-      model: openai.embedding('text-embedding-3-small'),
-      value: query
-    });
+    const embedding = await providers.embedder.embed(query);
     timings.embedding = Date.now() - embedStart;
     
     timings.total = Date.now() - start;
     
     return new Response(JSON.stringify({
       success: true,
+      providers: {
+        parser: providers.parser.name,
+        advisor: providers.advisor.name,
+        embedder: providers.embedder.name
+      },
       timings,
       filters,
       embeddingLength: embedding.length
@@ -57,4 +51,3 @@ export default async function handler(req: Request) {
     });
   }
 }
-
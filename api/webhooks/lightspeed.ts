@@ -0,0 +1,66 @@
+/**
+ * Lightspeed webhook receiver
+ * POST /api/webhooks/lightspeed (configure in Lightspeed for products, variants and categories)
+ *
+ * Answers 2xx once an event is applied, ignored or a duplicate; 5xx makes
+ * Lightspeed redeliver it (see lib/lightspeed-webhooks.ts).
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { readRawBody } from '../../lib/http';
+import { getWebhookSecret, handleWebhookEvent, parseWebhookEvent, verifySignature } from '../../lib/lightspeed-webhooks';
+
+export const config = {
+  runtime: 'nodejs',
+  maxDuration: 30,
+  api: { bodyParser: false }
+};
+
+function header(req: VercelRequest, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const secret = getWebhookSecret();
+  if (!secret) {
+    return res.status(503).json({ success: false, error: 'Webhooks not configured (LIGHTSPEED_WEBHOOK_SECRET)' });
+  }
+
+  const rawBody = await readRawBody(req);
+  if (!verifySignature(rawBody, header(req, 'x-signature'), secret)) {
+    console.log('[Webhook] Rejected request with invalid signature');
+    return res.status(401).json({ success: false, error: 'Invalid signature' });
+  }
+
+  let event;
+  try {
+    event = parseWebhookEvent({
+      group: header(req, 'x-group'),
+      action: header(req, 'x-action'),
+      objectId: header(req, 'x-object-id')
+    }, rawBody);
+  } catch {
+    return res.status(400).json({ success: false, error: 'Invalid JSON payload' });
+  }
+
+  // Unsupported events are acknowledged so Lightspeed does not keep retrying them
+  if (!event) {
+    return res.status(200).json({ success: true, status: 'ignored' });
+  }
+
+  try {
+    const result = await handleWebhookEvent(event);
+    return res.status(200).json({ success: true, ...result });
+  } catch (error: any) {
+    console.error(`[Webhook] ${event.group}.${event.action} ${event.objectId} failed:`, error);
+    return res.status(500).json({
+      success: false,
+      error: 'Webhook processing failed',
+      details: error.message
+    });
+  }
+}
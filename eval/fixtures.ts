@@ -0,0 +1,86 @@
+/**
+ * Fixture Database - Fresh schema + fixture catalog in the eval database
+ *
+ * Wipes the public schema, runs every migration in schema/ (same order as
+ * scripts/setup-schema.js) and inserts the fixture products with
+ * embeddings from the configured embedder, so query and product vectors
+ * come from the same model. Only ever pointed at EVAL_DATABASE_URL.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { sql } from '../lib/db';
+import { getSearchProviders } from '../lib/ai-providers';
+import { getCategoryName } from '../lib/catalog-metadata';
+import type { FixtureProduct } from './golden';
+
+const SCHEMA_DIR = path.join(process.cwd(), 'schema');
+
+/**
+ * Same text as the embedding text in lib/catalog-sync.ts
+ */
+function embeddingText(product: FixtureProduct): string {
+  return [
+    product.title,
+    product.description,
+    product.artist,
+    ...product.categoryIds.map(getCategoryName)
+  ].filter(Boolean).join(' ').trim();
+}
+
+export async function seedFixtureDatabase(products: FixtureProduct[]): Promise<void> {
+  console.log('[Eval] Resetting eval database schema');
+  await sql.query('DROP SCHEMA IF EXISTS public CASCADE; CREATE SCHEMA public;');
+
+  const migrations = fs.readdirSync(SCHEMA_DIR).filter(f => f.endsWith('.sql')).sort();
+  for (const file of migrations) {
+    await sql.query(fs.readFileSync(path.join(SCHEMA_DIR, file), 'utf-8'));
+  }
+
+  // IVFFlat is approximate and its lists are trained on an empty table here;
+  // exact scans keep fixture rankings deterministic
+  await sql.query('DROP INDEX IF EXISTS idx_products_embedding');
+
+  const { embedder } = getSearchProviders();
+  console.log(`[Eval] Embedding ${products.length} fixture products with ${embedder.name} (${embedder.model})`);
+  const embeddings = await embedder.embedMany(products.map(embeddingText));
+
+  for (const [i, product] of products.entries()) {
+    await sql.query(
+      `INSERT INTO products (
+         id, title, full_title, description, content, url, brand, artist, dimensions,
+         height_cm, width_cm, depth_cm, diameter_cm, category_names, price, old_price,
+         stock, is_visible, image, stock_sold, type, embedding
+       )
+       VALUES ($1, $2, $2, $3, '', $4, $5, $5, NULL, $6, $7, $8, $9, $10, $11, $12, $13, true, NULL, $14, $15, $16::vector)`,
+      [
+        product.id,
+        product.title,
+        product.description,
+        `/fixture-${product.id}.html`,
+        product.artist,
+        product.heightCm,
+        product.widthCm,
+        product.depthCm,
+        product.diameterCm,
+        product.categoryIds.map(getCategoryName).join(' ') || null,
+        product.price,
+        product.oldPrice,
+        product.stock,
+        product.stockSold,
+        product.type,
+        JSON.stringify(embeddings[i])
+      ]
+    );
+
+    for (const categoryId of product.categoryIds) {
+      await sql.query(
+        'INSERT INTO product_categories (product_id, category_id) VALUES ($1, $2)',
+        [product.id, categoryId]
+      );
+    }
+  }
+
+  await sql.query('ANALYZE products');
+  console.log(`[Eval] Loaded ${products.length} fixture products`);
+}
@@ -0,0 +1,75 @@
+/**
+ * Golden Sets - Evaluation inputs (queries, judgments, fixtures, configs)
+ *
+ * eval/golden/*.json      → queries with expected filters and graded judgments
+ * eval/fixtures/*.json    → fixture catalog loaded into the eval database
+ * eval/configs/*.json     → search config overrides to compare
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { searchFiltersSchema } from '../lib/search-filters';
+import { searchConfigOverrideSchema } from '../lib/search-config';
+
+export const goldenQuerySchema = z.object({
+  id: z.string(),
+  query: z.string().min(1),
+  expectedFilters: searchFiltersSchema.partial().default({}),
+  judgments: z.record(z.string(), z.number().int().min(0).max(3)).default({}),
+  expectNoResults: z.boolean().default(false)    // Vague queries: guidance instead of results
+});
+
+export const goldenSetSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  queries: z.array(goldenQuerySchema).min(1)
+});
+
+export type GoldenQuery = z.infer<typeof goldenQuerySchema>;
+export type GoldenSet = z.infer<typeof goldenSetSchema>;
+
+export const fixtureProductSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  description: z.string().default(''),
+  type: z.string().nullable().default(null),
+  artist: z.string().nullable().default(null),
+  price: z.number(),
+  oldPrice: z.number().nullable().default(null),
+  heightCm: z.number().nullable().default(null),
+  widthCm: z.number().nullable().default(null),
+  depthCm: z.number().nullable().default(null),
+  diameterCm: z.number().nullable().default(null),
+  categoryIds: z.array(z.number().int()).default([]),
+  stock: z.number().int().nullable().default(null),
+  stockSold: z.number().int().default(0)
+});
+
+export type FixtureProduct = z.infer<typeof fixtureProductSchema>;
+
+export const evalConfigSchema = searchConfigOverrideSchema.extend({
+  name: z.string(),
+  description: z.string().optional()
+});
+
+export type EvalConfig = z.infer<typeof evalConfigSchema>;
+
+function readJson<T>(file: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const parsed = schema.safeParse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid ${file}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export function loadGoldenSet(file: string): GoldenSet {
+  return readJson(file, goldenSetSchema);
+}
+
+export function loadFixtureCatalog(file: string): FixtureProduct[] {
+  return readJson(file, z.array(fixtureProductSchema));
+}
+
+export function loadEvalConfig(file: string): EvalConfig {
+  return readJson(file, evalConfigSchema);
+}
@@ -0,0 +1,125 @@
+/**
+ * IR Metrics - Ranking quality against graded relevance judgments
+ *
+ * Judgments map product id → grade (3 = exactly what was asked,
+ * 2 = good alternative, 1 = acceptable); unjudged products count as 0.
+ * A product is "relevant" from RELEVANT_GRADE up.
+ */
+
+import type { SearchFilters } from '../lib/search-filters';
+
+export const RELEVANT_GRADE = 1;
+
+export type Judgments = Record<string, number>;
+
+function grade(judgments: Judgments, id: number | string): number {
+  return judgments[String(id)] ?? 0;
+}
+
+function relevantCount(judgments: Judgments): number {
+  return Object.values(judgments).filter(g => g >= RELEVANT_GRADE).length;
+}
+
+/**
+ * Share of the top k results that is relevant
+ */
+export function precisionAtK(ranked: (number | string)[], judgments: Judgments, k: number): number {
+  const hits = ranked.slice(0, k).filter(id => grade(judgments, id) >= RELEVANT_GRADE).length;
+  return hits / k;
+}
+
+/**
+ * Share of all relevant products that was retrieved (optionally within the top k)
+ */
+export function recall(ranked: (number | string)[], judgments: Judgments, k = ranked.length): number {
+  const total = relevantCount(judgments);
+  if (total === 0) return 0;
+  const hits = ranked.slice(0, k).filter(id => grade(judgments, id) >= RELEVANT_GRADE).length;
+  return hits / total;
+}
+
+/**
+ * Normalized discounted cumulative gain at k (gain 2^grade - 1)
+ */
+export function ndcgAtK(ranked: (number | string)[], judgments: Judgments, k: number): number {
+  const dcg = (grades: number[]) => grades
+    .slice(0, k)
+    .reduce((sum, g, i) => sum + (Math.pow(2, g) - 1) / Math.log2(i + 2), 0);
+
+  const ideal = dcg(Object.values(judgments).sort((a, b) => b - a));
+  if (ideal === 0) return 0;
+  return dcg(ranked.map(id => grade(judgments, id))) / ideal;
+}
+
+/**
+ * Reciprocal rank of the first relevant result (0 when none is retrieved)
+ */
+export function reciprocalRank(ranked: (number | string)[], judgments: Judgments): number {
+  const index = ranked.findIndex(id => grade(judgments, id) >= RELEVANT_GRADE);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Filter fields compared for extraction accuracy
+ * Scalar fields the golden query leaves out must stay empty (over-extraction
+ * counts as a mistake); keywords and interests are only checked when given,
+ * as a subset.
+ */
+export const FILTER_FIELDS = [
+  'productType', 'artist', 'priceMin', 'priceMax',
+  'sizeCategory', 'sizeMinCm', 'sizeMaxCm', 'heightMinCm', 'heightMaxCm', 'widthMinCm', 'widthMaxCm',
+  'recipient', 'occasion', 'interests', 'keywords'
+] as const;
+
+export type FilterField = typeof FILTER_FIELDS[number];
+
+const LIST_FIELDS = new Set<FilterField>(['interests', 'keywords']);
+
+export interface FilterMismatch {
+  field: FilterField;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface FilterAccuracy {
+  checked: number;
+  correct: number;
+  mismatches: FilterMismatch[];
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'string' ? value.toLowerCase().trim() : value;
+}
+
+export function compareFilters(expected: Partial<SearchFilters>, actual: SearchFilters): FilterAccuracy {
+  const mismatches: FilterMismatch[] = [];
+  let checked = 0;
+
+  for (const field of FILTER_FIELDS) {
+    if (LIST_FIELDS.has(field)) {
+      const wanted = (expected[field] as string[] | undefined) ?? [];
+      if (wanted.length === 0) continue;
+      checked++;
+      const got = (actual[field] as string[] | null | undefined) ?? [];
+      const actualValues = new Set(got.map(v => v.toLowerCase()));
+      if (!wanted.every(v => actualValues.has(v.toLowerCase()))) {
+        mismatches.push({ field, expected: wanted, actual: got });
+      }
+      continue;
+    }
+
+    checked++;
+    const want = normalizeValue(expected[field]);
+    const got = normalizeValue(actual[field]);
+    if (want !== got) {
+      mismatches.push({ field, expected: expected[field] ?? null, actual: actual[field] ?? null });
+    }
+  }
+
+  return { checked, correct: checked - mismatches.length, mismatches };
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
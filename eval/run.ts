@@ -0,0 +1,151 @@
+/**
+ * Offline relevance evaluation
+ * Run with: npm run eval -- [options]
+ *
+ *   --golden <file>    golden query set (default eval/golden/core.json)
+ *   --fixtures <file>  fixture catalog (default eval/fixtures/catalog.json)
+ *   --config <file>    search config to evaluate (default eval/configs/baseline.json)
+ *   --compare <file>   second config; prints the difference against --config
+ *   --k <n>            cut-off for P@k and nDCG@k (default 10)
+ *   --skip-load        reuse the fixture database from the previous run
+ *   --out <file>       write the full report(s) as JSON
+ *
+ * Needs EVAL_DATABASE_URL: a disposable local Postgres with pgvector.
+ * Its public schema is wiped and rebuilt on every run (unless --skip-load).
+ * Providers default to SEARCH_PROVIDER=offline (no API keys, deterministic).
+ */
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import type { EvalDiff, EvalReport, EvalSummary, QueryDiff, QueryResult } from './runner';
+
+dotenv.config();
+
+const { values: args } = parseArgs({
+  options: {
+    golden: { type: 'string', default: 'eval/golden/core.json' },
+    fixtures: { type: 'string', default: 'eval/fixtures/catalog.json' },
+    config: { type: 'string', default: 'eval/configs/baseline.json' },
+    compare: { type: 'string' },
+    k: { type: 'string', default: '10' },
+    'skip-load': { type: 'boolean', default: false },
+    out: { type: 'string' }
+  }
+});
+
+if (!process.env.EVAL_DATABASE_URL) {
+  console.error('❌ EVAL_DATABASE_URL is not set (the eval database is wiped, never use the production database)');
+  process.exit(1);
+}
+
+// Point the search pipeline at the eval database before any lib module is loaded
+process.env.DATABASE_URL = process.env.EVAL_DATABASE_URL;
+process.env.POSTGRES_DRIVER = 'postgres';
+process.env.QUERY_CACHE_BACKEND = 'off';
+process.env.SEARCH_PROVIDER = process.env.SEARCH_PROVIDER || 'offline';
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+const PERCENT_METRICS = new Set(['meanPrecisionAt5', 'meanPrecisionAtK', 'meanRecall', 'filterFieldAccuracy', 'filterExactMatch']);
+const SCORE_METRICS = new Set(['meanNdcgAtK', 'mrr']);
+
+function formatMetric(metric: string, value: number): string {
+  if (PERCENT_METRICS.has(metric)) return pct(value);
+  return value.toFixed(SCORE_METRICS.has(metric) ? 3 : 1);
+}
+
+function signed(text: string, value: number): string {
+  return value > 0 ? `+${text}` : text;
+}
+
+async function main() {
+  const { loadEvalConfig, loadFixtureCatalog, loadGoldenSet } = await import('./golden');
+  const { seedFixtureDatabase } = await import('./fixtures');
+  const { diffReports, runEvaluation } = await import('./runner');
+  const { closeDb } = await import('../lib/db');
+
+  const k = parseInt(args.k!) || 10;
+  const golden = loadGoldenSet(args.golden!);
+  const config = loadEvalConfig(args.config!);
+  const compare = args.compare ? loadEvalConfig(args.compare) : null;
+
+  try {
+    if (!args['skip-load']) {
+      await seedFixtureDatabase(loadFixtureCatalog(args.fixtures!));
+    }
+
+    const report: EvalReport = await runEvaluation(golden, config, k);
+    const s = report.summary;
+
+    console.log(`\n📊 ${golden.name} × ${config.name} (${s.judgedQueries} judged queries, k=${k})\n`);
+    console.table(report.queries.map((q: QueryResult) => ({
+      id: q.id,
+      total: q.total,
+      [`P@${k}`]: q.metrics ? pct(q.metrics.precisionAtK) : '-',
+      recall: q.metrics ? pct(q.metrics.recall) : '-',
+      [`nDCG@${k}`]: q.metrics ? q.metrics.ndcgAtK.toFixed(3) : '-',
+      RR: q.metrics ? q.metrics.reciprocalRank.toFixed(2) : '-',
+      filters: `${q.filters.correct}/${q.filters.checked}`,
+      relaxed: q.relaxation?.join(', ') ?? ''
+    })));
+
+    console.log(`P@5 ${pct(s.meanPrecisionAt5)} | P@${k} ${pct(s.meanPrecisionAtK)} | recall ${pct(s.meanRecall)} | nDCG@${k} ${s.meanNdcgAtK.toFixed(3)} | MRR ${s.mrr.toFixed(3)}`);
+    console.log(`Filters: ${pct(s.filterFieldAccuracy)} of fields, ${pct(s.filterExactMatch)} of queries exact ${JSON.stringify(s.filterFieldErrors)}`);
+    console.log(`Vague queries without results: ${s.noResultsPassed}/${s.noResultsExpected}`);
+
+    for (const q of report.queries.filter((q: QueryResult) => q.filters.mismatches.length > 0)) {
+      for (const m of q.filters.mismatches) {
+        console.log(`  ⚠️  ${q.id} ${m.field}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}`);
+      }
+    }
+
+    let output: unknown = report;
+
+    if (compare) {
+      const candidate: EvalReport = await runEvaluation(golden, compare, k);
+      const diff: EvalDiff = diffReports(report, candidate, golden);
+      const metrics = Object.keys(diff.summary) as (keyof EvalSummary)[];
+
+      console.log(`\n🔀 ${config.name} → ${compare.name}\n`);
+      console.table(Object.fromEntries(metrics.map(metric => {
+        const d = diff.summary[metric]!;
+        return [metric, {
+          [config.name]: formatMetric(metric, d.baseline),
+          [compare.name]: formatMetric(metric, d.candidate),
+          delta: signed(formatMetric(metric, d.delta), d.delta)
+        }];
+      })));
+
+      if (diff.queries.length === 0) {
+        console.log('No query changed its results.');
+      } else {
+        console.table(diff.queries.map((q: QueryDiff) => ({
+          id: q.id,
+          [`nDCG@${k} Δ`]: signed(q.ndcgDelta.toFixed(3), q.ndcgDelta),
+          total: `${q.totalBefore} → ${q.totalAfter}`,
+          gained: q.gained.join(', '),
+          lost: q.lost.join(', ')
+        })));
+      }
+
+      output = { baseline: report, candidate, diff };
+    }
+
+    if (args.out) {
+      fs.writeFileSync(args.out, JSON.stringify(output, null, 2));
+      console.log(`\n💾 Report written to ${args.out}`);
+    }
+  } finally {
+    await closeDb();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌ Evaluation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,199 @@
+/**
+ * Eval Runner - Run a golden set through the search pipeline in-process
+ *
+ * Each query goes through the real search pipeline (parsing, embedding,
+ * hybrid retrieval, relaxation) against the fixture database; the ranked
+ * product ids are scored against the judgments and the parsed filters
+ * against the expected filters.
+ */
+
+import { executeSearch } from '../lib/search-pipeline';
+import { MAX_PAGE_SIZE } from '../lib/pagination';
+import { setSearchConfig, type SearchConfig } from '../lib/search-config';
+import type { SearchFilters } from '../lib/search-filters';
+import type { EvalConfig, GoldenQuery, GoldenSet } from './golden';
+import { compareFilters, FILTER_FIELDS, mean, ndcgAtK, precisionAtK, recall, reciprocalRank, RELEVANT_GRADE, type FilterMismatch } from './metrics';
+
+export const DEFAULT_K = 10;
+
+export interface QueryMetrics {
+  precisionAt5: number;
+  precisionAtK: number;
+  recall: number;
+  ndcgAtK: number;
+  reciprocalRank: number;
+}
+
+export interface QueryResult {
+  id: string;
+  query: string;
+  total: number;
+  ranked: number[];
+  relaxation: string[] | null;
+  filterSource: string;
+  metrics: QueryMetrics | null;            // null for queries without judgments
+  noResultsPassed: boolean | null;         // null unless expectNoResults
+  filters: { checked: number; correct: number; mismatches: FilterMismatch[] };
+  tookMs: number;
+}
+
+export interface EvalSummary {
+  judgedQueries: number;
+  meanPrecisionAt5: number;
+  meanPrecisionAtK: number;
+  meanRecall: number;
+  meanNdcgAtK: number;
+  mrr: number;
+  noResultsPassed: number;
+  noResultsExpected: number;
+  filterFieldAccuracy: number;                          // Correct fields / checked fields
+  filterExactMatch: number;                             // Queries with every field correct
+  filterFieldErrors: Partial<Record<string, number>>;   // Mistakes per field
+  meanTookMs: number;
+}
+
+export interface EvalReport {
+  golden: string;
+  config: string;
+  searchConfig: SearchConfig;
+  k: number;
+  summary: EvalSummary;
+  queries: QueryResult[];
+}
+
+async function runQuery(golden: GoldenQuery, k: number): Promise<QueryResult> {
+  const start = Date.now();
+  const response = await executeSearch({ query: golden.query, limit: MAX_PAGE_SIZE });
+  if (response.status !== 200 || !response.body?.success) {
+    throw new Error(`Search failed for "${golden.query}" (${response.status}): ${response.body?.details || response.body?.error}`);
+  }
+
+  const { query, results } = response.body;
+  const ranked: number[] = results.items.map((item: { id: number }) => Number(item.id));
+  const judged = Object.keys(golden.judgments).length > 0;
+
+  return {
+    id: golden.id,
+    query: golden.query,
+    total: results.total,
+    ranked,
+    relaxation: results.relaxation?.applied ?? null,
+    filterSource: query.filterSource,
+    metrics: judged ? {
+      precisionAt5: precisionAtK(ranked, golden.judgments, 5),
+      precisionAtK: precisionAtK(ranked, golden.judgments, k),
+      recall: recall(ranked, golden.judgments),
+      ndcgAtK: ndcgAtK(ranked, golden.judgments, k),
+      reciprocalRank: reciprocalRank(ranked, golden.judgments)
+    } : null,
+    noResultsPassed: golden.expectNoResults ? results.total === 0 : null,
+    filters: compareFilters(golden.expectedFilters, query.filters as SearchFilters),
+    tookMs: Date.now() - start
+  };
+}
+
+function summarize(results: QueryResult[]): EvalSummary {
+  const judged = results.filter(r => r.metrics !== null).map(r => r.metrics!);
+  const noResults = results.filter(r => r.noResultsPassed !== null);
+  const checked = results.reduce((sum, r) => sum + r.filters.checked, 0);
+  const correct = results.reduce((sum, r) => sum + r.filters.correct, 0);
+
+  const filterFieldErrors: Partial<Record<string, number>> = {};
+  for (const field of FILTER_FIELDS) {
+    const errors = results.filter(r => r.filters.mismatches.some(m => m.field === field)).length;
+    if (errors > 0) filterFieldErrors[field] = errors;
+  }
+
+  return {
+    judgedQueries: judged.length,
+    meanPrecisionAt5: mean(judged.map(m => m.precisionAt5)),
+    meanPrecisionAtK: mean(judged.map(m => m.precisionAtK)),
+    meanRecall: mean(judged.map(m => m.recall)),
+    meanNdcgAtK: mean(judged.map(m => m.ndcgAtK)),
+    mrr: mean(judged.map(m => m.reciprocalRank)),
+    noResultsPassed: noResults.filter(r => r.noResultsPassed).length,
+    noResultsExpected: noResults.length,
+    filterFieldAccuracy: checked > 0 ? correct / checked : 0,
+    filterExactMatch: mean(results.map(r => (r.filters.mismatches.length === 0 ? 1 : 0))),
+    filterFieldErrors,
+    meanTookMs: mean(results.map(r => r.tookMs))
+  };
+}
+
+/**
+ * Run every query of a golden set under one search config
+ * Queries run one at a time so timings are comparable.
+ */
+export async function runEvaluation(golden: GoldenSet, config: EvalConfig, k = DEFAULT_K): Promise<EvalReport> {
+  const searchConfig = setSearchConfig(config);
+  console.log(`[Eval] Running ${golden.queries.length} queries from "${golden.name}" with config "${config.name}"`);
+
+  try {
+    const queries: QueryResult[] = [];
+    for (const query of golden.queries) {
+      queries.push(await runQuery(query, k));
+    }
+    return { golden: golden.name, config: config.name, searchConfig, k, summary: summarize(queries), queries };
+  } finally {
+    setSearchConfig(null);
+  }
+}
+
+export interface QueryDiff {
+  id: string;
+  query: string;
+  ndcgDelta: number;
+  totalBefore: number;
+  totalAfter: number;
+  gained: number[];      // Relevant products only config B retrieved
+  lost: number[];        // Relevant products only config A retrieved
+}
+
+export interface EvalDiff {
+  baseline: string;
+  candidate: string;
+  summary: Partial<Record<keyof EvalSummary, { baseline: number; candidate: number; delta: number }>>;
+  queries: QueryDiff[];  // Queries whose ranking or total changed
+}
+
+/**
+ * Compare two reports of the same golden set (baseline → candidate)
+ */
+export function diffReports(baseline: EvalReport, candidate: EvalReport, golden: GoldenSet): EvalDiff {
+  const summary: EvalDiff['summary'] = {};
+  for (const key of Object.keys(baseline.summary) as (keyof EvalSummary)[]) {
+    const before = baseline.summary[key];
+    const after = candidate.summary[key];
+    if (typeof before === 'number' && typeof after === 'number') {
+      summary[key] = { baseline: before, candidate: after, delta: after - before };
+    }
+  }
+
+  const judgments = new Map(golden.queries.map(q => [q.id, q.judgments]));
+  const queries: QueryDiff[] = [];
+
+  for (const before of baseline.queries) {
+    const after = candidate.queries.find(q => q.id === before.id);
+    if (!after) continue;
+    const sameRanking = before.total === after.total && before.ranked.join(',') === after.ranked.join(',');
+    if (sameRanking) continue;
+
+    const relevant = (id: number) => (judgments.get(before.id)?.[String(id)] ?? 0) >= RELEVANT_GRADE;
+    queries.push({
+      id: before.id,
+      query: before.query,
+      ndcgDelta: (after.metrics?.ndcgAtK ?? 0) - (before.metrics?.ndcgAtK ?? 0),
+      totalBefore: before.total,
+      totalAfter: after.total,
+      gained: after.ranked.filter(id => relevant(id) && !before.ranked.includes(id)),
+      lost: before.ranked.filter(id => relevant(id) && !after.ranked.includes(id))
+    });
+  }
+
+  return {
+    baseline: baseline.config,
+    candidate: candidate.config,
+    summary,
+    queries: queries.sort((a, b) => a.ndcgDelta - b.ndcgDelta)
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * AI Budget - Daily spending cap for paid LLM calls
+ *
+ * Every OpenAI chat call (parse, refine, advice) that misses the query
+ * cache is charged AI_COST_PER_CALL_EUR against AI_DAILY_BUDGET_EUR. Once
+ * the day's budget is spent, metered() refuses the call and search-ai
+ * falls back to the rule parser and template advice until midnight (UTC).
+ * Embeddings are not metered: vector ranking needs them and they cost a
+ * fraction of a chat call.
+ *
+ * Spending is shared through ai_spend (schema/021_abuse_protection.sql);
+ * each instance re-reads it at most every SPEND_REFRESH_MS and counts its
+ * own calls in between. Without AI_DAILY_BUDGET_EUR there is no cap.
+ */
+
+import { sql, type QueryClient } from './db';
+
+const SPEND_REFRESH_MS = 30_000;
+export const AI_BUDGET_EXHAUSTED = 'AI_BUDGET_EXHAUSTED';
+
+let spend = { day: '', cost: 0, loadedAt: 0 };
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function getDailyBudget(): number | null {
+  const budget = Number(process.env.AI_DAILY_BUDGET_EUR);
+  return budget > 0 ? budget : null;
+}
+
+function costPerCall(): number {
+  return Number(process.env.AI_COST_PER_CALL_EUR) || 0.0005;
+}
+
+/**
+ * Today's spending (shared total, re-read at most every SPEND_REFRESH_MS)
+ * A database failure keeps the local count.
+ */
+export async function getSpentToday(db: QueryClient = sql): Promise<number> {
+  const day = today();
+  if (spend.day === day && Date.now() - spend.loadedAt < SPEND_REFRESH_MS) {
+    return spend.cost;
+  }
+
+  try {
+    const { rows } = await db.query('SELECT cost_eur FROM ai_spend WHERE day = $1', [day]);
+    spend = { day, cost: rows.length > 0 ? parseFloat(rows[0].cost_eur) : 0, loadedAt: Date.now() };
+  } catch (error: any) {
+    console.warn('[Budget] Could not read AI spend:', error.message);
+    spend = { day, cost: spend.day === day ? spend.cost : 0, loadedAt: Date.now() };
+  }
+  return spend.cost;
+}
+
+export function isBudgetExhausted(error: any): boolean {
+  return error?.code === AI_BUDGET_EXHAUSTED;
+}
+
+/**
+ * Run a paid provider call within the budget
+ * Calls to other providers (local, offline) are free and always run.
+ * Throws an error with code AI_BUDGET_EXHAUSTED when the day's budget is spent.
+ */
+export async function metered<T>(providerName: string, call: () => Promise<T>, db: QueryClient = sql): Promise<T> {
+  const budget = getDailyBudget();
+  if (providerName !== 'openai' || budget === null) {
+    return call();
+  }
+
+  if (await getSpentToday(db) >= budget) {
+    throw Object.assign(new Error(`AI budget of €${budget} for ${spend.day} is spent`), { code: AI_BUDGET_EXHAUSTED });
+  }
+
+  const cost = costPerCall();
+  spend.cost += cost;
+  db.query(`
+    INSERT INTO ai_spend (day, calls, cost_eur) VALUES ($1, 1, $2)
+    ON CONFLICT (day) DO UPDATE SET calls = ai_spend.calls + 1, cost_eur = ai_spend.cost_eur + $2
+  `, [spend.day, cost]).catch((error: any) => {
+    console.warn('[Budget] Recording AI spend failed:', error.message);
+  });
+
+  return call();
+}
@@ -0,0 +1,199 @@
+/**
+ * AI Prompts - Prompt templates shared by all LLM-backed providers
+ * Kept in one place so OpenAI and OpenAI-compatible local models
+ * receive exactly the same instructions.
+ */
+
+import { buildPromptInstructions, getCatalogSummary } from './catalog-metadata';
+import { buildGiftFinderInstructions } from './gift-finder';
+import type { SearchFilters } from './search-filters';
+
+/**
+ * Prompt for updating the filters of a previous search with a follow-up utterance
+ */
+export function buildRefineFiltersPrompt(previous: SearchFilters, utterance: string): string {
+  return `A shopper is refining a Dutch product search. Current filters (JSON):
+${JSON.stringify(previous)}
+
+Follow-up message: "${utterance}"
+
+Return the COMPLETE updated filter state (all fields), not just the changes:
+- Keep every current filter the message does not touch
+- "goedkoper" / "iets minder duur" → lower priceMax by about 25% (if no priceMax yet, leave prices unchanged)
+- "duurder" / "luxer" → set priceMin to the current priceMax and clear priceMax
+- "groter" / "kleiner" → move sizeCategory one step (klein ↔ middel ↔ groot)
+- "in het blauw", "met een hond" → ADD keywords (with variations, like a normal search)
+- "zonder X", "geen X" → REMOVE X from keywords (or clear artist/productType if X is one)
+- "liever een vaas", "toch een schilderij" → switch productType
+- "andere kunstenaar", "maakt niet uit welke kunstenaar" → clear artist
+- "voor mijn moeder", "het is voor haar pensioen", "ze houdt van golf" → set recipient / occasion, ADD interests
+- Explicit new values ("onder 40 euro", "van Klimt") replace the current ones
+
+${buildPromptInstructions()}
+
+Examples:
+{"productType": "Beeld", "keywords": ["kat", "poes", "cat"]} + "en dan in het blauw" → {"productType": "Beeld", "keywords": ["kat", "poes", "cat", "blauw", "blue"]}
+{"productType": "Beeld", "priceMax": 100, "keywords": ["kat"]} + "iets goedkoper" → {"productType": "Beeld", "priceMax": 75, "keywords": ["kat"]}
+{"productType": "Beeld", "keywords": ["kat"]} + "liever een vaas" → {"productType": "Vaas", "keywords": ["kat"]}`;
+}
+
+/**
+ * Prompt for extracting structured filters from a Dutch search query
+ */
+export function buildParseFiltersPrompt(query: string): string {
+  return `Analyze this Dutch product search query and extract filters: "${query}"
+
+Extract:
+1. priceMin/priceMax: Concrete numbers ONLY. For "niet te duur", "goedkoop", "luxe" → return null (not enough info)
+2. productType: ONLY if explicitly mentioned (see valid types below)
+   IMPORTANT: "Keramiek" should map to "Beeld" (ceramic items are sculptures/beelden)
+3. artist: Extract artist/designer name if mentioned (see exact brand list below). Use most specific form.
+   IMPORTANT: Extract to 'artist' field, NOT to 'keywords' field!
+4. sizeCategory: Extract size hints
+   - "klein", "kleine", "mini", "compact", "bureau" → klein (<20cm)
+   - "middel", "gemiddeld", "normaal", "standaard" → middel (20-40cm)
+   - "groot", "grote", "fors", "ruim", "statement" → groot (>40cm)
+   Explicit measurements go to the cm fields instead (NOT to priceMin/priceMax!):
+   - "maximaal 30 cm hoog" → heightMaxCm: 30
+   - "minstens 50 cm breed" → widthMinCm: 50
+   - "niet groter dan 25 cm" → sizeMaxCm: 25 (no axis → largest dimension)
+   - "tussen 20 en 40 cm hoog" → heightMinCm: 20, heightMaxCm: 40
+5. keywords: ONLY specific, searchable subjects (animals, colors, themes, objects)
+   DO NOT extract generic words like: cadeau, geschenk, present, gift, iets, mooi, leuk, origineel, bijzonder, speciaal, voor, mijn, etc.
+   DO NOT extract artist names - those go in the 'artist' field!
+   DO NOT extract recipients, occasions or interests of the recipient - those go in the gift fields (7)!
+   ONLY extract: specific animals, colors, materials, themes
+   
+   IMPORTANT - ENRICH keywords with variations:
+   - Add PLURAL forms (samenwerking → samenwerking, samenwerken, team, samen)
+   - Add SYNONYMS (vriendschap → vriendschap, vriend, vrienden, friendship, buddy)
+   - Add ENGLISH translations for common themes (liefde → liefde, love, heart)
+   - Add RELATED concepts (muziek → muziek, music, instrument, noten, melodie)
+   
+   Example enrichment:
+   "hond" → ["hond", "honden", "dog", "dogs"]
+   "vriendschap" → ["vriendschap", "vriend", "vrienden", "friendship", "buddy", "samen"]
+   "samenwerking" → ["samenwerking", "samenwerken", "team", "teamwork", "collaboration", "samen"]
+   "liefde" → ["liefde", "love", "heart", "hart", "romantic"]
+   
+6. requiresExactMatch: true if keywords MUST appear in title/description
+7. Gift finder: who the gift is for, the occasion and what the recipient likes
+   - recipient: "mijn moeder", "mama" → "moeder"; "verpleegkundige" → "zorgmedewerker"; "zakelijk" → "relatie"
+   - occasion: "huwelijkscadeau", "bruiloft" → "huwelijk"; "afstuderen" → "geslaagd"
+   - interests: ONLY what the recipient likes ("die van golf houdt" → ["golf"]); a subject of the product itself stays a keyword
+   Map synonyms to the closest id below; leave the field empty when nothing fits.
+
+${buildGiftFinderInstructions()}
+
+${buildPromptInstructions()}
+
+Examples:
+"cadeau voor mijn zus" → {"recipient": "zus", "keywords": []} (no subject - gift finder asks the rest)
+"iets moois" → {"keywords": []} (too vague!)
+"geschenk voor mijn vader" → {"recipient": "vader", "keywords": []}
+"pensioencadeau voor een collega die van golf houdt, max 50 euro" → {"recipient": "collega", "occasion": "pensioen", "interests": ["golf"], "priceMax": 50, "keywords": []}
+"kat beeld voor mijn moeder" → {"productType": "Beeld", "recipient": "moeder", "keywords": ["kat", "poes", "cat"]}
+"onder 100 euro" → {"priceMax": 100}
+"sportbeeld" → {"productType": "Beeld", "keywords": ["sport", "fitness", "atleet"], "requiresExactMatch": false}
+"mok" → {"productType": "Mok"}
+"hond" → {"keywords": ["hond", "honden", "dog"]}
+"dog" → {"keywords": ["hond", "honden", "dog"]}
+"klein beeld met een kat" → {"sizeCategory": "klein", "productType": "Beeld", "keywords": ["kat", "poes", "cat"]}
+"groot bronzen beeld" → {"sizeCategory": "groot", "productType": "Beeld", "keywords": ["bronzen"]}
+"compact bureau beeldje" → {"sizeCategory": "klein", "keywords": ["bureau"]}
+"beeld maximaal 30 cm hoog" → {"productType": "Beeld", "heightMaxCm": 30}
+"schilderij van minstens 80 cm breed" → {"productType": "Schilderij", "widthMinCm": 80}
+"sport" → {"keywords": ["sport", "fitness", "atleet", "sports", "athletic"], "requiresExactMatch": false}
+"kat" → {"keywords": ["kat", "poes", "cat", "katten", "cats"], "requiresExactMatch": false}
+"poes" → {"keywords": ["kat", "poes", "cat", "katten", "cats"], "requiresExactMatch": false}
+"samen er tegenaan" → {"keywords": ["samen", "samenwerking", "team", "teamwork", "collaboration"], "requiresExactMatch": false}
+"vriendschap" → {"keywords": ["vriendschap", "vriend", "vrienden", "friendship", "buddy", "samen"], "requiresExactMatch": false}
+"kokeshi" → {"artist": "Kokeshi dolls"} (artist filter - NOT keywords!)
+"kokeshi beeld" → {"productType": "Beeld", "artist": "Kokeshi dolls"}
+"een kokeshi beeld" → {"productType": "Beeld", "artist": "Kokeshi dolls"}
+"Beeld max 200 euro" → {"productType": "Beeld", "priceMax": 200}
+"Van Gogh schilderij" → {"productType": "Schilderij", "artist": "Vincent van Gogh"} (artist filter!)
+"klimt" → {"artist": "Gustav Klimt"} (artist filter!)
+"jeff koons" → {"artist": "Jeff Koons"} (artist filter!)
+"van gogh" → {"artist": "Vincent van Gogh"}
+"forchino" → {"artist": "Guillermo Forchino beelden"}
+"een beeldje met een hond, max 80 euro" → {"priceMax": 80, "productType": "Beeld", "keywords": ["hond", "honden", "dog"], "requiresExactMatch": false}
+"schilderij max 300 euro" → {"priceMax": 300, "productType": "Schilderij"}
+"niet te duur" → {"priceMax": null}
+"goedkoop cadeau" → {"priceMax": null}
+"huwelijkscadeau" → {"occasion": "huwelijk", "keywords": []}
+"bedankje" → {"keywords": ["bedanken", "dank", "thanks"], "requiresExactMatch": false}
+"klassiek" → {"keywords": ["klassiek", "traditioneel", "vintage"], "requiresExactMatch": false}
+"sportbeeld" → {"productType": "Beeld", "keywords": ["sport", "fitness", "atleet"], "requiresExactMatch": false}
+"cadeau voor zorgmedewerker" → {"recipient": "zorgmedewerker", "keywords": []}
+"zakelijk cadeau" → {"recipient": "relatie", "keywords": []}
+"jubileum" → {"occasion": "jubileum", "keywords": []}
+"geslaagd cadeau" → {"occasion": "geslaagd", "keywords": []}
+"gezinsbeeld" → {"productType": "Beeld", "keywords": ["gezin", "familie", "kinderen"], "requiresExactMatch": false}
+"modern beeld" → {"productType": "Beeld", "keywords": ["modern", "eigentijds"], "requiresExactMatch": false}
+"exclusief brons" → {"keywords": ["exclusief", "luxe", "premium", "brons"], "requiresExactMatch": false}`;
+}
+
+/**
+ * Prompt for an enthusiastic advice message about search results
+ */
+export function buildAdvicePrompt(query: string, total: number, filters: SearchFilters): string {
+  return `Create a warm, personal message about these search results:
+Query: "${query}"
+Results found: ${total}
+Filters: ${JSON.stringify(filters)}
+
+${getCatalogSummary()}
+
+Guidelines:
+- Be conversational and enthusiastic (like a helpful shop assistant!)
+- Use 2-4 sentences
+- Use a relevant emoji (🎨, ✨, 🎁, 💎, 🌟, 💫)
+- Mention what makes these products special
+- For 1 result: "perfect match!"
+- For 2-10: emphasize quality selection
+- For 11-30: mention variety
+- For 31+: encourage browsing to find favorite
+
+Examples:
+- "✨ Wat fijn dat je zoekt naar een kat beeld! Ik heb 8 prachtige beelden voor je gevonden. Van speels tot elegant, er zit vast iets bij dat perfect past bij jouw smaak!"
+- "🎨 Super! Er zijn 23 sportbeelden die aan je wensen voldoen. Van dynamische atleten tot klassieke sporters - neem rustig de tijd om je favoriet uit te kiezen!"
+- "💎 Wow, 1 perfect beeld met een voetballer gevonden! Dit is echt een prachtig sportbeeld dat precies past bij wat je zoekt."
+
+Now create an advice message for this search.`;
+}
+
+/**
+ * Prompt for a helpful message when the query is too vague
+ */
+export function buildEmptyStatePrompt(query: string): string {
+  return `The user searched for: "${query}"
+This query is too vague to find good products (no specific type, theme, or price).
+
+${getCatalogSummary()}
+
+Create a warm, enthusiastic, positive message that:
+- Starts with a cheerful emoji (✨, 🎨, 💫, 🎁, 🌟)
+- Be VERY positive and encouraging (no negative words!)
+- Briefly acknowledge what they're looking for
+- Ask 1-2 clarifying questions about type, theme, or budget
+- Give 2-3 concrete search examples using REAL types and themes from our catalog
+- Keep it upbeat and helpful (3-4 sentences max)
+- End on an encouraging note!
+
+CRITICAL for search examples:
+- Use natural Dutch: "kat beeld onder 50 euro" (NOT "kat onderwerp beeld")
+- Always include budget in euros: "onder X euro", "max X euro"
+- Use simple combinations: [dier/thema] + [type] + [budget]
+- GOOD: "bloemen vaas max 80 euro", "sportbeeld onder 150 euro", "Van Gogh mok"
+- BAD: "liefde onderwerp vaas", "bloemen thema", "abstract ding"
+
+Examples:
+"✨ Wat leuk dat je een cadeau zoekt! We hebben zoveel mooie kunstcadeaus! Zoek je een beeld, schilderij, vaas of mok? En welk thema past erbij - dieren, sport, bloemen of een beroemde kunstenaar? Probeer bijvoorbeeld: 'kat beeld onder 50 euro', 'bloemenvaas max 80 euro' of 'Van Gogh mok onder 30 euro'!"
+
+"🎨 Super! We hebben prachtige kunstcadeaus in alle prijsklassen! Vertel me wat meer: zoek je iets voor een speciale gelegenheid zoals een huwelijk, jubileum of geslaagd? Of heb je een bepaald budget? Probeer bijvoorbeeld: 'huwelijksbeeld onder 100 euro', 'sportbeeld max 150 euro' of 'Klimt onderzetters'!"
+
+"🌟 Wat fijn dat je hier bent! Ons assortiment is enorm! Houdt de persoon van dieren, bloemen of sport? En wat voor type cadeau - een mooi beeld, sierlijk schilderij of leuke mok? Probeer bijvoorbeeld: 'hond beeld onder 80 euro', 'bloemen schilderij max 100 euro' of 'sportbeeld onder 150 euro'!"
+
+Now create a message for: "${query}"`;
+}
@@ -0,0 +1,371 @@
+/**
+ * AI Providers - Pluggable LLM and embedding layer for search
+ *
+ * The search pipeline needs three capabilities:
+ * - QueryParser: natural language query → structured filters
+ * - AdviceGenerator: conversational advice messages
+ * - Embedder: text → EMBEDDING_DIMENSIONS-dim vector (matches products.embedding)
+ *
+ * Implementations are chosen by environment configuration:
+ * - openai  → OpenAI API (default, requires OPENAI_API_KEY)
+ * - local   → OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+ * - offline → Fully deterministic, no network, no API keys (dev/CI)
+ *
+ * SEARCH_PROVIDER selects all three at once. SEARCH_PARSER_PROVIDER,
+ * SEARCH_ADVICE_PROVIDER and SEARCH_EMBEDDING_PROVIDER override per role.
+ */
+
+import { embed, embedMany, generateObject, streamObject } from 'ai';
+import type { EmbeddingModel, LanguageModel } from 'ai';
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import { z } from 'zod';
+import { buildAdvicePrompt, buildEmptyStatePrompt, buildParseFiltersPrompt, buildRefineFiltersPrompt } from './ai-prompts';
+import { normalizeText, parseQueryRules } from './query-parser';
+import { refineFiltersRules } from './refinement';
+import { searchFiltersSchema, type SearchFilters } from './search-filters';
+
+// Size of products.embedding and search_contexts.embedding; scripts/setup-schema.js
+// resizes both columns when this changes (e.g. 768 for nomic-embed-text)
+export const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS) || 1536;
+
+export type ProviderName = 'openai' | 'local' | 'offline';
+
+export interface QueryParser {
+  name: string;
+  parse(query: string): Promise<SearchFilters>;
+  refine(previous: SearchFilters, utterance: string): Promise<SearchFilters>;   // Multi-turn follow-up
+}
+
+export interface AdviceGenerator {
+  name: string;
+  generateAdvice(query: string, total: number, filters: SearchFilters): Promise<string>;
+  generateEmptyState(query: string): Promise<string>;
+  // Token streams of the same messages (optional; callers fall back to the whole message)
+  streamAdvice?(query: string, total: number, filters: SearchFilters): AsyncIterable<string>;
+  streamEmptyState?(query: string): AsyncIterable<string>;
+}
+
+export interface Embedder {
+  name: string;
+  model: string;               // Model id; vectors from different models are not comparable
+  embed(value: string): Promise<number[]>;
+  embedMany(values: string[]): Promise<number[][]>;
+}
+
+export interface SearchProviders {
+  parser: QueryParser;
+  advisor: AdviceGenerator;
+  embedder: Embedder;
+}
+
+const adviceSchema = z.object({
+  advice: z.string().describe('Friendly, enthusiastic advice message in Dutch about the search results')
+});
+
+const emptyStateSchema = z.object({
+  advice: z.string().describe('Friendly, helpful message in Dutch to guide the user to search better')
+});
+
+/**
+ * Parser backed by any AI SDK language model (structured output)
+ */
+function createLlmParser(name: string, model: LanguageModel): QueryParser {
+  return {
+    name,
+    async parse(query: string) {
+      const { object } = await generateObject({
+        model,
+        schema: searchFiltersSchema,
+        prompt: buildParseFiltersPrompt(query)
+      });
+      return object;
+    },
+    async refine(previous: SearchFilters, utterance: string) {
+      const { object } = await generateObject({
+        model,
+        schema: searchFiltersSchema,
+        prompt: buildRefineFiltersPrompt(previous, utterance)
+      });
+      return object;
+    }
+  };
+}
+
+/**
+ * Stream the advice field of a structured response as text deltas
+ * Ends with the validated object, so a failed or invalid response throws.
+ */
+async function* streamAdviceField(model: LanguageModel, schema: typeof adviceSchema, prompt: string): AsyncIterable<string> {
+  const result = streamObject({ model, schema, prompt, onError: () => {} });
+  let sent = '';
+  for await (const partial of result.partialObjectStream) {
+    const text = partial.advice ?? '';
+    if (text.length > sent.length && text.startsWith(sent)) {
+      yield text.slice(sent.length);
+      sent = text;
+    }
+  }
+
+  const { advice } = await result.object;
+  if (advice.startsWith(sent) && advice.length > sent.length) {
+    yield advice.slice(sent.length);
+  }
+}
+
+/**
+ * Advice generator backed by any AI SDK language model
+ */
+function createLlmAdvisor(name: string, model: LanguageModel): AdviceGenerator {
+  return {
+    name,
+    async generateAdvice(query: string, total: number, filters: SearchFilters) {
+      const { object } = await generateObject({
+        model,
+        schema: adviceSchema,
+        prompt: buildAdvicePrompt(query, total, filters)
+      });
+      return object.advice;
+    },
+    async generateEmptyState(query: string) {
+      const { object } = await generateObject({
+        model,
+        schema: emptyStateSchema,
+        prompt: buildEmptyStatePrompt(query)
+      });
+      return object.advice;
+    },
+    streamAdvice(query: string, total: number, filters: SearchFilters) {
+      return streamAdviceField(model, adviceSchema, buildAdvicePrompt(query, total, filters));
+    },
+    streamEmptyState(query: string) {
+      return streamAdviceField(model, emptyStateSchema, buildEmptyStatePrompt(query));
+    }
+  };
+}
+
+/**
+ * Embedder backed by any AI SDK embedding model
+ * Rejects vectors that don't fit the products.embedding column
+ */
+function createModelEmbedder(
+  name: string,
+  modelId: string,
+  model: EmbeddingModel<string>,
+  providerOptions?: Record<string, Record<string, number>>
+): Embedder {
+  const checkDimensions = (vector: number[]) => {
+    if (vector.length !== EMBEDDING_DIMENSIONS) {
+      throw new Error(
+        `${name} embedder ${modelId} returned ${vector.length} dimensions, expected ${EMBEDDING_DIMENSIONS} ` +
+        `(set EMBEDDING_DIMENSIONS=${vector.length} and run npm run db:schema)`
+      );
+    }
+    return vector;
+  };
+
+  return {
+    name,
+    model: modelId,
+    async embed(value: string) {
+      const { embedding } = await embed({ model, value, providerOptions });
+      return checkDimensions(embedding);
+    },
+    async embedMany(values: string[]) {
+      const { embeddings } = await embedMany({ model, values, providerOptions });
+      return embeddings.map(checkDimensions);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI
+// ---------------------------------------------------------------------------
+
+const OPENAI_CHAT_MODEL = process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini';
+const OPENAI_EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+
+// text-embedding-3 models can shorten their vectors to any EMBEDDING_DIMENSIONS
+const OPENAI_EMBEDDING_OPTIONS = OPENAI_EMBEDDING_MODEL.startsWith('text-embedding-3')
+  ? { openai: { dimensions: EMBEDDING_DIMENSIONS } }
+  : undefined;
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible local endpoint
+// ---------------------------------------------------------------------------
+
+const LOCAL_LLM_BASE_URL = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+const LOCAL_EMBEDDING_MODEL = process.env.LOCAL_EMBEDDING_MODEL || 'nomic-embed-text';   // 768 dimensions
+
+let localProvider: ReturnType<typeof createOpenAI> | null = null;
+
+function getLocalProvider() {
+  if (!localProvider) {
+    localProvider = createOpenAI({
+      name: 'local',
+      baseURL: LOCAL_LLM_BASE_URL,
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local'
+    });
+  }
+  return localProvider;
+}
+
+// ---------------------------------------------------------------------------
+// Offline (deterministic)
+// ---------------------------------------------------------------------------
+
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * FNV-1a 32-bit hash (stable across processes and platforms)
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic parser: rule-based extraction (see lib/query-parser.ts, lib/refinement.ts)
+ */
+const offlineParser: QueryParser = {
+  name: 'offline',
+  async parse(query: string) {
+    return parseQueryRules(query).filters;
+  },
+  async refine(previous: SearchFilters, utterance: string) {
+    return refineFiltersRules(previous, utterance).filters;
+  }
+};
+
+/**
+ * Deterministic advice: template messages based on result count
+ */
+const offlineAdvisor: AdviceGenerator = {
+  name: 'offline',
+  async generateAdvice(query: string, total: number) {
+    if (total === 1) {
+      return '✨ Er is 1 perfect product voor je gevonden!';
+    } else if (total <= 10) {
+      return `🎨 Ik heb ${total} mooie producten voor je gevonden!`;
+    } else {
+      return `✨ Ik heb ${total} producten gevonden! Bekijk ze allemaal en vind jouw favoriet.`;
+    }
+  },
+  async generateEmptyState() {
+    return '✨ Wat leuk dat je hier bent! Laten we samen het perfecte kunstcadeau vinden. Vertel me wat meer: zoek je een beeld, schilderij, vaas of mok? Probeer bijvoorbeeld: "kat beeld onder 50 euro", "sportbeeld max 100 euro", of "bloemen vaas onder 80 euro".';
+  }
+};
+
+/**
+ * Deterministic embedder: feature hashing of words and character trigrams
+ * Texts sharing words/trigrams get a positive cosine similarity, which is
+ * enough to exercise the full pipeline without a model. Products must be
+ * imported with the same embedder for rankings to be meaningful.
+ */
+function offlineEmbed(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const features: string[] = [];
+
+  for (const token of tokenize(text)) {
+    features.push(`w:${token}`);
+    const padded = ` ${token} `;
+    for (let i = 0; i <= padded.length - 3; i++) {
+      features.push(`t:${padded.slice(i, i + 3)}`);
+    }
+  }
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    const weight = feature.startsWith('w:') ? 2 : 1;
+    vector[hash % EMBEDDING_DIMENSIONS] += (hash & 0x80000000) ? -weight : weight;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+const offlineEmbedder: Embedder = {
+  name: 'offline',
+  model: 'feature-hash',
+  async embed(value: string) {
+    return offlineEmbed(value);
+  },
+  async embedMany(values: string[]) {
+    return values.map(offlineEmbed);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Provider selection
+// ---------------------------------------------------------------------------
+
+function resolveProviderName(roleVariable: string): ProviderName {
+  const value = (process.env[roleVariable] || process.env.SEARCH_PROVIDER || 'openai').toLowerCase().trim();
+  if (value === 'openai' || value === 'local' || value === 'offline') {
+    return value;
+  }
+  throw new Error(`Unknown search provider "${value}" (${roleVariable}); use openai, local or offline`);
+}
+
+function createParser(name: ProviderName): QueryParser {
+  switch (name) {
+    case 'openai': return createLlmParser('openai', openai(OPENAI_CHAT_MODEL));
+    case 'local': return createLlmParser('local', getLocalProvider().chat(LOCAL_LLM_MODEL));
+    case 'offline': return offlineParser;
+  }
+}
+
+function createAdvisor(name: ProviderName): AdviceGenerator {
+  switch (name) {
+    case 'openai': return createLlmAdvisor('openai', openai(OPENAI_CHAT_MODEL));
+    case 'local': return createLlmAdvisor('local', getLocalProvider().chat(LOCAL_LLM_MODEL));
+    case 'offline': return offlineAdvisor;
+  }
+}
+
+function createEmbedder(name: ProviderName): Embedder {
+  switch (name) {
+    case 'openai': return createModelEmbedder('openai', OPENAI_EMBEDDING_MODEL, openai.embedding(OPENAI_EMBEDDING_MODEL), OPENAI_EMBEDDING_OPTIONS);
+    case 'local': return createModelEmbedder('local', LOCAL_EMBEDDING_MODEL, getLocalProvider().embedding(LOCAL_EMBEDDING_MODEL));
+    case 'offline': return offlineEmbedder;
+  }
+}
+
+let cachedProviders: SearchProviders | null = null;
+
+/**
+ * Get the configured providers (resolved once per process)
+ */
+export function getSearchProviders(): SearchProviders {
+  if (cachedProviders) {
+    return cachedProviders;
+  }
+
+  cachedProviders = {
+    parser: createParser(resolveProviderName('SEARCH_PARSER_PROVIDER')),
+    advisor: createAdvisor(resolveProviderName('SEARCH_ADVICE_PROVIDER')),
+    embedder: createEmbedder(resolveProviderName('SEARCH_EMBEDDING_PROVIDER'))
+  };
+
+  console.log(`[Providers] parser=${cachedProviders.parser.name} advisor=${cachedProviders.advisor.name} embedder=${cachedProviders.embedder.name}`);
+  return cachedProviders;
+}
+
+/**
+ * Get the deterministic offline providers (used as failure fallback)
+ */
+export function getOfflineProviders(): SearchProviders {
+  return {
+    parser: offlineParser,
+    advisor: offlineAdvisor,
+    embedder: offlineEmbedder
+  };
+}
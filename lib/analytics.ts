@@ -0,0 +1,219 @@
+/**
+ * Search Analytics - Record searches and interactions, report on them
+ *
+ * /api/search writes one search_log row per new query (not per page);
+ * the widget posts clicks and purchases to /api/analytics/events with the
+ * searchId from the search response (see schema/010_search_analytics.sql).
+ */
+
+import { sql } from './db';
+import { z } from 'zod';
+import { normalizeQueryKey } from './query-cache';
+import type { SearchFilters } from './search-filters';
+
+export interface SearchLogEntry {
+  searchId: string;
+  query: string;                   // As typed
+  correctedQuery: string | null;   // What was searched after typo correction
+  filters: SearchFilters;
+  filterSource: string;
+  similarityThreshold: number;
+  resultCount: number;
+  keywordFallback: boolean;
+  relaxation: string[] | null;     // Relaxation steps that produced the results
+  timings: unknown;
+}
+
+export const interactionEventSchema = z.object({
+  event: z.enum(['click', 'purchase']),
+  search_id: z.string().uuid(),
+  product_id: z.coerce.number().int().optional().nullable(),
+  product_url: z.string().max(500).optional().nullable(),
+  client_id: z.string().max(100).optional().nullable()
+});
+
+export type InteractionEvent = z.infer<typeof interactionEventSchema>;
+
+// Same window as the widget's click tracking (TRACKING_EXPIRY_DAYS): a purchase may follow days later
+const INTERACTION_WINDOW_DAYS = 7;
+
+/**
+ * Report window and size (query string of the reporting endpoints)
+ */
+export const reportOptionsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  limit: z.coerce.number().int().min(1).max(500).default(50)
+});
+
+export type ReportOptions = z.infer<typeof reportOptionsSchema>;
+
+/**
+ * Record a search; failures are logged, never thrown (analytics must not break search)
+ */
+export async function recordSearch(entry: SearchLogEntry): Promise<void> {
+  try {
+    await sql.query(
+      `INSERT INTO search_log (search_id, query, normalized_query, filters, filter_source, similarity_threshold, result_count, keyword_fallback, relaxation, timings, corrected_query)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (search_id) DO NOTHING`,
+      [
+        entry.searchId,
+        entry.query,
+        normalizeQueryKey(entry.query),
+        JSON.stringify(entry.filters),
+        entry.filterSource,
+        entry.similarityThreshold,
+        entry.resultCount,
+        entry.keywordFallback,
+        entry.relaxation,
+        JSON.stringify(entry.timings),
+        entry.correctedQuery
+      ]
+    );
+  } catch (error: any) {
+    console.warn('[Analytics] Could not record search:', error.message);
+  }
+}
+
+/**
+ * Record a click or purchase for a search
+ * Returns false (nothing recorded) when search_id is not a logged search
+ * of the last INTERACTION_WINDOW_DAYS, so made-up ids cannot inflate CTR.
+ */
+export async function recordInteraction(event: InteractionEvent): Promise<boolean> {
+  const { rows } = await sql.query(
+    `INSERT INTO search_interactions (search_id, event_type, product_id, product_url, client_id)
+     SELECT search_id, $2, $3, $4, $5
+     FROM search_log
+     WHERE search_id = $1 AND created_at > NOW() - make_interval(days => $6)
+     RETURNING search_id`,
+    [event.search_id, event.event, event.product_id ?? null, event.product_url ?? null, event.client_id ?? null, INTERACTION_WINDOW_DAYS]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Most frequent queries with average result count and zero-result share
+ */
+export async function getTopQueries({ days, limit }: ReportOptions) {
+  const { rows } = await sql.query(
+    `SELECT
+       normalized_query AS query,
+       COUNT(*)::int AS searches,
+       ROUND(AVG(result_count), 1)::float AS avg_results,
+       COUNT(*) FILTER (WHERE result_count = 0)::int AS zero_results,
+       MAX(created_at) AS last_searched
+     FROM search_log
+     WHERE created_at > NOW() - make_interval(days => $1)
+     GROUP BY normalized_query
+     ORDER BY searches DESC, last_searched DESC
+     LIMIT $2`,
+    [days, limit]
+  );
+  return rows;
+}
+
+/**
+ * Queries that returned nothing (candidates for synonyms or catalog gaps)
+ */
+export async function getZeroResultQueries({ days, limit }: ReportOptions) {
+  const { rows } = await sql.query(
+    `SELECT
+       normalized_query AS query,
+       COUNT(*)::int AS searches,
+       (ARRAY_AGG(filters ORDER BY created_at DESC))[1] AS last_filters,
+       MAX(created_at) AS last_searched
+     FROM search_log
+     WHERE created_at > NOW() - make_interval(days => $1)
+       AND result_count = 0
+     GROUP BY normalized_query
+     ORDER BY searches DESC, last_searched DESC
+     LIMIT $2`,
+    [days, limit]
+  );
+  return rows;
+}
+
+/**
+ * Click-through rate per query: share of searches with at least one click
+ */
+export async function getClickThroughRates({ days, limit }: ReportOptions) {
+  const { rows } = await sql.query(
+    `WITH searches AS (
+       SELECT
+         l.normalized_query,
+         l.search_id,
+         COUNT(i.id) AS clicks
+       FROM search_log l
+       LEFT JOIN search_interactions i ON i.search_id = l.search_id AND i.event_type = 'click'
+       WHERE l.created_at > NOW() - make_interval(days => $1)
+         AND l.result_count > 0
+       GROUP BY l.normalized_query, l.search_id
+     )
+     SELECT
+       normalized_query AS query,
+       COUNT(*)::int AS searches,
+       COUNT(*) FILTER (WHERE clicks > 0)::int AS searches_with_click,
+       SUM(clicks)::int AS clicks,
+       ROUND(COUNT(*) FILTER (WHERE clicks > 0)::numeric / COUNT(*), 3)::float AS ctr
+     FROM searches
+     GROUP BY normalized_query
+     ORDER BY searches DESC, ctr DESC
+     LIMIT $2`,
+    [days, limit]
+  );
+  return rows;
+}
+
+/**
+ * Conversion per search id (clicks and purchases), most recent first
+ * With a searchId only that search is returned.
+ */
+export async function getConversions({ days, limit }: ReportOptions, searchId?: string) {
+  const params: any[] = [days, limit];
+  let searchCondition = '';
+  if (searchId) {
+    params.push(searchId);
+    searchCondition = `AND l.search_id = $${params.length}`;
+  }
+
+  const { rows } = await sql.query(
+    `SELECT
+       l.search_id,
+       l.query,
+       l.result_count,
+       l.created_at,
+       COUNT(i.id) FILTER (WHERE i.event_type = 'click')::int AS clicks,
+       COUNT(i.id) FILTER (WHERE i.event_type = 'purchase')::int AS purchases,
+       ARRAY_AGG(DISTINCT i.product_id) FILTER (WHERE i.event_type = 'click' AND i.product_id IS NOT NULL) AS clicked_products
+     FROM search_log l
+     LEFT JOIN search_interactions i ON i.search_id = l.search_id
+     WHERE l.created_at > NOW() - make_interval(days => $1)
+       ${searchCondition}
+     GROUP BY l.search_id
+     ORDER BY l.created_at DESC
+     LIMIT $2`,
+    params
+  );
+
+  const { rows: summaryRows } = await sql.query(
+    `SELECT
+       COUNT(*)::int AS searches,
+       COUNT(*) FILTER (WHERE EXISTS (
+         SELECT 1 FROM search_interactions i WHERE i.search_id = l.search_id AND i.event_type = 'purchase'
+       ))::int AS converted
+     FROM search_log l
+     WHERE l.created_at > NOW() - make_interval(days => $1)`,
+    [days]
+  );
+
+  const summary = summaryRows[0];
+  return {
+    summary: {
+      searches: summary.searches,
+      converted: summary.converted,
+      conversionRate: summary.searches > 0 ? Math.round((summary.converted / summary.searches) * 1000) / 1000 : 0
+    },
+    searches: rows
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * API Keys - Optional keys for partner integrations of /api/search
+ *
+ * A partner sends X-API-Key: kp_…; the request is then limited by the
+ * key's own bucket instead of the caller's IP and skips the origin
+ * allow-list (server-to-server calls have no Origin). Only a SHA-256 hash
+ * is stored; the plain key is shown once, when it is created.
+ *
+ * Stored in Postgres (schema/021_abuse_protection.sql), managed through
+ * /api/admin/api-keys and cached per instance for API_KEYS_TTL_MS.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { sql, type QueryClient } from './db';
+
+const API_KEYS_TTL_MS = 60_000;
+const KEY_PREFIX = 'kp_';
+const MAX_CACHED_LOOKUPS = 1_000;
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),                        // "Partner X widget"
+  requestsPerMinute: z.number().int().min(1).max(10_000).default(120),
+  enabled: z.boolean().default(true)
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
+
+export interface ApiKey extends ApiKeyInput {
+  id: number;
+  keyPrefix: string;           // First characters, to recognize a key in lists and logs
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+const API_KEY_COLUMNS = 'id, name, key_prefix, requests_per_minute, enabled, created_at, last_used_at';
+
+// Lookups by hash, including misses (null) so unknown keys don't hit the database each time
+const cachedKeys = new Map<string, { key: ApiKey | null; loadedAt: number }>();
+
+function rowToApiKey(row: any): ApiKey {
+  return {
+    id: Number(row.id),
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    requestsPerMinute: row.requests_per_minute,
+    enabled: row.enabled,
+    createdAt: new Date(row.created_at).toISOString(),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null
+  };
+}
+
+export function hashApiKey(plain: string): string {
+  return crypto.createHash('sha256').update(plain).digest('hex');
+}
+
+/**
+ * The enabled key matching a plain key, or null (cached per instance)
+ * Records last_used_at once per cache period.
+ */
+export async function resolveApiKey(plain: string, db: QueryClient = sql): Promise<ApiKey | null> {
+  if (!plain.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const hash = hashApiKey(plain);
+  const hit = cachedKeys.get(hash);
+  if (hit && Date.now() - hit.loadedAt < API_KEYS_TTL_MS) {
+    return hit.key;
+  }
+
+  const { rows } = await db.query(`
+    UPDATE api_keys SET last_used_at = NOW()
+    WHERE key_hash = $1 AND enabled
+    RETURNING ${API_KEY_COLUMNS}
+  `, [hash]);
+  const key = rows[0] ? rowToApiKey(rows[0]) : null;
+  if (cachedKeys.size >= MAX_CACHED_LOOKUPS) {
+    cachedKeys.clear();
+  }
+  cachedKeys.set(hash, { key, loadedAt: Date.now() });
+  return key;
+}
+
+/**
+ * Drop the cached lookups (after an admin change on this instance)
+ */
+export function invalidateApiKeys(): void {
+  cachedKeys.clear();
+}
+
+export async function listApiKeys(db: QueryClient = sql): Promise<ApiKey[]> {
+  const { rows } = await db.query(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY id`);
+  return rows.map(rowToApiKey);
+}
+
+/**
+ * Create a key; the plain key is returned here and never again
+ */
+export async function createApiKey(input: ApiKeyInput, db: QueryClient = sql): Promise<{ apiKey: ApiKey; plainKey: string }> {
+  const plainKey = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+  const { rows } = await db.query(`
+    INSERT INTO api_keys (name, key_prefix, key_hash, requests_per_minute, enabled)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING ${API_KEY_COLUMNS}
+  `, [input.name, plainKey.slice(0, KEY_PREFIX.length + 6), hashApiKey(plainKey), input.requestsPerMinute, input.enabled]);
+  invalidateApiKeys();
+  return { apiKey: rowToApiKey(rows[0]), plainKey };
+}
+
+/**
+ * Rename, re-limit or disable a key; null when it does not exist
+ */
+export async function updateApiKey(id: number, input: ApiKeyInput, db: QueryClient = sql): Promise<ApiKey | null> {
+  const { rows } = await db.query(`
+    UPDATE api_keys SET name = $2, requests_per_minute = $3, enabled = $4
+    WHERE id = $1
+    RETURNING ${API_KEY_COLUMNS}
+  `, [id, input.name, input.requestsPerMinute, input.enabled]);
+  invalidateApiKeys();
+  return rows[0] ? rowToApiKey(rows[0]) : null;
+}
+
+export async function deleteApiKey(id: number, db: QueryClient = sql): Promise<boolean> {
+  const { rows } = await db.query('DELETE FROM api_keys WHERE id = $1 RETURNING id', [id]);
+  invalidateApiKeys();
+  return rows.length > 0;
+}
@@ -1,11 +1,24 @@
 /**
  * Catalog Metadata - Central source of truth for AI prompts
- * This file loads real catalog data (brands, types, categories, themes)
- * and provides it to the AI for accurate parsing.
+ *
+ * Brands, product types, categories and themes come from Postgres
+ * (schema/017_catalog_metadata.sql) together with the number of visible,
+ * in-stock products per brand, type and theme, so prompts only offer what
+ * can actually be found. The JSON files in data/ are the seed and the
+ * fallback when the database is unavailable.
+ *
+ * getCatalogMetadata() is synchronous and returns the current snapshot.
+ * refreshCatalogMetadata() (awaited at the start of every search) reloads
+ * it after METADATA_TTL_MS, or earlier when the version stamp was bumped
+ * (catalog import, category webhook, POST /api/admin/catalog-metadata).
+ * The search dictionaries (lib/search-dictionaries.ts) are part of the
+ * snapshot and reload with it.
  */
 
 import fs from 'fs';
 import path from 'path';
+import { sql, type QueryClient } from './db';
+import { buildDictionaries, entriesFromFile, insertDictionaryEntries, normalizeTerm, type DictionaryFile, type SearchDictionaries } from './search-dictionaries';
 
 interface Brand {
   id: number;
@@ -17,67 +30,236 @@ interface Category {
   title: string;
 }
 
-interface CatalogMetadata {
+export interface CatalogCounts {
+  brands: Map<string, number>;         // Visible, in-stock products per brand
+  productTypes: Map<string, number>;
+  themes: Map<string, number>;
+}
+
+export interface CatalogMetadata {
   brands: string[];
   productTypes: string[];
   categories: string[];
   popularThemes: string[];
   categoryMap: Map<number, string>;
+  brandMap: Map<number, string>;
+  counts: CatalogCounts | null;        // null when loaded from the JSON files
+  dictionaries: SearchDictionaries;
+  source: 'database' | 'files';
+  version: number | null;              // catalog_metadata_version.version
+  loadedAt: number;
 }
 
+const METADATA_TTL_MS = 10 * 60_000;   // Full reload (counts drift with stock)
+const VERSION_CHECK_MS = 60_000;       // Version stamp check between reloads
+
+// A product is in stock when its default variant or any other variant is
+export const IN_STOCK = '(p.stock > 0 OR EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id AND v.stock > 0))';
+
 let cachedMetadata: CatalogMetadata | null = null;
+let versionCheckedAt = 0;
+let refreshing: Promise<CatalogMetadata> | null = null;
+
+function readDataFile<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(path.join(process.cwd(), 'data', file), 'utf-8'));
+}
 
 /**
- * Load and cache catalog metadata
+ * Load metadata from data/*.json (seed and fallback)
  */
-export function getCatalogMetadata(): CatalogMetadata {
-  if (cachedMetadata) {
-    return cachedMetadata;
-  }
-
+function loadMetadataFromFiles(): CatalogMetadata {
   try {
-    // Load brands from data/brands.json
-    const brandsPath = path.join(process.cwd(), 'data', 'brands.json');
-    console.log(`[Catalog] Loading brands from: ${brandsPath}`);
-    const brands: Brand[] = JSON.parse(fs.readFileSync(brandsPath, 'utf-8'));
-    const brandNames = brands.map(b => b.title).sort();
-    console.log(`[Catalog] Loaded ${brandNames.length} brands`);
-
-    // Load categories from data/categories.json
-    const categoriesPath = path.join(process.cwd(), 'data', 'categories.json');
-    const categoriesData: Category[] = JSON.parse(fs.readFileSync(categoriesPath, 'utf-8'));
-    const categoryNames = categoriesData.map(c => c.title).sort();
-    const categoryMap = new Map(categoriesData.map(c => [c.id, c.title]));
-    console.log(`[Catalog] Loaded ${categoryNames.length} categories`);
-
-    // Load product types from data/product-types.json (generated from database)
-    const typesPath = path.join(process.cwd(), 'data', 'product-types.json');
-    const productTypes: string[] = JSON.parse(fs.readFileSync(typesPath, 'utf-8'));
-    console.log(`[Catalog] Loaded ${productTypes.length} product types`);
-
-    // Load popular themes from data/themes.json (curated list for search)
-    const themesPath = path.join(process.cwd(), 'data', 'themes.json');
-    const popularThemes: string[] = JSON.parse(fs.readFileSync(themesPath, 'utf-8'));
-    console.log(`[Catalog] Loaded ${popularThemes.length} themes`);
-
-    cachedMetadata = {
-      brands: brandNames,
+    const brands: Brand[] = readDataFile('brands.json');
+    const categoriesData: Category[] = readDataFile('categories.json');
+    // product-types.json is generated from the database (scripts/fetch-product-types.mjs)
+    const productTypes: string[] = readDataFile('product-types.json');
+    // themes.json is a curated list of search themes
+    const popularThemes: string[] = readDataFile('themes.json');
+    // Brand aliases, synonyms, theme expansions and ignored words
+    const dictionaries = buildDictionaries(entriesFromFile(readDataFile<DictionaryFile>('search-dictionaries.json')));
+
+    console.log(`[Catalog] Loaded from files: ${brands.length} brands, ${categoriesData.length} categories, ${productTypes.length} types, ${popularThemes.length} themes`);
+
+    return {
+      brands: brands.map(b => b.title).sort(),
       productTypes,
-      categories: categoryNames,
+      categories: categoriesData.map(c => c.title).sort(),
       popularThemes,
-      categoryMap
+      categoryMap: new Map(categoriesData.map(c => [c.id, c.title])),
+      brandMap: new Map(brands.map(b => [b.id, b.title])),
+      counts: null,
+      dictionaries,
+      source: 'files',
+      version: null,
+      loadedAt: Date.now()
     };
-
-    console.log(`[Catalog] ✅ All catalog data loaded successfully`);
-    return cachedMetadata;
-    
   } catch (error: any) {
     console.error('[Catalog] ❌ Failed to load catalog data:', error.message);
-    console.error('[Catalog] Stack:', error.stack);
     throw new Error(`Failed to load catalog metadata: ${error.message}`);
   }
 }
 
+/**
+ * Load metadata and counts from Postgres
+ * Lists whose table is still empty (never seeded) fall back to the files.
+ */
+async function loadMetadataFromDatabase(db: QueryClient): Promise<CatalogMetadata> {
+  const [version, brands, categories, themes, brandCounts, typeCounts, dictionaryEntries] = await Promise.all([
+    db.query('SELECT version FROM catalog_metadata_version LIMIT 1'),
+    db.query('SELECT id, title FROM catalog_brands WHERE deleted_at IS NULL'),
+    db.query('SELECT id, title FROM catalog_categories WHERE deleted_at IS NULL'),
+    db.query(`
+      SELECT t.theme, COUNT(p.id) AS available
+      FROM catalog_themes t
+      LEFT JOIN products p ON p.is_visible AND ${IN_STOCK} AND p.search_vector @@ plainto_tsquery('dutch_unaccent', t.theme)
+      GROUP BY t.theme, t.sort_order
+      ORDER BY t.sort_order, t.theme
+    `),
+    db.query(`SELECT p.artist AS name, COUNT(*) FILTER (WHERE ${IN_STOCK}) AS available FROM products p WHERE p.is_visible AND p.artist IS NOT NULL GROUP BY p.artist`),
+    db.query(`SELECT p.type AS name, COUNT(*) AS total, COUNT(*) FILTER (WHERE ${IN_STOCK}) AS available FROM products p WHERE p.is_visible AND p.type IS NOT NULL GROUP BY p.type ORDER BY total DESC, p.type`),
+    db.query('SELECT kind, term, targets FROM search_dictionary_entries')
+  ]);
+
+  const files = brands.rows.length && categories.rows.length && themes.rows.length && typeCounts.rows.length && dictionaryEntries.rows.length
+    ? null
+    : loadMetadataFromFiles();
+  const brandList: Brand[] = brands.rows.length ? brands.rows.map(r => ({ id: Number(r.id), title: r.title })) : [...files!.brandMap].map(([id, title]) => ({ id, title }));
+  const categoryList: Category[] = categories.rows.length ? categories.rows.map(r => ({ id: Number(r.id), title: r.title })) : [...files!.categoryMap].map(([id, title]) => ({ id, title }));
+  const counts = (rows: any[], key: string) => new Map<string, number>(rows.map(r => [r[key], parseInt(r.available)]));
+
+  return {
+    brands: brandList.map(b => b.title).sort(),
+    productTypes: typeCounts.rows.length ? typeCounts.rows.map(r => r.name) : files!.productTypes,
+    categories: categoryList.map(c => c.title).sort(),
+    popularThemes: themes.rows.length ? themes.rows.map(r => r.theme) : files!.popularThemes,
+    categoryMap: new Map(categoryList.map(c => [c.id, c.title])),
+    brandMap: new Map(brandList.map(b => [b.id, b.title])),
+    counts: {
+      brands: counts(brandCounts.rows, 'name'),
+      productTypes: counts(typeCounts.rows, 'name'),
+      themes: themes.rows.length ? counts(themes.rows, 'theme') : new Map()
+    },
+    dictionaries: dictionaryEntries.rows.length ? buildDictionaries(dictionaryEntries.rows) : files!.dictionaries,
+    source: 'database',
+    version: version.rows[0]?.version ?? null,
+    loadedAt: Date.now()
+  };
+}
+
+/**
+ * Current catalog metadata (the files until the first database load)
+ */
+export function getCatalogMetadata(): CatalogMetadata {
+  if (!cachedMetadata) {
+    cachedMetadata = loadMetadataFromFiles();
+  }
+  return cachedMetadata;
+}
+
+/**
+ * Reload from Postgres when stale or when the version stamp changed
+ * Never throws: on database errors the current metadata stays in use.
+ */
+export async function refreshCatalogMetadata(options: { force?: boolean; db?: QueryClient } = {}): Promise<CatalogMetadata> {
+  const db = options.db || sql;
+  const current = getCatalogMetadata();
+  const now = Date.now();
+
+  // At most one database round trip per VERSION_CHECK_MS (also after failures)
+  if (!options.force && now - versionCheckedAt < VERSION_CHECK_MS) {
+    return current;
+  }
+
+  const fullReload = options.force || current.source === 'files' || now - current.loadedAt >= METADATA_TTL_MS;
+  if (!refreshing) {
+    refreshing = (async () => {
+      versionCheckedAt = Date.now();
+      try {
+        if (!fullReload) {
+          const { rows } = await db.query('SELECT version FROM catalog_metadata_version LIMIT 1');
+          if (rows[0]?.version === current.version) return current;
+        }
+        cachedMetadata = await loadMetadataFromDatabase(db);
+        console.log(`[Catalog] Loaded from database: version=${cachedMetadata.version}, ${cachedMetadata.brands.length} brands, ${cachedMetadata.productTypes.length} types`);
+      } catch (error: any) {
+        console.warn('[Catalog] Database load failed, keeping', current.source, 'metadata:', error.message);
+      }
+      return getCatalogMetadata();
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+/**
+ * Tell every instance to reload (picked up within VERSION_CHECK_MS)
+ */
+export async function bumpCatalogMetadataVersion(db: QueryClient = sql): Promise<number> {
+  const { rows } = await db.query('UPDATE catalog_metadata_version SET version = version + 1, updated_at = NOW() RETURNING version');
+  return rows[0]?.version;
+}
+
+/**
+ * Replace the stored brand, category and/or theme lists and bump the version
+ * Brands and categories missing from a list are marked deleted (not removed).
+ */
+export async function writeCatalogMetadata(
+  lists: { brands?: Brand[]; categories?: Category[]; themes?: string[] },
+  db: QueryClient = sql
+): Promise<number> {
+  for (const [table, items] of [['catalog_brands', lists.brands], ['catalog_categories', lists.categories]] as const) {
+    if (!items) continue;
+    await db.query(`
+      INSERT INTO ${table} (id, title, deleted_at, updated_at)
+      SELECT id, title, NULL, NOW() FROM jsonb_to_recordset($1::jsonb) AS i(id BIGINT, title TEXT)
+      ON CONFLICT (id) DO UPDATE SET title = EXCLUDED.title, deleted_at = NULL, updated_at = NOW()
+    `, [JSON.stringify(items.map(i => ({ id: i.id, title: i.title })))]);
+    await db.query(
+      `UPDATE ${table} SET deleted_at = NOW(), updated_at = NOW() WHERE deleted_at IS NULL AND NOT (id = ANY($1::bigint[]))`,
+      [items.map(i => i.id)]
+    );
+  }
+
+  if (lists.themes) {
+    await db.query('DELETE FROM catalog_themes WHERE NOT (theme = ANY($1::text[]))', [lists.themes]);
+    await db.query(`
+      INSERT INTO catalog_themes (theme, sort_order, updated_at)
+      SELECT theme, ordinality, NOW() FROM unnest($1::text[]) WITH ORDINALITY AS t(theme, ordinality)
+      ON CONFLICT (theme) DO UPDATE SET sort_order = EXCLUDED.sort_order, updated_at = NOW()
+    `, [lists.themes]);
+  }
+
+  return bumpCatalogMetadataVersion(db);
+}
+
+/**
+ * Seed the tables from data/*.json (first deploy, or to restore the curated themes)
+ * Dictionary entries are only added; edited entries are kept.
+ */
+export async function seedCatalogMetadataFromFiles(db: QueryClient = sql): Promise<number> {
+  await insertDictionaryEntries(entriesFromFile(readDataFile<DictionaryFile>('search-dictionaries.json')), db);
+  return writeCatalogMetadata({
+    brands: readDataFile<Brand[]>('brands.json'),
+    categories: readDataFile<Category[]>('categories.json'),
+    themes: readDataFile<string[]>('themes.json')
+  }, db);
+}
+
+/**
+ * Brands and types with at least one visible, in-stock product
+ * (everything when the counts are unknown, i.e. loaded from the files)
+ */
+export function getAvailableBrands(metadata: CatalogMetadata = getCatalogMetadata()): string[] {
+  const counts = metadata.counts;
+  return counts ? metadata.brands.filter(b => (counts.brands.get(b) ?? 0) > 0) : metadata.brands;
+}
+
+export function getAvailableProductTypes(metadata: CatalogMetadata = getCatalogMetadata()): string[] {
+  const counts = metadata.counts;
+  return counts ? metadata.productTypes.filter(t => (counts.productTypes.get(t) ?? 0) > 0) : metadata.productTypes;
+}
+
 /**
  * Get category name by ID
  * Returns the category title or "Unknown (ID)" if not found
@@ -87,98 +269,27 @@ export function getCategoryName(id: number): string {
   return metadata.categoryMap.get(id) || `Unknown (${id})`;
 }
 
-/**
- * Brand normalization map for common search variations
- * Maps lowercase search terms to exact brand names
- */
-const BRAND_NORMALIZATIONS: Record<string, string> = {
-  // Artists with multiple name variations
-  'klimt': 'Gustav Klimt',
-  'van gogh': 'Vincent van Gogh',
-  'gogh': 'Vincent van Gogh',
-  'monet': 'Claude Monet',
-  'rodin': 'Auguste Rodin',
-  'modigliani': 'Amedeo Clemente Modigliani',
-  'escher': 'Escher',
-  'dali': 'Salvador Dali',
-  'vermeer': 'Johannes Vermeer',
-  'mondriaan': 'Piet Mondriaan',
-  'bosch': 'Jheronimus Bosch',
-  'jeroen bosch': 'Jheronimus Bosch',
-  'degas': 'Edgar Degas',
-  'renoir': 'Pierre-Auguste Renoir',
-  'hokusai': 'Katsushika Hokusai',
-  'corneille': 'Corneille',
-  'claudel': 'Camille Claudel',
-  'pompon': 'François Pompon',
-  
-  // Contemporary artists/designers
-  'jeff koons': 'Jeff Koons',
-  'koons': 'Jeff Koons',
-  'herman brood': 'Herman Brood',
-  'brood': 'Herman Brood',
-  'orlinski': 'Richard Orlinski',
-  'forchino': 'Guillermo Forchino beelden',
-  'kokeshi': 'Kokeshi dolls',
-  'senatori': 'Selwyn Senatori',
-  
-  // Dutch artists
-  'ammerlaan': 'Corry Ammerlaan',
-  'corry ammerlaan': 'Corry Ammerlaan',
-  'tankeren': 'Ger van Tankeren',
-  'van tankeren': 'Ger van Tankeren',
-  'donkersloot': 'Peter Donkersloot',
-  'gubbels': 'Klaas Gubbels',
-  'klaas gubbels': 'Klaas Gubbels',
-  'zegers': 'Jacky Zegers',
-  'liemburg': 'Jack Liemburg',
-  'gerritz': 'Harrie Gerritz',
-  'kostermans': 'Tos Kostermans',
-  'krabbé': 'Jeroen Krabbé',
-  'krabbe': 'Jeroen Krabbé',
-  
-  // Brands
-  'bosa': 'Bosa keramiek',
-  'elephant parade': 'Elephant Parade'
-};
-
 /**
  * Generate brand normalization rules for AI prompt
- * Dynamically creates rules from the normalization map
+ * Built from the brand_alias dictionary entries
  */
 export function getBrandNormalizationRules(): string {
-  const rules: string[] = [];
-  const processed = new Set<string>();
-  
-  // Group variations by target brand
+  // Group aliases by target brand
   const brandGroups = new Map<string, string[]>();
-  
-  for (const [key, value] of Object.entries(BRAND_NORMALIZATIONS)) {
-    if (!brandGroups.has(value)) {
-      brandGroups.set(value, []);
-    }
-    brandGroups.get(value)!.push(`"${key}"`);
-  }
-  
-  // Format as AI prompt rules
-  for (const [brand, variations] of brandGroups) {
-    if (variations.length === 1) {
-      rules.push(`${variations[0]} → "${brand}"`);
-    } else {
-      rules.push(`${variations.join(' / ')} → "${brand}"`);
-    }
+
+  for (const [alias, brand] of getCatalogMetadata().dictionaries.brandAliases) {
+    brandGroups.set(brand, [...(brandGroups.get(brand) ?? []), `"${alias}"`]);
   }
-  
-  return rules.join('\n  ');
+
+  return Array.from(brandGroups, ([brand, aliases]) => `${aliases.join(' / ')} → "${brand}"`).join('\n  ');
 }
 
 /**
  * Normalize a brand name for search
- * Returns the exact brand name if a normalization exists, otherwise returns the input
+ * Returns the exact brand name if an alias exists, otherwise returns the input
  */
 export function normalizeBrand(input: string): string {
-  const normalized = BRAND_NORMALIZATIONS[input.toLowerCase().trim()];
-  return normalized || input;
+  return getCatalogMetadata().dictionaries.brandAliases.get(normalizeTerm(input)) || input;
 }
 
 /**
@@ -186,10 +297,10 @@ export function normalizeBrand(input: string): string {
  */
 export function buildPromptInstructions(): string {
   const metadata = getCatalogMetadata();
-  
+
   return `
 CRITICAL RULES FOR KEYWORD EXTRACTION:
-- IGNORE generic words: "cadeau", "geschenk", "iets", "mooi", "leuk", "voor", "mijn", "zus", "broer", "vader", "moeder", "oma", "opa", "vriend", "vriendin"
+- IGNORE generic words: "iets", "voor", "mijn", ${Array.from(metadata.dictionaries.ignored, w => `"${w}"`).join(', ')}
 - ONLY extract specific, searchable terms (themes, materials, colors, styles, occasions)
 - IMPORTANT: "keramiek", "keramieken beeld", "ballonhond" → productType: "Beeld" (ceramics are sculptures)
 - DO NOT add product types as keywords
@@ -198,13 +309,13 @@ CRITICAL RULES FOR KEYWORD EXTRACTION:
 - For occasions: use broader terms (e.g. "huwelijkscadeau" → ["huwelijk", "trouwen"], "bedankje" → ["bedanken", "dank"])
 
 EXACT BRANDS IN CATALOG (these are the ONLY valid artist values - extract exact match to 'artist' field):
-${metadata.brands.map(b => `  * ${b}`).join('\n')}
+${getAvailableBrands(metadata).map(b => `  * ${b}`).join('\n')}
 
 BRAND NORMALIZATION RULES (map user input to exact brand name):
   ${getBrandNormalizationRules()}
 
 VALID PRODUCT TYPES (only use these exact values):
-${metadata.productTypes.map(t => `  * ${t}`).join('\n')}
+${getAvailableProductTypes(metadata).map(t => `  * ${t}`).join('\n')}
 
 IMPORTANT CATEGORIES:
 ${metadata.categories.map(c => `  * ${c}`).join('\n')}
@@ -0,0 +1,704 @@
+/**
+ * Catalog Sync - Incremental Lightspeed snapshot → products table
+ *
+ * Every product gets two hashes (schema/014_catalog_sync.sql):
+ * - embedding_hash → embedding text + embedder; only a change re-embeds
+ * - data_hash      → all other synced fields (price, stock, categories, ...)
+ * Rows where both match are skipped, rows where only data_hash changed are
+ * updated without a new embedding. Changed rows are bulk-upserted per batch
+ * and their product_categories links and product_variants rows are rebuilt
+ * (stale ones deleted).
+ *
+ * Products that disappeared from the snapshot or became hidden are
+ * tombstoned (is_visible = false, deleted_at = NOW()) once a run completes.
+ * Batches run in product id order and each batch moves the run's checkpoint,
+ * so a failed run can be resumed without re-embedding what was written.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { sql, type QueryClient } from './db';
+import { getSearchProviders, type Embedder } from './ai-providers';
+import { invalidateQueryCache } from './query-cache';
+import { writeCatalogMetadata } from './catalog-metadata';
+import { detectType } from './type-detector.js';
+import { parseDimensions } from './dimension-parser.js';
+import { parseVariantOptions, type VariantOption } from './variants';
+
+// Lightspeed export (data/*.json from scripts/sync-lightspeed.js), only the fields used here
+interface ResourceRef {
+  resource?: { id?: number };
+}
+
+export interface LightspeedProduct {
+  id: number;
+  title: string;
+  fulltitle?: string;
+  description?: string;
+  content?: string;
+  url: string;
+  isVisible: boolean;
+  image?: { src?: string } | false;
+  brand?: ResourceRef | false;
+}
+
+export interface LightspeedVariant {
+  id?: number;
+  title?: string | null;
+  sku?: string | null;
+  sortOrder?: number;
+  isDefault: boolean;
+  priceIncl: number | string;
+  oldPriceIncl?: number | string | null;
+  stockLevel?: number;
+  stockSold?: number;
+  product?: ResourceRef;
+}
+
+export interface CatalogSnapshot {
+  products: LightspeedProduct[];
+  variants: LightspeedVariant[];
+  categories: { id: number; title: string }[];
+  categoriesProducts: { category: ResourceRef; product: ResourceRef }[];
+  brands: { id: number; title: string }[];
+}
+
+export interface CatalogVariant {
+  id: number;
+  title: string | null;
+  options: VariantOption[];
+  sku: string | null;
+  price: number;
+  oldPrice: number | null;
+  stock: number;
+  stockSold: number;
+  isDefault: boolean;
+  sortOrder: number | null;
+}
+
+/**
+ * One products row (and its product_variants rows) as the sync writes it
+ */
+export interface CatalogRow {
+  id: number;
+  title: string;
+  fullTitle: string;
+  description: string;
+  content: string;
+  url: string;
+  artist: string | null;
+  dimensions: string | null;
+  heightCm: number | null;
+  widthCm: number | null;
+  depthCm: number | null;
+  diameterCm: number | null;
+  categoryIds: number[];
+  categoryNames: string;
+  price: number;                  // Default variant
+  oldPrice: number | null;
+  stock: number;
+  stockSold: number;
+  minPrice: number | null;        // Over all variants; null without variant rows
+  maxPrice: number | null;
+  variantTitles: string;
+  variants: CatalogVariant[];
+  isVisible: boolean;
+  image: string | null;
+  type: string | null;
+  embeddingText: string;
+}
+
+export interface ExistingProduct {
+  id: number;
+  embeddingHash: string | null;
+  dataHash: string | null;
+  isVisible: boolean;
+}
+
+export type SyncAction = 'insert' | 'reembed' | 'update' | 'unchanged';
+
+export interface SyncChange {
+  row: CatalogRow;
+  action: Exclude<SyncAction, 'unchanged'>;
+  embeddingHash: string;
+  dataHash: string;
+}
+
+export interface SyncPlan {
+  changes: SyncChange[];          // Sorted by product id (checkpoint order)
+  tombstones: number[];           // Visible in the database, gone or hidden in the snapshot
+  counts: Record<SyncAction | 'tombstone' | 'hidden', number>;
+}
+
+export interface SyncOptions {
+  dryRun?: boolean;               // Report only: no writes, no embeddings
+  resume?: boolean;               // Continue the latest unfinished run after its checkpoint
+  force?: boolean;                // Allow tombstoning more than MAX_TOMBSTONE_SHARE
+  batchSize?: number;
+  db?: QueryClient;
+  embedder?: Embedder;
+}
+
+export interface SyncReport {
+  runId: string | null;           // null for dry runs
+  dryRun: boolean;
+  resumedFrom: number | null;     // Checkpoint of the resumed run
+  counts: SyncPlan['counts'];
+  embedded: number;
+  written: number;
+  tombstoned: number;
+  samples: Partial<Record<SyncAction | 'tombstone', number[]>>;
+  durationMs: number;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+const SAMPLE_SIZE = 10;
+const MAX_TOMBSTONE_SHARE = 0.2;   // Guard against a truncated snapshot hiding the catalog
+
+const DIMENSION_PATTERNS = [
+  // "160 x 120 cm", "100 x 100 x 50 cm"
+  /\b(\d+\s*x\s*\d+(?:\s*x\s*\d+)?)\s*cm\b/i,
+  // "Hoogte 24 cm", "Diameter 30 cm", "Breedte 50 cm"
+  /(?:hoogte|diameter|breedte|lengte|afmeting)[:\s]*(\d+(?:,\d+)?)\s*cm/i,
+  // "Afmetingen: 100 x 100 cm"
+  /afmetingen?[:\s]*(\d+\s*x\s*\d+(?:\s*x\s*\d+)?)\s*cm/i,
+  // Just "24 cm" or "24,5 cm" (with some context)
+  /(?:circa|ca\.?|ongeveer)?\s*(\d+(?:,\d+)?)\s*cm(?:\s+hoog)?/i
+];
+
+function readJson<T>(dir: string, file: string): T {
+  return JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+}
+
+/**
+ * Read the snapshot written by `npm run sync`
+ */
+export function loadSnapshot(dir = 'data'): CatalogSnapshot {
+  return {
+    products: readJson(dir, 'products.json'),
+    variants: readJson(dir, 'variants.json'),
+    categories: readJson(dir, 'categories.json'),
+    categoriesProducts: readJson(dir, 'categories-products.json'),
+    brands: readJson(dir, 'brands.json')
+  };
+}
+
+function stripHtml(html?: string): string {
+  return html ? html.replace(/<[^>]*>/g, '') : '';
+}
+
+/**
+ * Display label for the first dimension mentioned ("160 x 120", "24 cm")
+ */
+function extractDimensionLabel(product: LightspeedProduct): string | null {
+  const text = [stripHtml(product.description), stripHtml(product.content)].filter(Boolean).join(' ');
+
+  for (const pattern of DIMENSION_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const dimension = match[1].trim().replace(',', '.');
+      return /\d\s*x\s*\d/.test(dimension) || dimension.endsWith('cm') ? dimension : `${dimension} cm`;
+    }
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Everything one products row is built from
+ */
+export interface ProductSource {
+  product: LightspeedProduct;
+  variants: LightspeedVariant[];    // All variants; price and stock come from the default one
+  categoryIds: number[];
+  artist: string | null;            // Brand name
+}
+
+function toCatalogVariant(variant: LightspeedVariant): CatalogVariant {
+  return {
+    id: variant.id!,
+    title: variant.title || null,
+    options: parseVariantOptions(variant.title),
+    sku: variant.sku || null,
+    price: toNumber(variant.priceIncl) ?? 0,
+    oldPrice: toNumber(variant.oldPriceIncl),
+    stock: variant.stockLevel || 0,
+    stockSold: variant.stockSold || 0,
+    isDefault: variant.isDefault,
+    sortOrder: variant.sortOrder ?? null
+  };
+}
+
+/**
+ * Map one product to its products row
+ */
+export function buildCatalogRow(source: ProductSource, categoryName: (id: number) => string | undefined): CatalogRow {
+  const { product, artist } = source;
+  const variant = source.variants.find(v => v.isDefault) || source.variants[0];
+  const variants = source.variants.filter(v => v.id).map(toCatalogVariant);
+  const prices = variants.map(v => v.price);
+  const optionValues = [...new Set(variants.flatMap(v => v.options.map(o => o.value)))];
+  const categoryIds = [...new Set(source.categoryIds)].sort((a, b) => a - b);
+  const names = categoryIds.map(categoryName).filter((name): name is string => Boolean(name));
+  const dims = parseDimensions(product.description, product.content);
+
+  return {
+    id: product.id,
+    title: product.title,
+    fullTitle: product.fulltitle || product.title,
+    description: product.description || '',
+    content: product.content || '',
+    url: product.url,
+    artist,
+    dimensions: extractDimensionLabel(product),
+    heightCm: dims.heightCm,
+    widthCm: dims.widthCm,
+    depthCm: dims.depthCm,
+    diameterCm: dims.diameterCm,
+    categoryIds,
+    categoryNames: names.join(' '),
+    price: toNumber(variant?.priceIncl) ?? 0,
+    oldPrice: toNumber(variant?.oldPriceIncl),
+    stock: variant?.stockLevel || 0,
+    stockSold: variant?.stockSold || 0,
+    minPrice: prices.length > 0 ? Math.min(...prices) : null,
+    maxPrice: prices.length > 0 ? Math.max(...prices) : null,
+    variantTitles: optionValues.join(' '),
+    variants,
+    isVisible: product.isVisible,
+    image: (product.image && product.image.src) || null,
+    type: detectType(product),
+    // Title, descriptions (content has the artist info), brand, category names and variant options
+    embeddingText: [
+      product.title,
+      product.fulltitle,
+      stripHtml(product.description),
+      stripHtml(product.content),
+      artist,
+      ...names,
+      ...optionValues
+    ].filter(Boolean).join(' ').trim()
+  };
+}
+
+/**
+ * Map the snapshot to products rows (hidden products included)
+ */
+export function buildCatalogRows(snapshot: CatalogSnapshot): CatalogRow[] {
+  const variants = new Map<number, LightspeedVariant[]>();
+  for (const variant of snapshot.variants) {
+    const productId = variant.product?.resource?.id;
+    if (productId) variants.set(productId, [...(variants.get(productId) || []), variant]);
+  }
+
+  const categoryNames = new Map(snapshot.categories.map(c => [c.id, c.title]));
+  const brandNames = new Map(snapshot.brands.map(b => [b.id, b.title]));
+
+  const productCategories = new Map<number, number[]>();
+  for (const link of snapshot.categoriesProducts) {
+    const productId = link.product?.resource?.id;
+    const categoryId = link.category?.resource?.id;
+    if (!productId || !categoryId) continue;
+    productCategories.set(productId, [...(productCategories.get(productId) || []), categoryId]);
+  }
+
+  return snapshot.products.map(product => {
+    const brandId = product.brand ? product.brand.resource?.id : undefined;
+    return buildCatalogRow({
+      product,
+      variants: variants.get(product.id) || [],
+      categoryIds: productCategories.get(product.id) || [],
+      artist: (brandId && brandNames.get(brandId)) || null
+    }, id => categoryNames.get(id));
+  });
+}
+
+function sha1(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex');
+}
+
+/**
+ * Vectors from another embedder are not comparable, so it is part of the hash
+ */
+export function embeddingHash(row: CatalogRow, embedder: Pick<Embedder, 'name' | 'model'>): string {
+  return sha1(`${embedder.name}:${embedder.model}\n${row.embeddingText}`);
+}
+
+export function dataHash(row: CatalogRow): string {
+  const { embeddingText, ...data } = row;
+  return sha1(JSON.stringify(data));
+}
+
+/**
+ * Compare the snapshot with the database
+ * Only visible products are written; hidden ones can only be tombstoned.
+ */
+export function planSync(rows: CatalogRow[], existing: ExistingProduct[], embedder: Pick<Embedder, 'name' | 'model'>): SyncPlan {
+  const current = new Map(existing.map(p => [p.id, p]));
+  const visible = rows.filter(row => row.isVisible);
+  const visibleIds = new Set(visible.map(row => row.id));
+  const changes: SyncChange[] = [];
+  let unchanged = 0;
+
+  for (const row of visible) {
+    const hashes = { embeddingHash: embeddingHash(row, embedder), dataHash: dataHash(row) };
+    const stored = current.get(row.id);
+
+    if (!stored) {
+      changes.push({ row, action: 'insert', ...hashes });
+    } else if (stored.embeddingHash !== hashes.embeddingHash) {
+      changes.push({ row, action: 'reembed', ...hashes });
+    } else if (stored.dataHash !== hashes.dataHash || !stored.isVisible) {
+      changes.push({ row, action: 'update', ...hashes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  changes.sort((a, b) => a.row.id - b.row.id);
+  const tombstones = existing
+    .filter(p => p.isVisible && !visibleIds.has(p.id))
+    .map(p => p.id)
+    .sort((a, b) => a - b);
+
+  const count = (action: SyncAction) => changes.filter(c => c.action === action).length;
+  return {
+    changes,
+    tombstones,
+    counts: {
+      insert: count('insert'),
+      reembed: count('reembed'),
+      update: count('update'),
+      unchanged,
+      tombstone: tombstones.length,
+      hidden: rows.length - visible.length
+    }
+  };
+}
+
+/**
+ * Stored hashes (ids: only these products, default: all)
+ */
+async function loadExistingProducts(db: QueryClient, ids?: number[]): Promise<ExistingProduct[]> {
+  const { rows } = ids
+    ? await db.query('SELECT id, embedding_hash, data_hash, is_visible FROM products WHERE id = ANY($1::bigint[])', [ids])
+    : await db.query('SELECT id, embedding_hash, data_hash, is_visible FROM products');
+  return rows.map(row => ({
+    id: Number(row.id),
+    embeddingHash: row.embedding_hash,
+    dataHash: row.data_hash,
+    isVisible: row.is_visible
+  }));
+}
+
+/**
+ * Write one batch: new embeddings where needed, a single products upsert,
+ * category links and variants, and only then the hashes
+ * Rows without a new embedding keep the stored one (COALESCE). The
+ * statements don't share a transaction: until the hashes are written last,
+ * a batch that failed partway still differs from the snapshot and is
+ * written again by the next (or resumed) run.
+ */
+async function writeBatch(batch: SyncChange[], embedder: Embedder, db: QueryClient): Promise<number> {
+  const toEmbed = batch.filter(change => change.action !== 'update');
+  const vectors = toEmbed.length > 0 ? await embedder.embedMany(toEmbed.map(change => change.row.embeddingText)) : [];
+  const embeddings = new Map(toEmbed.map((change, i) => [change.row.id, JSON.stringify(vectors[i])]));
+
+  const records = batch.map(({ row }) => ({
+    id: row.id,
+    title: row.title,
+    full_title: row.fullTitle,
+    description: row.description,
+    content: row.content,
+    url: row.url,
+    artist: row.artist,
+    dimensions: row.dimensions,
+    height_cm: row.heightCm,
+    width_cm: row.widthCm,
+    depth_cm: row.depthCm,
+    diameter_cm: row.diameterCm,
+    category_names: row.categoryNames,
+    price: row.price,
+    old_price: row.oldPrice,
+    stock: row.stock,
+    stock_sold: row.stockSold,
+    min_price: row.minPrice,
+    max_price: row.maxPrice,
+    variant_titles: row.variantTitles,
+    is_visible: row.isVisible,
+    image: row.image,
+    type: row.type,
+    embedding: embeddings.get(row.id) ?? null
+  }));
+
+  await db.query(`
+    INSERT INTO products (
+      id, title, full_title, description, content, url, brand, artist, dimensions,
+      height_cm, width_cm, depth_cm, diameter_cm, category_names, price, old_price,
+      stock, stock_sold, min_price, max_price, variant_titles, is_visible, image, type,
+      embedding, deleted_at, updated_at
+    )
+    SELECT
+      r.id, r.title, r.full_title, r.description, r.content, r.url, r.artist, r.artist, r.dimensions,
+      r.height_cm, r.width_cm, r.depth_cm, r.diameter_cm, r.category_names, r.price, r.old_price,
+      r.stock, r.stock_sold, r.min_price, r.max_price, r.variant_titles, r.is_visible, r.image, r.type,
+      r.embedding::vector, NULL, NOW()
+    FROM jsonb_to_recordset($1::jsonb) AS r(
+      id BIGINT, title TEXT, full_title TEXT, description TEXT, content TEXT, url TEXT, artist TEXT, dimensions TEXT,
+      height_cm NUMERIC, width_cm NUMERIC, depth_cm NUMERIC, diameter_cm NUMERIC, category_names TEXT, price NUMERIC, old_price NUMERIC,
+      stock INT, stock_sold INT, min_price NUMERIC, max_price NUMERIC, variant_titles TEXT, is_visible BOOLEAN, image TEXT, type TEXT, embedding TEXT
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      title = EXCLUDED.title,
+      full_title = EXCLUDED.full_title,
+      description = EXCLUDED.description,
+      content = EXCLUDED.content,
+      url = EXCLUDED.url,
+      brand = EXCLUDED.brand,
+      artist = EXCLUDED.artist,
+      dimensions = EXCLUDED.dimensions,
+      height_cm = EXCLUDED.height_cm,
+      width_cm = EXCLUDED.width_cm,
+      depth_cm = EXCLUDED.depth_cm,
+      diameter_cm = EXCLUDED.diameter_cm,
+      category_names = EXCLUDED.category_names,
+      price = EXCLUDED.price,
+      old_price = EXCLUDED.old_price,
+      stock = EXCLUDED.stock,
+      stock_sold = EXCLUDED.stock_sold,
+      min_price = EXCLUDED.min_price,
+      max_price = EXCLUDED.max_price,
+      variant_titles = EXCLUDED.variant_titles,
+      is_visible = EXCLUDED.is_visible,
+      image = EXCLUDED.image,
+      type = EXCLUDED.type,
+      embedding = COALESCE(EXCLUDED.embedding, products.embedding),
+      deleted_at = NULL,
+      updated_at = NOW()
+  `, [JSON.stringify(records)]);
+
+  // Rebuild category links: drop the ones no longer in the snapshot, add the new ones
+  const productIds = batch.map(change => change.row.id);
+  const linkProductIds = batch.flatMap(change => change.row.categoryIds.map(() => change.row.id));
+  const linkCategoryIds = batch.flatMap(change => change.row.categoryIds);
+
+  await db.query(`
+    DELETE FROM product_categories pc
+    WHERE pc.product_id = ANY($1::bigint[])
+      AND NOT EXISTS (
+        SELECT 1 FROM unnest($2::bigint[], $3::bigint[]) AS l(product_id, category_id)
+        WHERE l.product_id = pc.product_id AND l.category_id = pc.category_id
+      )
+  `, [productIds, linkProductIds, linkCategoryIds]);
+
+  if (linkProductIds.length > 0) {
+    await db.query(`
+      INSERT INTO product_categories (product_id, category_id)
+      SELECT * FROM unnest($1::bigint[], $2::bigint[])
+      ON CONFLICT (product_id, category_id) DO NOTHING
+    `, [linkProductIds, linkCategoryIds]);
+  }
+
+  // Variants: drop the ones no longer in the snapshot, upsert the rest
+  const variants = batch.flatMap(({ row }) => row.variants.map(variant => ({
+    id: variant.id,
+    product_id: row.id,
+    title: variant.title,
+    options: variant.options,
+    sku: variant.sku,
+    price: variant.price,
+    old_price: variant.oldPrice,
+    stock: variant.stock,
+    stock_sold: variant.stockSold,
+    is_default: variant.isDefault,
+    sort_order: variant.sortOrder
+  })));
+
+  await db.query(
+    'DELETE FROM product_variants WHERE product_id = ANY($1::bigint[]) AND NOT (id = ANY($2::bigint[]))',
+    [productIds, variants.map(variant => variant.id)]
+  );
+
+  if (variants.length > 0) {
+    await db.query(`
+      INSERT INTO product_variants (id, product_id, title, options, sku, price, old_price, stock, stock_sold, is_default, sort_order, updated_at)
+      SELECT v.id, v.product_id, v.title, v.options, v.sku, v.price, v.old_price, v.stock, v.stock_sold, v.is_default, v.sort_order, NOW()
+      FROM jsonb_to_recordset($1::jsonb) AS v(
+        id BIGINT, product_id BIGINT, title TEXT, options JSONB, sku TEXT, price NUMERIC, old_price NUMERIC,
+        stock INT, stock_sold INT, is_default BOOLEAN, sort_order INT
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        product_id = EXCLUDED.product_id,
+        title = EXCLUDED.title,
+        options = EXCLUDED.options,
+        sku = EXCLUDED.sku,
+        price = EXCLUDED.price,
+        old_price = EXCLUDED.old_price,
+        stock = EXCLUDED.stock,
+        stock_sold = EXCLUDED.stock_sold,
+        is_default = EXCLUDED.is_default,
+        sort_order = EXCLUDED.sort_order,
+        updated_at = NOW()
+    `, [JSON.stringify(variants)]);
+  }
+
+  // Everything of the batch is written: from now on the rows count as unchanged
+  await db.query(`
+    UPDATE products p SET embedding_hash = h.embedding_hash, data_hash = h.data_hash
+    FROM jsonb_to_recordset($1::jsonb) AS h(id BIGINT, embedding_hash TEXT, data_hash TEXT)
+    WHERE p.id = h.id
+  `, [JSON.stringify(batch.map(({ row, embeddingHash, dataHash }) => ({ id: row.id, embedding_hash: embeddingHash, data_hash: dataHash })))]);
+
+  return toEmbed.length;
+}
+
+/**
+ * Hide products from search; the rows stay for analytics joins
+ */
+export async function tombstoneProducts(ids: number[], db: QueryClient = sql): Promise<void> {
+  if (ids.length === 0) return;
+  await db.query(
+    'UPDATE products SET is_visible = false, deleted_at = NOW(), updated_at = NOW() WHERE id = ANY($1::bigint[]) AND deleted_at IS NULL',
+    [ids]
+  );
+}
+
+/**
+ * Write a few rows outside a full sync (webhooks)
+ * Same change detection as syncCatalog; hidden rows are tombstoned right away.
+ */
+export async function applyCatalogRows(
+  rows: CatalogRow[],
+  options: Pick<SyncOptions, 'db' | 'embedder'> = {}
+): Promise<{ counts: SyncPlan['counts']; embedded: number }> {
+  const db = options.db || sql;
+  const embedder = options.embedder || getSearchProviders().embedder;
+
+  const existing = await loadExistingProducts(db, rows.map(row => row.id));
+  const plan = planSync(rows, existing, embedder);
+  const embedded = plan.changes.length > 0 ? await writeBatch(plan.changes, embedder, db) : 0;
+  await tombstoneProducts(plan.tombstones, db);
+
+  return { counts: plan.counts, embedded };
+}
+
+async function startRun(db: QueryClient, resume: boolean): Promise<{ id: string; checkpoint: number | null }> {
+  if (resume) {
+    const { rows } = await db.query(
+      `SELECT id, checkpoint FROM catalog_sync_runs WHERE status IN ('running', 'failed') ORDER BY started_at DESC LIMIT 1`
+    );
+    if (rows.length > 0) {
+      await db.query(`UPDATE catalog_sync_runs SET status = 'running', error = NULL, updated_at = NOW() WHERE id = $1`, [rows[0].id]);
+      return { id: rows[0].id, checkpoint: rows[0].checkpoint !== null ? Number(rows[0].checkpoint) : null };
+    }
+    console.log('[Sync] No unfinished run to resume, starting a new one');
+  }
+
+  const id = crypto.randomUUID();
+  await db.query('INSERT INTO catalog_sync_runs (id) VALUES ($1)', [id]);
+  return { id, checkpoint: null };
+}
+
+function sampleIds(plan: SyncPlan): SyncReport['samples'] {
+  const samples: SyncReport['samples'] = {};
+  for (const action of ['insert', 'reembed', 'update'] as const) {
+    const ids = plan.changes.filter(c => c.action === action).slice(0, SAMPLE_SIZE).map(c => c.row.id);
+    if (ids.length > 0) samples[action] = ids;
+  }
+  if (plan.tombstones.length > 0) samples.tombstone = plan.tombstones.slice(0, SAMPLE_SIZE);
+  return samples;
+}
+
+/**
+ * Sync the snapshot into the products table
+ */
+export async function syncCatalog(snapshot: CatalogSnapshot, options: SyncOptions = {}): Promise<SyncReport> {
+  const startTime = Date.now();
+  const db = options.db || sql;
+  const embedder = options.embedder || getSearchProviders().embedder;
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+
+  const rows = buildCatalogRows(snapshot);
+  const existing = await loadExistingProducts(db);
+  const plan = planSync(rows, existing, embedder);
+
+  console.log(`[Sync] ${rows.length} products in snapshot, ${existing.length} in database (embedder=${embedder.name}/${embedder.model})`);
+  console.log(`[Sync] insert=${plan.counts.insert} reembed=${plan.counts.reembed} update=${plan.counts.update} unchanged=${plan.counts.unchanged} tombstone=${plan.counts.tombstone}`);
+
+  const visibleInDatabase = existing.filter(p => p.isVisible).length;
+  if (!options.force && visibleInDatabase > 0 && plan.tombstones.length / visibleInDatabase > MAX_TOMBSTONE_SHARE) {
+    throw new Error(
+      `Refusing to tombstone ${plan.tombstones.length} of ${visibleInDatabase} visible products (is the snapshot complete?); use --force to override`
+    );
+  }
+
+  const report: SyncReport = {
+    runId: null,
+    dryRun: Boolean(options.dryRun),
+    resumedFrom: null,
+    counts: plan.counts,
+    embedded: 0,
+    written: 0,
+    tombstoned: 0,
+    samples: sampleIds(plan),
+    durationMs: 0
+  };
+
+  if (options.dryRun) {
+    report.durationMs = Date.now() - startTime;
+    return report;
+  }
+
+  const run = await startRun(db, Boolean(options.resume));
+  report.runId = run.id;
+  report.resumedFrom = run.checkpoint;
+
+  // Rows up to the checkpoint were written by the resumed run (and now hash as unchanged anyway)
+  const pending = run.checkpoint !== null ? plan.changes.filter(c => c.row.id > run.checkpoint!) : plan.changes;
+  const totalBatches = Math.ceil(pending.length / batchSize);
+
+  try {
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize);
+      report.embedded += await writeBatch(batch, embedder, db);
+      report.written += batch.length;
+
+      const checkpoint = batch[batch.length - 1].row.id;
+      await db.query(
+        'UPDATE catalog_sync_runs SET checkpoint = $2, stats = $3::jsonb, updated_at = NOW() WHERE id = $1',
+        [run.id, checkpoint, JSON.stringify({ counts: plan.counts, embedded: report.embedded, written: report.written })]
+      );
+      console.log(`[Sync] Batch ${i / batchSize + 1}/${totalBatches}: ${batch.length} rows, checkpoint=${checkpoint}`);
+    }
+
+    // Only a run that saw the whole snapshot may hide products
+    await tombstoneProducts(plan.tombstones, db);
+    report.tombstoned = plan.tombstones.length;
+  } catch (error: any) {
+    await db.query(
+      `UPDATE catalog_sync_runs SET status = 'failed', error = $2, updated_at = NOW() WHERE id = $1`,
+      [run.id, error.message]
+    );
+    throw error;
+  }
+
+  report.durationMs = Date.now() - startTime;
+  await db.query(
+    `UPDATE catalog_sync_runs SET status = 'completed', stats = $2::jsonb, updated_at = NOW(), finished_at = NOW() WHERE id = $1`,
+    [run.id, JSON.stringify(report)]
+  );
+
+  // Brands and categories of the snapshot become the prompt metadata (counts follow the new rows)
+  await writeCatalogMetadata({ brands: snapshot.brands, categories: snapshot.categories }, db);
+
+  if (report.written > 0 || report.tombstoned > 0) {
+    await invalidateQueryCache();
+  }
+  return report;
+}
@@ -0,0 +1,50 @@
+/**
+ * Database - Query client shared by the API routes and lib modules
+ *
+ * Production runs on Neon through @vercel/postgres. A plain Postgres server
+ * (local development, the evaluation harness in eval/) does not speak
+ * Neon's protocol, so POSTGRES_DRIVER=postgres switches to postgres.js with
+ * the same query(text, params) → { rows } interface.
+ */
+
+import { sql as vercelSql } from '@vercel/postgres';
+import postgres from 'postgres';
+
+export interface QueryClient {
+  query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+export type QueryResult = Awaited<ReturnType<QueryClient['query']>>;
+
+let directClient: ReturnType<typeof postgres> | null = null;
+
+function getDirectClient() {
+  if (!directClient) {
+    const url = process.env.DATABASE_URL || process.env.POSTGRES_URL;
+    if (!url) {
+      throw new Error('POSTGRES_DRIVER=postgres requires DATABASE_URL or POSTGRES_URL');
+    }
+    directClient = postgres(url, { max: 5, onnotice: () => {} });
+  }
+  return directClient;
+}
+
+export const sql: QueryClient = {
+  async query(text: string, params: any[] = []) {
+    if (process.env.POSTGRES_DRIVER === 'postgres') {
+      const rows = await getDirectClient().unsafe(text, params);
+      return { rows: Array.from(rows) };
+    }
+    return vercelSql.query(text, params);
+  }
+};
+
+/**
+ * Close the direct connection pool (scripts; serverless functions never close)
+ */
+export async function closeDb(): Promise<void> {
+  if (directClient) {
+    await directClient.end();
+    directClient = null;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Types for lib/dimension-parser.js (plain JS, also run by scripts/backfill-dimensions.js)
+ */
+
+export interface ParsedDimensions {
+  heightCm: number | null;
+  widthCm: number | null;
+  depthCm: number | null;
+  diameterCm: number | null;
+}
+
+export function parseDimensions(...texts: (string | null | undefined)[]): ParsedDimensions;
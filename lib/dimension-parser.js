@@ -0,0 +1,93 @@
+/**
+ * Dimension Parser
+ * Extracts structured dimensions (in centimetres) from product text
+ */
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+const UNIT = '(mm|cm|m)\\b';
+
+const LABELS = {
+  height: ['hoogte', 'hoog', 'h'],
+  width: ['breedte', 'breed', 'lengte', 'lang', 'b', 'l'],
+  depth: ['diepte', 'diep', 'd'],
+  diameter: ['diameter', 'doorsnede', 'doorsnee', 'ø']
+};
+
+/**
+ * Convert a value with unit to centimetres
+ */
+function toCm(value, unit) {
+  const number = parseFloat(String(value).replace(',', '.'));
+  if (!isFinite(number) || number <= 0) return null;
+
+  const factor = unit === 'mm' ? 0.1 : unit === 'm' ? 100 : 1;
+  return Math.round(number * factor * 10) / 10;
+}
+
+/**
+ * Strip HTML and normalize whitespace
+ */
+function cleanText(text) {
+  return String(text || '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[×*]/g, 'x')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+/**
+ * Find a labelled dimension: "hoogte 24 cm", "24 cm hoog", "h: 24cm", "ø 12 cm"
+ */
+function findLabelled(text, labels) {
+  const labelGroup = labels.map(l => l.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+
+  // Label before the value: "hoogte: 24 cm", "h 24cm", "ø12 cm"
+  const before = new RegExp(`(?:^|[^a-z])(?:${labelGroup})\\.?\\s*[:=]?\\s*(?:ca\\.?|circa|ongeveer)?\\s*${NUMBER}\\s*${UNIT}`, 'i');
+  const beforeMatch = text.match(before);
+  if (beforeMatch) return toCm(beforeMatch[1], beforeMatch[2]);
+
+  // Value before the label: "24 cm hoog", "30cm breed"
+  const after = new RegExp(`${NUMBER}\\s*${UNIT}\\s*(?:${labelGroup})(?![a-z])`, 'i');
+  const afterMatch = text.match(after);
+  if (afterMatch) return toCm(afterMatch[1], afterMatch[2]);
+
+  return null;
+}
+
+/**
+ * Parse product text into structured dimensions
+ * "160 x 120 cm" is read as height x width (x depth), the usual Dutch
+ * notation for art; explicit labels always win over position.
+ *
+ * @returns {{ heightCm: number|null, widthCm: number|null, depthCm: number|null, diameterCm: number|null }}
+ */
+export function parseDimensions(...texts) {
+  const text = cleanText(texts.filter(Boolean).join(' '));
+  const result = { heightCm: null, widthCm: null, depthCm: null, diameterCm: null };
+
+  if (!text) return result;
+
+  result.heightCm = findLabelled(text, LABELS.height);
+  result.widthCm = findLabelled(text, LABELS.width);
+  result.depthCm = findLabelled(text, LABELS.depth);
+  result.diameterCm = findLabelled(text, LABELS.diameter);
+
+  // "160 x 120 cm", "30 x 20 x 10 cm"
+  const grid = text.match(new RegExp(`${NUMBER}\\s*(?:cm)?\\s*x\\s*${NUMBER}(?:\\s*(?:cm)?\\s*x\\s*${NUMBER})?\\s*${UNIT}`, 'i'));
+  if (grid) {
+    const unit = grid[4];
+    result.heightCm = result.heightCm ?? toCm(grid[1], unit);
+    result.widthCm = result.widthCm ?? toCm(grid[2], unit);
+    if (grid[3]) result.depthCm = result.depthCm ?? toCm(grid[3], unit);
+  }
+
+  // A single unlabelled size ("circa 24 cm") is taken as the height
+  const hasAny = Object.values(result).some(v => v !== null);
+  if (!hasAny) {
+    const single = text.match(new RegExp(`(?:circa|ca\\.?|ongeveer|afmeting(?:en)?:?)?\\s*${NUMBER}\\s*${UNIT}`, 'i'));
+    if (single) result.heightCm = toCm(single[1], single[2]);
+  }
+
+  return result;
+}
@@ -0,0 +1,203 @@
+/**
+ * Facets - Counts per type, artist, category, price band and size class
+ *
+ * Counts are computed over the full matching set of a query (AI-parsed
+ * filters + vector/lexical match) with the shopper's selections in every
+ * other facet applied, but not those in the facet itself (disjunctive
+ * faceting): selecting an artist never hides the other artists, while the
+ * type counts only include that artist's products.
+ */
+
+import { z } from 'zod';
+import { getCategoryName } from './catalog-metadata';
+import { raw, type SqlCondition } from './sql-builder';
+
+export const PRICE_BANDS = [
+  { value: '0-25', label: 'Tot €25', min: 0, max: 25 },
+  { value: '25-50', label: '€25 - €50', min: 25, max: 50 },
+  { value: '50-100', label: '€50 - €100', min: 50, max: 100 },
+  { value: '100-250', label: '€100 - €250', min: 100, max: 250 },
+  { value: '250+', label: 'Vanaf €250', min: 250, max: null }
+] as const;
+
+/**
+ * Size classes on the largest dimension (schema/007_structured_dimensions.sql)
+ * Also the boundaries of the parsed sizeCategory filter (lib/search-plan.ts).
+ */
+export const SIZE_CLASSES = [
+  { value: 'klein', label: 'Klein (tot 20 cm)', min: null, max: 20 },
+  { value: 'middel', label: 'Middel (20 - 40 cm)', min: 20, max: 40 },
+  { value: 'groot', label: 'Groot (vanaf 40 cm)', min: 40, max: null }
+] as const;
+
+/**
+ * Facet selections sent by the client (OR within a facet, AND across facets)
+ */
+export const facetSelectionSchema = z.object({
+  type: z.array(z.string()).optional(),
+  artist: z.array(z.string()).optional(),
+  category: z.array(z.coerce.number()).optional(),
+  price: z.array(z.enum(PRICE_BANDS.map(b => b.value) as [string, ...string[]])).optional(),
+  size: z.array(z.enum(SIZE_CLASSES.map(s => s.value) as [string, ...string[]])).optional()
+}).default({});
+
+export type FacetSelection = z.infer<typeof facetSelectionSchema>;
+
+export interface FacetValue {
+  value: string | number;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface Facets {
+  type: FacetValue[];
+  artist: FacetValue[];
+  category: FacetValue[];
+  price: FacetValue[];
+  size: FacetValue[];
+}
+
+export type FacetName = keyof Facets;
+
+const FACET_NAMES: FacetName[] = ['type', 'artist', 'category', 'price', 'size'];
+
+/**
+ * One WHERE condition per facet with a selection
+ */
+export type FacetConditions = Partial<Record<FacetName, SqlCondition>>;
+
+/**
+ * Range condition for a band with constant bounds (min inclusive, max exclusive)
+ */
+function rangeCondition(column: string, min: number | null, max: number | null): string {
+  const parts: string[] = [];
+  if (min !== null) parts.push(`${column} >= ${min}`);
+  if (max !== null) parts.push(`${column} < ${max}`);
+  return `(${parts.join(' AND ')})`;
+}
+
+/**
+ * Condition for one size class on p.max_dimension_cm
+ */
+export function sizeClassCondition(value: typeof SIZE_CLASSES[number]['value']): string {
+  const size = SIZE_CLASSES.find(s => s.value === value)!;
+  return rangeCondition('p.max_dimension_cm', size.min, size.max);
+}
+
+/**
+ * Condition for one price band: a variant sells within it, or the product
+ * has no variants and its own price does (as priceCondition in lib/search-plan.ts)
+ */
+function priceBandCondition(band: typeof PRICE_BANDS[number]): string {
+  return `(EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id AND ${rangeCondition('v.price', band.min, band.max)}) OR (p.min_price IS NULL AND ${rangeCondition('p.price', band.min, band.max)}))`;
+}
+
+function bandCase(column: string, bands: readonly { value: string; min: number | null; max: number | null }[]): string {
+  const branches = bands.map(b => `WHEN ${rangeCondition(column, b.min, b.max)} THEN '${b.value}'`).join(' ');
+  return `CASE ${branches} END`;
+}
+
+/**
+ * WHERE conditions for facet selections, per facet
+ * Selected values are bound as params; band bounds are constants and inlined.
+ */
+export function facetSelectionConditions(selection: FacetSelection): FacetConditions {
+  const conditions: FacetConditions = {};
+
+  if (selection.type?.length) {
+    conditions.type = params => `p.type = ANY(${params.bind(selection.type, 'text[]')})`;
+  }
+
+  if (selection.artist?.length) {
+    conditions.artist = params => `p.artist = ANY(${params.bind(selection.artist, 'text[]')})`;
+  }
+
+  if (selection.category?.length) {
+    conditions.category = params => `EXISTS (SELECT 1 FROM product_categories fpc WHERE fpc.product_id = p.id AND fpc.category_id = ANY(${params.bind(selection.category, 'bigint[]')}))`;
+  }
+
+  if (selection.price?.length) {
+    const bands = PRICE_BANDS.filter(b => selection.price!.includes(b.value));
+    conditions.price = raw(bands.map(priceBandCondition).join(' OR '));
+  }
+
+  if (selection.size?.length) {
+    const sizes = SIZE_CLASSES.filter(s => selection.size!.includes(s.value));
+    conditions.size = raw(sizes.map(s => sizeClassCondition(s.value)).join(' OR '));
+  }
+
+  return conditions;
+}
+
+/**
+ * Build a single query returning (facet, value, count) rows
+ * matchClause must select the matching products from "products p" without
+ * any facet selection; selections holds each facet's rendered selection.
+ * Every facet is counted with the selections of the other facets applied.
+ * Price bands count a product once per band one of its prices falls in
+ * (its variant prices, or its own price without variants).
+ */
+export function buildFacetCountsQuery(matchClause: string, selections: Partial<Record<FacetName, string>> = {}): string {
+  const flags = FACET_NAMES.map(facet => `(${selections[facet] ?? 'TRUE'}) AS in_${facet}`).join(', ');
+  const others = (facet: FacetName) => FACET_NAMES.filter(f => f !== facet).map(f => `in_${f}`).join(' AND ');
+
+  return `
+    WITH matches AS (
+      SELECT p.id, p.type, p.artist, p.price, p.min_price, p.max_dimension_cm, ${flags}
+      FROM products p
+      WHERE ${matchClause}
+    )
+    SELECT 'type' AS facet, type AS value, COUNT(*) AS count FROM matches WHERE type IS NOT NULL AND ${others('type')} GROUP BY type
+    UNION ALL
+    SELECT 'artist', artist, COUNT(*) FROM matches WHERE artist IS NOT NULL AND ${others('artist')} GROUP BY artist
+    UNION ALL
+    SELECT 'category', pc.category_id::text, COUNT(DISTINCT m.id) FROM matches m JOIN product_categories pc ON pc.product_id = m.id WHERE ${others('category')} GROUP BY pc.category_id
+    UNION ALL
+    SELECT 'price', band, COUNT(DISTINCT id) FROM (
+      SELECT id, ${bandCase('price', PRICE_BANDS)} AS band FROM (
+        SELECT m.id, v.price FROM matches m JOIN product_variants v ON v.product_id = m.id WHERE ${others('price')}
+        UNION ALL
+        SELECT id, price FROM matches WHERE min_price IS NULL AND ${others('price')}
+      ) prices
+    ) b WHERE band IS NOT NULL GROUP BY band
+    UNION ALL
+    SELECT 'size', band, COUNT(*) FROM (SELECT ${bandCase('max_dimension_cm', SIZE_CLASSES)} AS band FROM matches WHERE ${others('size')}) s WHERE band IS NOT NULL GROUP BY band
+  `;
+}
+
+/**
+ * Turn facet count rows into the API response shape
+ * Bands keep their natural order, other facets are sorted by count.
+ */
+export function formatFacets(rows: { facet: string; value: string; count: string | number }[], selection: FacetSelection): Facets {
+  const counts: Record<keyof Facets, Map<string, number>> = {
+    type: new Map(), artist: new Map(), category: new Map(), price: new Map(), size: new Map()
+  };
+
+  for (const row of rows) {
+    counts[row.facet as keyof Facets]?.set(String(row.value), parseInt(String(row.count)));
+  }
+
+  const byCount = (a: FacetValue, b: FacetValue) => b.count - a.count || a.label.localeCompare(b.label);
+  const isSelected = (values: (string | number)[] | undefined, value: string | number) =>
+    !!values?.some(v => String(v) === String(value));
+
+  return {
+    type: Array.from(counts.type, ([value, count]) => ({
+      value, label: value, count, selected: isSelected(selection.type, value)
+    })).sort(byCount),
+    artist: Array.from(counts.artist, ([value, count]) => ({
+      value, label: value, count, selected: isSelected(selection.artist, value)
+    })).sort(byCount),
+    category: Array.from(counts.category, ([value, count]) => ({
+      value: parseInt(value), label: getCategoryName(parseInt(value)), count, selected: isSelected(selection.category, value)
+    })).sort(byCount),
+    price: PRICE_BANDS.filter(b => counts.price.has(b.value)).map(b => ({
+      value: b.value, label: b.label, count: counts.price.get(b.value)!, selected: isSelected(selection.price, b.value)
+    })),
+    size: SIZE_CLASSES.filter(s => counts.size.has(s.value)).map(s => ({
+      value: s.value, label: s.label, count: counts.size.get(s.value)!, selected: isSelected(selection.size, s.value)
+    }))
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Fuzzy Matching - Edit distance for typo-tolerant lookups
+ *
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of two neighbouring letters ("klmit" → "klimt") each count as
+ * one edit. Inputs are expected to be normalized (lib/query-parser.ts).
+ */
+
+/**
+ * Edits allowed for a term of this length: none up to 4 letters (too many
+ * real words one edit apart, "kust" vs "kus"), one up to 8, two from 9
+ */
+export function maxTypos(term: string): number {
+  return term.length < 5 ? 0 : term.length < 9 ? 1 : 2;
+}
+
+/**
+ * Edit distance between a and b; stops early and returns max + 1 once the
+ * distance is certain to exceed max
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (a === b) return 0;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
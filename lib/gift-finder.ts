@@ -0,0 +1,277 @@
+/**
+ * Gift Finder - Guided search for "cadeau voor mijn zus"-type queries
+ *
+ * Recipient (moeder, collega, zorgmedewerker), occasion (huwelijk,
+ * pensioen, geslaagd) and interests (golf, tuin, muziek) are filter fields
+ * of their own; the budget is priceMin/priceMax. Every option maps to a
+ * curated set of themes from data/themes.json (data/gift-finder.json),
+ * which the search matches when the shopper named no subject of their own.
+ *
+ * Fields that are still open come back as typed follow-up questions with
+ * selectable options. The client answers with
+ * { sessionId, answers: [{ field: 'occasion', value: 'pensioen' }] }.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { getCatalogMetadata } from './catalog-metadata';
+import { PRICE_BANDS } from './facets';
+import { normalizeTerm } from './search-dictionaries';
+import { hasGiftIntent, type SearchFilters } from './search-filters';
+
+export const GIFT_FIELDS = ['recipient', 'occasion', 'interests', 'budget'] as const;
+
+export type GiftField = typeof GIFT_FIELDS[number];
+
+type ThemedField = Exclude<GiftField, 'budget'>;
+
+export interface GiftOption {
+  value: string;
+  label: string;
+  aliases: string[];
+  themes: string[];
+}
+
+export interface GiftQuestion {
+  field: GiftField;
+  question: string;
+  multiple: boolean;                          // Several options may be chosen (interests)
+  options: { value: string; label: string }[];
+}
+
+export interface GiftAnswer {
+  field: GiftField;
+  value: string;
+}
+
+const optionSchema = z.object({
+  value: z.string().min(1),
+  label: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  themes: z.array(z.string()).min(1)
+});
+
+const giftFinderFileSchema = z.object({
+  recipients: z.array(optionSchema),
+  occasions: z.array(optionSchema),
+  interests: z.array(optionSchema)
+});
+
+const QUESTIONS: Record<GiftField, string> = {
+  recipient: 'Voor wie is het cadeau?',
+  occasion: 'Wat is de gelegenheid?',
+  interests: 'Waar houdt hij of zij van?',
+  budget: 'Wat wil je ongeveer uitgeven?'
+};
+
+/**
+ * Advice for a query without any subject, shown above the questions
+ */
+export const GIFT_FINDER_INTRO = '🎁 Leuk dat je een cadeau zoekt! Vertel ons iets meer, dan zoeken we gericht voor je.';
+
+// "die van tuinieren houdt", "fan van golf": interests are only read from a query with one of these words
+const INTEREST_CUES = '(?:houdt|houden|hou|fan|liefhebber|gek op|dol op)';
+
+interface AliasPattern {
+  field: ThemedField;
+  option: GiftOption;
+  pattern: RegExp;
+}
+
+interface GiftFinder {
+  options: Record<ThemedField, GiftOption[]>;
+  patterns: AliasPattern[];                  // Longest phrase first
+}
+
+let cachedGiftFinder: GiftFinder | null = null;
+
+function wordPattern(phrase: string): RegExp {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+  return new RegExp(`(^|[^a-z0-9])${escaped}(?=$|[^a-z0-9])`, 'g');
+}
+
+/**
+ * Load data/gift-finder.json (once per instance)
+ * Themes that are not in the catalog's theme list are reported, not dropped.
+ */
+function loadGiftFinder(): GiftFinder {
+  const file = giftFinderFileSchema.parse(JSON.parse(fs.readFileSync(path.join(process.cwd(), 'data', 'gift-finder.json'), 'utf-8')));
+  const options = { recipient: file.recipients, occasion: file.occasions, interests: file.interests } as Record<ThemedField, GiftOption[]>;
+
+  const themes = new Set(getCatalogMetadata().popularThemes.map(normalizeTerm));
+  const unknown = Object.values(options).flat().flatMap(o => o.themes).filter(t => !themes.has(normalizeTerm(t)));
+  if (unknown.length > 0) {
+    console.warn('[GiftFinder] Themes not in data/themes.json:', Array.from(new Set(unknown)).join(', '));
+  }
+
+  const patterns = (Object.keys(options) as ThemedField[])
+    .flatMap(field => options[field].flatMap(option =>
+      Array.from(new Set([option.value, ...option.aliases].map(normalizeTerm))).map(phrase => ({ field, option, phrase }))))
+    .sort((a, b) => b.phrase.length - a.phrase.length)
+    .map(({ field, option, phrase }) => ({ field, option, pattern: wordPattern(phrase) }));
+
+  console.log(`[GiftFinder] Loaded ${options.recipient.length} recipients, ${options.occasion.length} occasions, ${options.interests.length} interests`);
+  return { options, patterns };
+}
+
+function getGiftFinder(): GiftFinder {
+  if (!cachedGiftFinder) {
+    cachedGiftFinder = loadGiftFinder();
+  }
+  return cachedGiftFinder;
+}
+
+/**
+ * Option by id, label or alias ("mama" → moeder); undefined when unknown
+ */
+export function findGiftOption(field: ThemedField, value: string): GiftOption | undefined {
+  const term = normalizeTerm(value);
+  return getGiftFinder().options[field].find(o =>
+    o.value === term || normalizeTerm(o.label) === term || o.aliases.some(a => normalizeTerm(a) === term));
+}
+
+export function giftLabel(field: ThemedField, value: string): string {
+  return findGiftOption(field, value)?.label ?? value;
+}
+
+/**
+ * Extract recipient, occasion and interests from normalized query text
+ * and return the text with the matched phrases removed (rule parser).
+ * Interests only count in a query with a cue ("houdt van", "fan van"), so
+ * "kat beeld voor mijn moeder" keeps kat as the subject.
+ */
+export function extractGiftIntent(text: string, filters: SearchFilters): string {
+  const { patterns } = getGiftFinder();
+  let rest = text;
+
+  for (const { field, option, pattern } of patterns) {
+    if (field === 'interests') continue;
+    rest = rest.replace(pattern, (_match, before: string) => {
+      filters[field] = filters[field] || option.value;
+      return `${before} `;
+    });
+  }
+
+  const cues = new RegExp(`(^|[^a-z0-9])${INTEREST_CUES}(?=$|[^a-z0-9])`, 'g');
+  if (cues.test(rest)) {
+    const interests = new Set(filters.interests || []);
+    for (const { field, option, pattern } of patterns) {
+      if (field !== 'interests') continue;
+      rest = rest.replace(pattern, (_match, before: string) => {
+        interests.add(option.value);
+        return `${before} `;
+      });
+    }
+    filters.interests = Array.from(interests);
+  }
+
+  return hasGiftIntent(filters) ? rest.replace(cues, '$1 ') : rest;
+}
+
+/**
+ * Keep only known gift finder values (LLM output), mapped to their ids
+ */
+export function resolveGiftFields(filters: Partial<SearchFilters>): Pick<SearchFilters, 'recipient' | 'occasion' | 'interests'> {
+  const interests = (filters.interests || [])
+    .map(interest => findGiftOption('interests', interest)?.value)
+    .filter((value): value is string => !!value);
+
+  return {
+    recipient: filters.recipient ? findGiftOption('recipient', filters.recipient)?.value ?? null : null,
+    occasion: filters.occasion ? findGiftOption('occasion', filters.occasion)?.value ?? null : null,
+    interests: Array.from(new Set(interests))
+  };
+}
+
+/**
+ * Themes the gift fields stand for (recipient, occasion, then interests)
+ */
+export function giftThemes(filters: SearchFilters): string[] {
+  const options = [
+    filters.recipient ? findGiftOption('recipient', filters.recipient) : undefined,
+    filters.occasion ? findGiftOption('occasion', filters.occasion) : undefined,
+    ...(filters.interests || []).map(interest => findGiftOption('interests', interest))
+  ];
+  return Array.from(new Set(options.flatMap(option => option?.themes ?? [])));
+}
+
+/**
+ * An answer to a follow-up question (POST /api/search)
+ */
+export const giftAnswerSchema = z.object({
+  field: z.enum(GIFT_FIELDS),
+  value: z.string().trim().min(1).max(50)
+}).refine(
+  answer => answer.field === 'budget' ? PRICE_BANDS.some(b => b.value === answer.value) : !!findGiftOption(answer.field, answer.value),
+  { message: 'Unknown gift finder option', path: ['value'] }
+);
+
+/**
+ * Apply answers to a filter state (an interest is added, everything else replaced)
+ */
+export function applyGiftAnswers(filters: SearchFilters, answers: GiftAnswer[]): SearchFilters {
+  const next: SearchFilters = { ...filters, interests: [...(filters.interests || [])] };
+
+  for (const answer of answers) {
+    if (answer.field === 'budget') {
+      const band = PRICE_BANDS.find(b => b.value === answer.value)!;
+      next.priceMin = band.min || null;
+      next.priceMax = band.max;
+      continue;
+    }
+
+    const option = findGiftOption(answer.field, answer.value)!;
+    if (answer.field === 'interests') {
+      next.interests = Array.from(new Set([...next.interests, option.value]));
+    } else {
+      next[answer.field] = option.value;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Options with at least one available product for one of their themes
+ * (all options when the counts are unknown, i.e. loaded from the files)
+ */
+function availableOptions(field: ThemedField): GiftOption[] {
+  const counts = getCatalogMetadata().counts?.themes;
+  const options = getGiftFinder().options[field];
+  if (!counts || counts.size === 0) return options;
+  return options.filter(o => o.themes.some(t => (counts.get(t) ?? 0) > 0));
+}
+
+/**
+ * Follow-up questions for the fields that are still open, in asking order
+ */
+export function buildGiftQuestions(filters: SearchFilters): GiftQuestion[] {
+  const questions: GiftQuestion[] = [];
+  const ask = (field: GiftField, options: { value: string; label: string }[]) => {
+    if (options.length > 0) {
+      questions.push({ field, question: QUESTIONS[field], multiple: field === 'interests', options });
+    }
+  };
+  const choices = (field: ThemedField) => availableOptions(field).map(o => ({ value: o.value, label: o.label }));
+
+  if (!filters.recipient) ask('recipient', choices('recipient'));
+  if (!filters.occasion) ask('occasion', choices('occasion'));
+  if (!filters.interests?.length) ask('interests', choices('interests'));
+  if (!filters.priceMin && !filters.priceMax) ask('budget', PRICE_BANDS.map(b => ({ value: b.value, label: b.label })));
+
+  return questions;
+}
+
+/**
+ * Valid values for the parse prompt
+ */
+export function buildGiftFinderInstructions(): string {
+  const { options } = getGiftFinder();
+  const list = (field: ThemedField) => options[field].map(o => o.value).join(', ');
+
+  return `GIFT FINDER VALUES (recipient, occasion and interests take ONLY these ids):
+  * recipient: ${list('recipient')}
+  * occasion: ${list('occasion')}
+  * interests: ${list('interests')}`;
+}
@@ -0,0 +1,127 @@
+/**
+ * HTTP helpers shared by API routes
+ */
+
+import crypto from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+/**
+ * Set CORS headers and answer preflight requests
+ * Returns true when the request was fully handled (OPTIONS)
+ */
+export function handleCors(req: VercelRequest, res: VercelResponse, methods: string): boolean {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return true;
+  }
+  return false;
+}
+
+const DEFAULT_ALLOWED_ORIGINS = ['https://www.kunstpakket.nl', 'https://kunstpakket.nl'];
+
+/**
+ * Origins allowed to call the public search API from a browser
+ * ALLOWED_ORIGINS is a comma-separated list; "*" allows every origin.
+ */
+export function getAllowedOrigins(): string[] {
+  const configured = (process.env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim().replace(/\/$/, '')).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_ALLOWED_ORIGINS;
+}
+
+/**
+ * The request's Origin header, or null for non-browser callers
+ */
+export function getOrigin(req: VercelRequest): string | null {
+  const origin = req.headers.origin;
+  return typeof origin === 'string' && origin ? origin : null;
+}
+
+export function isOriginAllowed(origin: string): boolean {
+  const allowed = getAllowedOrigins();
+  return allowed.includes('*') || allowed.includes(origin);
+}
+
+/**
+ * CORS for public endpoints: only allow-listed origins get the CORS headers
+ * Returns true when the request was fully handled (OPTIONS); a preflight
+ * from another origin is answered with 403.
+ */
+export function handlePublicCors(req: VercelRequest, res: VercelResponse, methods: string): boolean {
+  const origin = getOrigin(req);
+  const allowed = origin !== null && isOriginAllowed(origin);
+  res.setHeader('Vary', 'Origin');
+  if (allowed) {
+    res.setHeader('Access-Control-Allow-Origin', origin!);
+    res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-API-Key');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-RateLimit-Remaining');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.status(allowed ? 200 : 403).end();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Client IP (first X-Forwarded-For hop as set by Vercel, else the socket)
+ */
+export function getClientIp(req: VercelRequest): string {
+  const forwarded = String(req.headers['x-forwarded-for'] || '').split(',')[0].trim();
+  const realIp = String(req.headers['x-real-ip'] || '').trim();
+  return forwarded || realIp || req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Check the admin key (Authorization: Bearer <ADMIN_API_KEY>)
+ * Sends the error response and returns false when access is denied.
+ */
+export function requireAdmin(req: VercelRequest, res: VercelResponse): boolean {
+  const expected = process.env.ADMIN_API_KEY;
+  if (!expected) {
+    res.status(503).json({ success: false, error: 'Admin API not configured (ADMIN_API_KEY)' });
+    return false;
+  }
+
+  const header = String(req.headers.authorization || '');
+  const provided = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const matches = provided.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+
+  if (!matches) {
+    res.status(401).json({ success: false, error: 'Unauthorized' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Parse a JSON body that may arrive as a string (sendBeacon sends text/plain)
+ */
+export function parseJsonBody(req: VercelRequest): any {
+  if (typeof req.body === 'string') {
+    try {
+      return JSON.parse(req.body);
+    } catch {
+      return null;
+    }
+  }
+  return req.body ?? null;
+}
+
+/**
+ * Read the unparsed request body (signature checks need the exact bytes)
+ * Only works while req.body has not been accessed.
+ */
+export async function readRawBody(req: VercelRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
@@ -0,0 +1,97 @@
+/**
+ * Hybrid Search - Lexical (Postgres full-text) + vector ranking
+ *
+ * Both retrievers run with the same filters; their ranked lists are
+ * combined with reciprocal rank fusion (RRF):
+ *   score(d) = Σ weight_r / (RRF_K + rank_r(d))
+ *
+ * Lexical ranking uses products.search_vector (schema/023_unaccent_search.sql)
+ * with per-field weights via ts_rank_cd. Vector and queries use the
+ * dutch_unaccent configuration: Dutch stemming, accents ignored.
+ */
+
+import { normalizeText } from './query-parser';
+
+export const RRF_K = 60;                       // Standard RRF damping constant
+export const CANDIDATE_LIMIT = 200;            // Candidates fetched per retriever before fusion
+
+/**
+ * Per-field weights for ts_rank_cd (search_vector weight classes)
+ */
+export const FIELD_WEIGHTS = {
+  title: 1.0,                 // A: title + full title
+  artistAndCategories: 0.6,   // B: artist + category names
+  description: 0.3,           // C: description
+  content: 0.1                // D: content
+};
+
+/**
+ * Relative weight of each retriever in the fused score
+ */
+export const RETRIEVER_WEIGHTS = {
+  vector: 1.0,
+  lexical: 1.0
+};
+
+/**
+ * ts_rank_cd expects weights in {D, C, B, A} order
+ */
+export function getRankWeights(): number[] {
+  return [
+    FIELD_WEIGHTS.content,
+    FIELD_WEIGHTS.description,
+    FIELD_WEIGHTS.artistAndCategories,
+    FIELD_WEIGHTS.title
+  ];
+}
+
+/**
+ * Build a to_tsquery('dutch_unaccent', ...) expression matching ANY of the terms
+ * Multi-word terms become phrase queries ("van gogh" → van <-> gogh); accents
+ * are dropped here and in search_vector alike ("café" → cafe).
+ * Returns null when no usable terms remain.
+ */
+export function buildTsQuery(terms: string[]): string | null {
+  const parts = Array.from(new Set(terms
+    .map(term => normalizeText(term)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+      .join(' <-> '))
+    .filter(Boolean)));
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return parts.map(part => `(${part})`).join(' | ');
+}
+
+/**
+ * Fuse ranked result lists with reciprocal rank fusion
+ * Rows are matched on id; columns from later lists fill in missing ones.
+ */
+export function reciprocalRankFusion<T extends { id: any }>(
+  lists: { rows: T[]; weight: number }[],
+  k: number = RRF_K
+): (T & { rrf_score: number })[] {
+  const fused = new Map<string, T & { rrf_score: number }>();
+
+  for (const { rows, weight } of lists) {
+    rows.forEach((row, index) => {
+      const key = String(row.id);
+      const existing = fused.get(key);
+      const contribution = weight / (k + index + 1);
+
+      if (existing) {
+        fused.set(key, { ...row, ...existing, rrf_score: existing.rrf_score + contribution });
+      } else {
+        fused.set(key, { ...row, rrf_score: contribution });
+      }
+    });
+  }
+
+  // Ties (e.g. identical ranks in both lists) fall back to popularity
+  return Array.from(fused.values()).sort((a: any, b: any) =>
+    b.rrf_score - a.rrf_score || (parseInt(b.stock_sold) || 0) - (parseInt(a.stock_sold) || 0)
+  );
+}
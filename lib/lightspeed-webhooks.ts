@@ -0,0 +1,354 @@
+/**
+ * Lightspeed Webhooks - Apply catalog events between full imports
+ *
+ * Lightspeed posts product, variant and category events to
+ * /api/webhooks/lightspeed with the event in headers (x-group, x-action,
+ * x-object-id) and x-signature = md5(raw body + webhook secret).
+ *
+ * Events are applied with the same row mapping and change detection as the
+ * full import (lib/catalog-sync.ts), so only text changes re-embed. Every
+ * event is logged in lightspeed_webhook_events under an idempotency key:
+ * redeliveries of applied events are acknowledged without side effects,
+ * failed ones are retried (by Lightspeed or scripts/replay-webhooks.ts).
+ */
+
+import crypto from 'crypto';
+import { sql, type QueryClient } from './db';
+import type { Embedder } from './ai-providers';
+import { bumpCatalogMetadataVersion, getCatalogMetadata } from './catalog-metadata';
+import {
+  applyCatalogRows,
+  buildCatalogRow,
+  tombstoneProducts,
+  type LightspeedProduct,
+  type LightspeedVariant,
+  type ProductSource
+} from './catalog-sync';
+
+export const WEBHOOK_GROUPS = ['products', 'variants', 'categories'] as const;
+export const WEBHOOK_ACTIONS = ['created', 'updated', 'deleted'] as const;
+
+export type WebhookGroup = typeof WEBHOOK_GROUPS[number];
+export type WebhookAction = typeof WEBHOOK_ACTIONS[number];
+
+export interface WebhookEvent {
+  group: WebhookGroup;
+  action: WebhookAction;
+  objectId: number | null;
+  payload: any;                     // { product }, { variant } or { category }
+  idempotencyKey: string;
+}
+
+export interface WebhookResult {
+  status: 'processed' | 'ignored' | 'duplicate';
+  detail: string;
+  embedded?: number;
+}
+
+export interface WebhookOptions {
+  db?: QueryClient;
+  embedder?: Embedder;
+}
+
+export function getWebhookSecret(): string | undefined {
+  return process.env.LIGHTSPEED_WEBHOOK_SECRET || process.env.LIGHTSPEED_SECRET;
+}
+
+export function signPayload(rawBody: string, secret: string): string {
+  return crypto.createHash('md5').update(rawBody + secret).digest('hex');
+}
+
+export function verifySignature(rawBody: string, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signPayload(rawBody, secret));
+  const provided = Buffer.from(signature.toLowerCase());
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Build the event from webhook headers and raw body
+ * Returns null for groups/actions this receiver does not handle.
+ */
+export function parseWebhookEvent(
+  headers: { group?: string; action?: string; objectId?: string | number },
+  rawBody: string
+): WebhookEvent | null {
+  const group = String(headers.group || '').toLowerCase() as WebhookGroup;
+  const action = String(headers.action || '').toLowerCase() as WebhookAction;
+  if (!WEBHOOK_GROUPS.includes(group) || !WEBHOOK_ACTIONS.includes(action)) {
+    return null;
+  }
+
+  const payload = rawBody ? JSON.parse(rawBody) : {};
+  const objectKey = group.slice(0, -1) as 'product' | 'variant' | 'category';
+  const objectId = Number(headers.objectId || payload?.[objectKey]?.id) || null;
+
+  return {
+    group,
+    action,
+    objectId,
+    payload,
+    idempotencyKey: crypto.createHash('sha256').update(`${group}:${action}:${objectId}:${rawBody}`).digest('hex')
+  };
+}
+
+/**
+ * Current stored state of products (the parts a single event does not carry)
+ */
+async function loadProductSources(ids: number[], db: QueryClient): Promise<Map<number, ProductSource>> {
+  const sources = new Map<number, ProductSource>();
+  if (ids.length === 0) return sources;
+
+  const [products, links, variants] = await Promise.all([
+    db.query(
+      `SELECT id, title, full_title, description, content, url, artist, is_visible, image, price, old_price, stock, stock_sold
+       FROM products WHERE id = ANY($1::bigint[])`,
+      [ids]
+    ),
+    db.query('SELECT product_id, category_id FROM product_categories WHERE product_id = ANY($1::bigint[])', [ids]),
+    db.query(
+      `SELECT id, product_id, title, sku, price, old_price, stock, stock_sold, is_default, sort_order
+       FROM product_variants WHERE product_id = ANY($1::bigint[]) ORDER BY sort_order NULLS LAST, id`,
+      [ids]
+    )
+  ]);
+
+  for (const row of products.rows) {
+    const storedVariants: LightspeedVariant[] = variants.rows
+      .filter(variant => Number(variant.product_id) === Number(row.id))
+      .map(variant => ({
+        id: Number(variant.id),
+        title: variant.title,
+        sku: variant.sku,
+        sortOrder: variant.sort_order,
+        isDefault: variant.is_default,
+        priceIncl: variant.price,
+        oldPriceIncl: variant.old_price,
+        stockLevel: variant.stock,
+        stockSold: variant.stock_sold
+      }));
+
+    sources.set(Number(row.id), {
+      product: {
+        id: Number(row.id),
+        title: row.title,
+        fulltitle: row.full_title,
+        description: row.description,
+        content: row.content,
+        url: row.url,
+        isVisible: row.is_visible,
+        image: row.image ? { src: row.image } : false
+      },
+      // Products imported before product_variants existed only have the default variant's values
+      variants: storedVariants.length > 0 ? storedVariants : [{
+        isDefault: true,
+        priceIncl: row.price,
+        oldPriceIncl: row.old_price,
+        stockLevel: row.stock,
+        stockSold: row.stock_sold
+      }],
+      categoryIds: links.rows.filter(link => Number(link.product_id) === Number(row.id)).map(link => Number(link.category_id)),
+      artist: row.artist
+    });
+  }
+  return sources;
+}
+
+/**
+ * Category titles: webhook updates (catalog_categories) over data/categories.json
+ */
+async function loadCategoryNames(db: QueryClient): Promise<(id: number) => string | undefined> {
+  const { rows } = await db.query('SELECT id, title, deleted_at FROM catalog_categories');
+  const overrides = new Map(rows.map(row => [Number(row.id), row.deleted_at ? undefined : row.title]));
+  const categoryMap = getCatalogMetadata().categoryMap;
+  return id => (overrides.has(id) ? overrides.get(id) : categoryMap.get(id));
+}
+
+async function applySources(sources: ProductSource[], options: WebhookOptions, db: QueryClient) {
+  const categoryName = await loadCategoryNames(db);
+  const rows = sources.map(source => buildCatalogRow(source, categoryName));
+  return applyCatalogRows(rows, { db, embedder: options.embedder });
+}
+
+async function variantProductId(variantId: number, db: QueryClient): Promise<number | null> {
+  const { rows } = await db.query('SELECT product_id FROM product_variants WHERE id = $1', [variantId]);
+  return rows.length > 0 ? Number(rows[0].product_id) : null;
+}
+
+async function linkedProductIds(categoryId: number, db: QueryClient): Promise<number[]> {
+  const { rows } = await db.query('SELECT product_id FROM product_categories WHERE category_id = $1', [categoryId]);
+  return rows.map(row => Number(row.product_id));
+}
+
+async function applyProductEvent(event: WebhookEvent, options: WebhookOptions, db: QueryClient): Promise<WebhookResult> {
+  if (event.action === 'deleted') {
+    await tombstoneProducts([event.objectId!], db);
+    return { status: 'processed', detail: `product ${event.objectId} tombstoned` };
+  }
+
+  const product: LightspeedProduct | undefined = event.payload?.product;
+  if (!product?.id) {
+    return { status: 'ignored', detail: 'payload has no product' };
+  }
+
+  // Variants and categories are not part of the product event: keep the stored ones
+  const stored = (await loadProductSources([product.id], db)).get(product.id);
+  const brandId = product.brand ? product.brand.resource?.id : undefined;
+  const artist = brandId ? getCatalogMetadata().brandMap.get(brandId) ?? stored?.artist ?? null : null;
+
+  const { counts, embedded } = await applySources([{
+    product,
+    variants: stored?.variants || [],
+    categoryIds: stored?.categoryIds || [],
+    artist
+  }], options, db);
+
+  return { status: 'processed', detail: describeCounts(counts), embedded };
+}
+
+async function applyVariantEvent(event: WebhookEvent, options: WebhookOptions, db: QueryClient): Promise<WebhookResult> {
+  const variant: LightspeedVariant | undefined = event.payload?.variant;
+  const variantId = event.objectId ?? variant?.id;
+  if (event.action !== 'deleted' && !variant) {
+    return { status: 'ignored', detail: 'payload has no variant' };
+  }
+
+  // Deletions do not always carry the product: look it up
+  const productId = variant?.product?.resource?.id ?? (variantId ? await variantProductId(variantId, db) : null);
+  if (!productId || !variantId) {
+    return { status: 'ignored', detail: 'payload has no variant or product id' };
+  }
+
+  const stored = (await loadProductSources([productId], db)).get(productId);
+  if (!stored) {
+    return { status: 'ignored', detail: `product ${productId} not imported yet` };
+  }
+
+  // A new default variant replaces the default values of a product imported before product_variants
+  const others = stored.variants.filter(v => v.id !== variantId && (v.id || !variant?.isDefault));
+  const variants = event.action === 'deleted' ? others : [...others, { ...variant!, id: variantId }];
+  if (variants.length === 0) {
+    return { status: 'ignored', detail: `product ${productId} would have no variants left` };
+  }
+
+  const { counts, embedded } = await applySources([{ ...stored, variants }], options, db);
+  return { status: 'processed', detail: describeCounts(counts), embedded };
+}
+
+async function applyCategoryEvent(event: WebhookEvent, options: WebhookOptions, db: QueryClient): Promise<WebhookResult> {
+  const categoryId = event.objectId;
+  if (!categoryId) {
+    return { status: 'ignored', detail: 'payload has no category id' };
+  }
+
+  if (event.action === 'deleted') {
+    await db.query(
+      `INSERT INTO catalog_categories (id, title, deleted_at) VALUES ($1, '', NOW())
+       ON CONFLICT (id) DO UPDATE SET deleted_at = NOW(), updated_at = NOW()`,
+      [categoryId]
+    );
+  } else {
+    const title = event.payload?.category?.title;
+    if (!title) {
+      return { status: 'ignored', detail: 'payload has no category title' };
+    }
+    await db.query(
+      `INSERT INTO catalog_categories (id, title) VALUES ($1, $2)
+       ON CONFLICT (id) DO UPDATE SET title = EXCLUDED.title, deleted_at = NULL, updated_at = NOW()`,
+      [categoryId, title]
+    );
+  }
+
+  // Prompts list the category names
+  await bumpCatalogMetadataVersion(db);
+
+  // Category names are part of the embedding text of every linked product
+  const productIds = await linkedProductIds(categoryId, db);
+  if (event.action === 'deleted') {
+    await db.query('DELETE FROM product_categories WHERE category_id = $1', [categoryId]);
+  }
+
+  const sources = [...(await loadProductSources(productIds, db)).values()];
+  if (sources.length === 0) {
+    return { status: 'processed', detail: `category ${categoryId} ${event.action}, no linked products` };
+  }
+
+  const { counts, embedded } = await applySources(sources, options, db);
+  return { status: 'processed', detail: `category ${categoryId} ${event.action}: ${describeCounts(counts)}`, embedded };
+}
+
+function describeCounts(counts: Record<string, number>): string {
+  return Object.entries(counts).filter(([, n]) => n > 0).map(([action, n]) => `${action}=${n}`).join(' ') || 'no changes';
+}
+
+/**
+ * Apply one event (no logging, no idempotency)
+ */
+export async function applyWebhookEvent(event: WebhookEvent, options: WebhookOptions = {}): Promise<WebhookResult> {
+  const db = options.db || sql;
+  switch (event.group) {
+    case 'products': return applyProductEvent(event, options, db);
+    case 'variants': return applyVariantEvent(event, options, db);
+    case 'categories': return applyCategoryEvent(event, options, db);
+  }
+}
+
+/**
+ * Log and apply an event exactly once
+ * A redelivered key that was already processed (or ignored) returns 'duplicate';
+ * a failed one is applied again. Errors are logged on the event and rethrown.
+ */
+export async function handleWebhookEvent(event: WebhookEvent, options: WebhookOptions = {}): Promise<WebhookResult> {
+  const db = options.db || sql;
+
+  const claim = await db.query(
+    `INSERT INTO lightspeed_webhook_events (idempotency_key, event_group, action, object_id, payload, attempts)
+     VALUES ($1, $2, $3, $4, $5, 1)
+     ON CONFLICT (idempotency_key) DO UPDATE SET attempts = lightspeed_webhook_events.attempts + 1
+       WHERE lightspeed_webhook_events.status NOT IN ('processed', 'ignored')
+     RETURNING id`,
+    [event.idempotencyKey, event.group, event.action, event.objectId, JSON.stringify(event.payload)]
+  );
+
+  if (claim.rows.length === 0) {
+    return { status: 'duplicate', detail: 'event already applied' };
+  }
+  const eventId = claim.rows[0].id;
+
+  try {
+    const result = await applyWebhookEvent(event, options);
+    await db.query(
+      `UPDATE lightspeed_webhook_events SET status = $2, result = $3, error = NULL, processed_at = NOW() WHERE id = $1`,
+      [eventId, result.status, JSON.stringify(result)]
+    );
+    console.log(`[Webhook] ${event.group}.${event.action} ${event.objectId}: ${result.status} (${result.detail})`);
+    return result;
+  } catch (error: any) {
+    await db.query(
+      `UPDATE lightspeed_webhook_events SET status = 'failed', error = $2 WHERE id = $1`,
+      [eventId, error.message]
+    );
+    throw error;
+  }
+}
+
+/**
+ * Failed (or never finished) events from the log, oldest first
+ */
+export async function loadUnprocessedEvents(limit = 100, db: QueryClient = sql): Promise<WebhookEvent[]> {
+  const { rows } = await db.query(
+    `SELECT idempotency_key, event_group, action, object_id, payload
+     FROM lightspeed_webhook_events
+     WHERE status IN ('failed', 'received')
+     ORDER BY received_at
+     LIMIT $1`,
+    [limit]
+  );
+  return rows.map(row => ({
+    group: row.event_group,
+    action: row.action,
+    objectId: row.object_id !== null ? Number(row.object_id) : null,
+    payload: row.payload,
+    idempotencyKey: row.idempotency_key
+  }));
+}
@@ -0,0 +1,348 @@
+/**
+ * Merchandising - Business rules on top of the relevance ranking
+ *
+ * A rule matches on query text, parsed filters (type, artist, theme
+ * keywords) and an optional date range, and carries one or more actions:
+ * - pin:      put a product at a fixed position (1-based) of the relevance ranking
+ * - boost / bury: raise or lower products with an attribute (on sale, new, low stock, popular)
+ * - hide:     never show these products for the query
+ * - redirect: send the shopper to a landing page instead of results
+ * - campaign: attach a banner and/or discount code to the response
+ *
+ * Rules live in Postgres (schema/019_merchandising_rules.sql), are cached
+ * per instance for RULES_TTL_MS and are evaluated after retrieval: hides
+ * become a plan condition, pins and boosts reorder the fused candidates
+ * before the page is cut (relevance sort only; explicit sorts keep their order).
+ */
+
+import { z } from 'zod';
+import { sql, type QueryClient } from './db';
+import { normalizeText } from './query-parser';
+import type { SearchFilters } from './search-filters';
+import { POPULAR_SALES_THRESHOLD, SCARCE_STOCK_THRESHOLD } from './search-format';
+import { buildProductsByIdQuery } from './search-sql';
+import type { SqlCondition } from './sql-builder';
+
+const RULES_TTL_MS = 60_000;
+const NEW_PRODUCT_DAYS = 30;
+
+export const rankAttributeSchema = z.enum(['on_sale', 'new', 'low_stock', 'popular']);
+
+export type RankAttribute = z.infer<typeof rankAttributeSchema>;
+
+// Plain http(s) URLs only: the widget puts them in href/src attributes
+const httpUrl = z.string().max(500).url().regex(/^https?:\/\/[^\s"'<>]+$/, 'Expected an http(s) URL');
+
+export const ruleConditionsSchema = z.object({
+  queries: z.array(z.string().trim().min(1).max(200)).max(50).optional(),   // Phrases the query contains
+  exactQuery: z.boolean().default(false),                                   // ...or must equal
+  productTypes: z.array(z.string().min(1)).max(50).optional(),
+  artists: z.array(z.string().min(1)).max(50).optional(),
+  themes: z.array(z.string().min(1)).max(50).optional()                     // Any parsed keyword
+});
+
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('pin'), productId: z.number().int().positive(), position: z.number().int().min(1).max(100) }),
+  z.object({ type: z.literal('boost'), attribute: rankAttributeSchema, strength: z.number().positive().max(10).default(0.5) }),
+  z.object({ type: z.literal('bury'), attribute: rankAttributeSchema, strength: z.number().positive().max(10).default(0.5) }),
+  z.object({ type: z.literal('hide'), productIds: z.array(z.number().int().positive()).min(1).max(500) }),
+  z.object({ type: z.literal('redirect'), url: httpUrl }),
+  z.object({
+    type: z.literal('campaign'),
+    banner: z.object({
+      title: z.string().min(1).max(120),
+      text: z.string().max(500).optional(),
+      imageUrl: httpUrl.optional(),
+      linkUrl: httpUrl.optional()
+    }).optional(),
+    discountCode: z.object({
+      code: z.string().min(1).max(50),
+      amount: z.string().min(1).max(50),
+      description: z.string().max(200)
+    }).optional()
+  })
+]);
+
+/**
+ * A rule as sent to /api/admin/merchandising
+ */
+export const merchandisingRuleSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().min(-1000).max(1000).default(0),   // Higher wins (pins on the same position, redirects, campaigns)
+  conditions: ruleConditionsSchema.default({}),
+  actions: z.array(ruleActionSchema).min(1).max(50),
+  startsAt: z.string().datetime({ offset: true }).nullable().default(null),
+  endsAt: z.string().datetime({ offset: true }).nullable().default(null)
+});
+
+export type RuleConditions = z.infer<typeof ruleConditionsSchema>;
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+export type MerchandisingRuleInput = z.infer<typeof merchandisingRuleSchema>;
+
+export interface MerchandisingRule extends MerchandisingRuleInput {
+  id: number;
+  updatedAt: string;
+}
+
+export interface Banner {
+  title: string;
+  text?: string;
+  imageUrl?: string;
+  linkUrl?: string;
+}
+
+export interface DiscountCode {
+  code: string;
+  amount: string;
+  description: string;
+}
+
+/**
+ * Everything the fired rules ask for, merged by priority
+ */
+export interface MerchandisingOutcome {
+  fired: { id: number; name: string; actions: RuleAction['type'][] }[];
+  pins: { productId: number; position: number }[];
+  adjustments: { attribute: RankAttribute; factor: number }[];
+  hiddenIds: number[];
+  redirect: string | null;
+  banner: Banner | null;
+  discountCode: DiscountCode | null;
+}
+
+let cachedRules: { rules: MerchandisingRule[]; loadedAt: number } | null = null;
+
+function rowToRule(row: any): MerchandisingRule {
+  return {
+    id: Number(row.id),
+    name: row.name,
+    enabled: row.enabled,
+    priority: row.priority,
+    conditions: row.conditions ?? {},
+    actions: row.actions ?? [],
+    startsAt: row.starts_at ? new Date(row.starts_at).toISOString() : null,
+    endsAt: row.ends_at ? new Date(row.ends_at).toISOString() : null,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+const RULE_COLUMNS = 'id, name, enabled, priority, conditions, actions, starts_at, ends_at, updated_at';
+
+/**
+ * Enabled rules whose date range has not ended (cached per instance)
+ * A database failure means no merchandising, never a failed search.
+ */
+export async function loadActiveRules(db: QueryClient = sql): Promise<MerchandisingRule[]> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < RULES_TTL_MS) {
+    return cachedRules.rules;
+  }
+
+  try {
+    const { rows } = await db.query(`
+      SELECT ${RULE_COLUMNS} FROM merchandising_rules
+      WHERE enabled AND (ends_at IS NULL OR ends_at > NOW())
+      ORDER BY priority DESC, id
+    `);
+    cachedRules = { rules: rows.map(rowToRule), loadedAt: Date.now() };
+  } catch (error: any) {
+    console.warn('[Merchandising] Loading rules failed:', error.message);
+    cachedRules = { rules: cachedRules?.rules ?? [], loadedAt: Date.now() };
+  }
+  return cachedRules.rules;
+}
+
+/**
+ * Drop the cached rules (after an admin change on this instance)
+ */
+export function invalidateRules(): void {
+  cachedRules = null;
+}
+
+function inWindow(rule: MerchandisingRule, now: Date): boolean {
+  return (!rule.startsAt || new Date(rule.startsAt) <= now) && (!rule.endsAt || new Date(rule.endsAt) > now);
+}
+
+/**
+ * Every condition that is set must hold; within a list any value matches
+ */
+export function ruleMatches(rule: MerchandisingRule, query: string, filters: SearchFilters, now: Date = new Date()): boolean {
+  if (!rule.enabled || !inWindow(rule, now)) return false;
+
+  const { queries, exactQuery, productTypes, artists, themes } = rule.conditions;
+  // Words only: "Kat-beeld!" → "kat beeld"
+  const normalize = (value: string) => normalizeText(value).split(/[^a-z0-9]+/).filter(Boolean).join(' ');
+  const text = normalize(query);
+
+  if (queries?.length) {
+    const phrases = queries.map(normalize);
+    const hit = exactQuery
+      ? phrases.includes(text)
+      : phrases.some(phrase => ` ${text} `.includes(` ${phrase} `));
+    if (!hit) return false;
+  }
+  if (productTypes?.length && !(filters.productType && productTypes.map(normalize).includes(normalize(filters.productType)))) return false;
+  if (artists?.length && !(filters.artist && artists.map(normalize).includes(normalize(filters.artist)))) return false;
+  if (themes?.length) {
+    const keywords = new Set((filters.keywords || []).map(normalize));
+    if (!themes.some(theme => keywords.has(normalize(theme)))) return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluate the rules for a query (rules arrive sorted by priority, highest first)
+ */
+export function evaluateRules(rules: MerchandisingRule[], query: string, filters: SearchFilters, now: Date = new Date()): MerchandisingOutcome {
+  const outcome: MerchandisingOutcome = {
+    fired: [],
+    pins: [],
+    adjustments: [],
+    hiddenIds: [],
+    redirect: null,
+    banner: null,
+    discountCode: null
+  };
+  const takenPositions = new Set<number>();
+  const pinnedIds = new Set<number>();
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, query, filters, now)) continue;
+    outcome.fired.push({ id: rule.id, name: rule.name, actions: rule.actions.map(a => a.type) });
+
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case 'pin':
+          // A higher-priority rule keeps the position and the product
+          if (takenPositions.has(action.position) || pinnedIds.has(action.productId)) break;
+          takenPositions.add(action.position);
+          pinnedIds.add(action.productId);
+          outcome.pins.push({ productId: action.productId, position: action.position });
+          break;
+        case 'boost':
+          outcome.adjustments.push({ attribute: action.attribute, factor: 1 + action.strength });
+          break;
+        case 'bury':
+          outcome.adjustments.push({ attribute: action.attribute, factor: 1 / (1 + action.strength) });
+          break;
+        case 'hide':
+          outcome.hiddenIds.push(...action.productIds);
+          break;
+        case 'redirect':
+          outcome.redirect = outcome.redirect ?? action.url;
+          break;
+        case 'campaign':
+          outcome.banner = outcome.banner ?? (action.banner as Banner | undefined) ?? null;
+          outcome.discountCode = outcome.discountCode ?? (action.discountCode as DiscountCode | undefined) ?? null;
+          break;
+      }
+    }
+  }
+
+  // Hiding wins over pinning
+  const hidden = new Set(outcome.hiddenIds);
+  outcome.pins = outcome.pins.filter(pin => !hidden.has(pin.productId)).sort((a, b) => a.position - b.position);
+  outcome.hiddenIds = Array.from(hidden);
+  return outcome;
+}
+
+/**
+ * Plan condition for hidden products (counts, facets and every sort order)
+ */
+export function hiddenProductsCondition(outcome: MerchandisingOutcome): SqlCondition | null {
+  if (outcome.hiddenIds.length === 0) return null;
+  return params => `NOT (p.id = ANY(${params.bind(outcome.hiddenIds, 'bigint[]')}))`;
+}
+
+function hasAttribute(row: any, attribute: RankAttribute, now: Date): boolean {
+  switch (attribute) {
+    case 'on_sale':
+      return row.old_price !== null && parseFloat(row.old_price) > parseFloat(row.price);
+    case 'new':
+      return !!row.created_at && now.getTime() - new Date(row.created_at).getTime() < NEW_PRODUCT_DAYS * 86_400_000;
+    case 'low_stock':
+      return row.stock !== null && row.stock > 0 && row.stock <= SCARCE_STOCK_THRESHOLD;
+    case 'popular':
+      return (parseInt(row.stock_sold) || 0) >= POPULAR_SALES_THRESHOLD;
+  }
+}
+
+/**
+ * Reorder fused relevance candidates: boost/bury factors on the RRF score,
+ * then pinned products at their positions (fetched when retrieval missed them)
+ */
+export async function arrangeCandidates(rows: any[], outcome: MerchandisingOutcome, db: QueryClient = sql, now: Date = new Date()): Promise<any[]> {
+  let arranged = rows;
+
+  if (outcome.adjustments.length > 0) {
+    arranged = rows
+      .map(row => {
+        const factor = outcome.adjustments
+          .filter(a => hasAttribute(row, a.attribute, now))
+          .reduce((total, a) => total * a.factor, 1);
+        return factor === 1 ? row : { ...row, rrf_score: row.rrf_score * factor };
+      })
+      .sort((a, b) => b.rrf_score - a.rrf_score || (parseInt(b.stock_sold) || 0) - (parseInt(a.stock_sold) || 0));
+  }
+
+  if (outcome.pins.length === 0) return arranged;
+
+  const pinnedIds = new Set(outcome.pins.map(pin => pin.productId));
+  const present = new Map(arranged.filter(row => pinnedIds.has(Number(row.id))).map(row => [Number(row.id), row]));
+  const missing = [...pinnedIds].filter(id => !present.has(id));
+  if (missing.length > 0) {
+    const query = buildProductsByIdQuery(missing);
+    const { rows: fetched } = await db.query(query.text, query.params);
+    fetched.forEach(row => present.set(Number(row.id), { ...row, rrf_score: null }));
+  }
+
+  const result = arranged.filter(row => !pinnedIds.has(Number(row.id)));
+  for (const pin of outcome.pins) {
+    const row = present.get(pin.productId);
+    if (!row) continue;   // Deleted or invisible product
+    result.splice(Math.min(pin.position - 1, result.length), 0, { ...row, pinned: true });
+  }
+  return result;
+}
+
+/**
+ * All rules (also disabled and ended ones), highest priority first
+ */
+export async function listRules(db: QueryClient = sql): Promise<MerchandisingRule[]> {
+  const { rows } = await db.query(`SELECT ${RULE_COLUMNS} FROM merchandising_rules ORDER BY priority DESC, id`);
+  return rows.map(rowToRule);
+}
+
+function ruleParams(rule: MerchandisingRuleInput): unknown[] {
+  return [rule.name, rule.enabled, rule.priority, JSON.stringify(rule.conditions), JSON.stringify(rule.actions), rule.startsAt, rule.endsAt];
+}
+
+export async function createRule(rule: MerchandisingRuleInput, db: QueryClient = sql): Promise<MerchandisingRule> {
+  const { rows } = await db.query(`
+    INSERT INTO merchandising_rules (name, enabled, priority, conditions, actions, starts_at, ends_at)
+    VALUES ($1, $2, $3, $4::jsonb, $5::jsonb, $6, $7)
+    RETURNING ${RULE_COLUMNS}
+  `, ruleParams(rule));
+  invalidateRules();
+  return rowToRule(rows[0]);
+}
+
+/**
+ * Replace a rule; null when it does not exist
+ */
+export async function updateRule(id: number, rule: MerchandisingRuleInput, db: QueryClient = sql): Promise<MerchandisingRule | null> {
+  const { rows } = await db.query(`
+    UPDATE merchandising_rules
+    SET name = $2, enabled = $3, priority = $4, conditions = $5::jsonb, actions = $6::jsonb, starts_at = $7, ends_at = $8, updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${RULE_COLUMNS}
+  `, [id, ...ruleParams(rule)]);
+  invalidateRules();
+  return rows[0] ? rowToRule(rows[0]) : null;
+}
+
+export async function deleteRule(id: number, db: QueryClient = sql): Promise<boolean> {
+  const { rows } = await db.query('DELETE FROM merchandising_rules WHERE id = $1 RETURNING id', [id]);
+  invalidateRules();
+  return rows.length > 0;
+}
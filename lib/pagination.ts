@@ -0,0 +1,78 @@
+/**
+ * Pagination - Page size, sort modes and opaque page cursors for /api/search
+ */
+
+import { z } from 'zod';
+import type { FacetSelection } from './facets';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+export const MAX_RELEVANCE_DEPTH = 1000;   // Deepest position reachable with relevance sort
+
+export const searchSortSchema = z.enum(['relevance', 'popular', 'price-asc', 'price-desc', 'discount', 'newest']);
+
+export type SearchSort = z.infer<typeof searchSortSchema>;
+
+export const searchIdSchema = z.string().uuid();
+
+/**
+ * ORDER BY expressions for non-relevance sorts (ties broken on id for stable pages)
+ * Price sorts use the lowest variant price (the "vanaf" price the widget shows).
+ */
+export const SORT_ORDERS: Record<Exclude<SearchSort, 'relevance'>, string> = {
+  'popular': 'p.stock_sold DESC NULLS LAST, p.id',
+  'price-asc': 'COALESCE(p.min_price, p.price) ASC NULLS LAST, p.id',
+  'price-desc': 'COALESCE(p.min_price, p.price) DESC NULLS LAST, p.id',
+  'discount': 'CASE WHEN p.old_price > p.price THEN 1 - p.price / p.old_price ELSE 0 END DESC, p.stock_sold DESC NULLS LAST, p.id',
+  'newest': 'p.created_at DESC NULLS LAST, p.id DESC'
+};
+
+/**
+ * Everything needed to fetch the next page without re-parsing the query
+ */
+export interface PageCursor {
+  searchId: string;
+  offset: number;
+  limit: number;
+  sort: SearchSort;
+  facets: FacetSelection;
+}
+
+const pageCursorSchema = z.object({
+  searchId: searchIdSchema,
+  offset: z.number().int().min(0),
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE),
+  sort: searchSortSchema,
+  facets: z.record(z.array(z.any())).default({})
+});
+
+/**
+ * Encode a cursor as URL-safe base64 JSON
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor; returns null for malformed or out-of-range values
+ * Cursors are not signed: an edited cursor is no different from sending
+ * searchId, offset, limit, sort and facets as body parameters, which are
+ * validated the same way.
+ */
+export function decodeCursor(value: string): PageCursor | null {
+  try {
+    const parsed = pageCursorSchema.safeParse(JSON.parse(Buffer.from(value, 'base64url').toString('utf-8')));
+    return parsed.success ? parsed.data as PageCursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clamp a requested page size to the allowed range
+ */
+export function clampPageSize(limit: unknown): number {
+  const value = typeof limit === 'number' ? limit : parseInt(String(limit));
+  if (!isFinite(value) || value < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.floor(value), MAX_PAGE_SIZE);
+}
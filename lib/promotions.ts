@@ -0,0 +1,229 @@
+/**
+ * Promotions - Scheduled discount codes shown with search results
+ *
+ * A promotion has a code, a display amount/description/label, a validity
+ * window and eligibility conditions: the search's budget within a price
+ * range, a product type, a budget at all, first-time searchers only.
+ * /api/search shows the best eligible promotion (highest priority, then
+ * the one ending soonest); a merchandising campaign's code wins over it.
+ *
+ * Stored in Postgres (schema/020_promotions.sql), managed through
+ * /api/admin/promotions and cached per instance for PROMOTIONS_TTL_MS.
+ */
+
+import { z } from 'zod';
+import { sql, type QueryClient } from './db';
+import type { SearchFilters } from './search-filters';
+
+const PROMOTIONS_TTL_MS = 60_000;
+
+export const promotionConditionsSchema = z.object({
+  requiresBudget: z.boolean().default(false),                 // Only for searches with a price filter
+  priceMin: z.number().nonnegative().nullable().default(null), // Budget must reach into this range
+  priceMax: z.number().positive().nullable().default(null),
+  productTypes: z.array(z.string().min(1)).max(50).optional(),
+  firstSearchOnly: z.boolean().default(false)                  // Shoppers without an earlier search
+});
+
+/**
+ * A promotion as sent to /api/admin/promotions
+ */
+export const promotionSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  amount: z.string().trim().min(1).max(50),                  // "€7,50", "10%"
+  description: z.string().trim().max(200),                   // "korting op je bestelling"
+  label: z.string().trim().min(1).max(80),                   // "🍂 Herfstkorting"
+  minimumBasket: z.number().positive().nullable().default(null),   // Shown as "bij besteding vanaf €50"
+  enabled: z.boolean().default(true),
+  priority: z.number().int().min(-1000).max(1000).default(0),
+  conditions: promotionConditionsSchema.default({}),
+  startsAt: z.string().datetime({ offset: true }).nullable().default(null),
+  endsAt: z.string().datetime({ offset: true }).nullable().default(null)
+}).refine(p => !p.startsAt || !p.endsAt || new Date(p.startsAt) < new Date(p.endsAt), {
+  message: 'startsAt must be before endsAt',
+  path: ['endsAt']
+});
+
+export type PromotionConditions = z.infer<typeof promotionConditionsSchema>;
+export type PromotionInput = z.infer<typeof promotionSchema>;
+
+export interface Promotion extends PromotionInput {
+  id: number;
+  updatedAt: string;
+}
+
+/**
+ * What the search knows about the shopper's request
+ */
+export interface PromotionContext {
+  filters: SearchFilters;
+  firstSearch: boolean;
+}
+
+/**
+ * discountCode in the search response
+ */
+export interface PromotionOffer {
+  promotionId: number | null;    // null for a merchandising campaign code
+  code: string;
+  amount: string;
+  description: string;
+  label: string | null;
+  minimumBasket: number | null;
+  endsAt: string | null;
+}
+
+let cachedPromotions: { promotions: Promotion[]; loadedAt: number } | null = null;
+
+const PROMOTION_COLUMNS = 'id, code, amount, description, label, minimum_basket, enabled, priority, conditions, starts_at, ends_at, updated_at';
+
+function rowToPromotion(row: any): Promotion {
+  return {
+    id: Number(row.id),
+    code: row.code,
+    amount: row.amount,
+    description: row.description,
+    label: row.label,
+    minimumBasket: row.minimum_basket !== null ? parseFloat(row.minimum_basket) : null,
+    enabled: row.enabled,
+    priority: row.priority,
+    conditions: promotionConditionsSchema.parse(row.conditions ?? {}) as PromotionConditions,
+    startsAt: row.starts_at ? new Date(row.starts_at).toISOString() : null,
+    endsAt: row.ends_at ? new Date(row.ends_at).toISOString() : null,
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+/**
+ * Enabled promotions that have not ended (cached per instance)
+ * A database failure means no promotion, never a failed search.
+ */
+export async function loadActivePromotions(db: QueryClient = sql): Promise<Promotion[]> {
+  if (cachedPromotions && Date.now() - cachedPromotions.loadedAt < PROMOTIONS_TTL_MS) {
+    return cachedPromotions.promotions;
+  }
+
+  try {
+    const { rows } = await db.query(`
+      SELECT ${PROMOTION_COLUMNS} FROM promotions
+      WHERE enabled AND (ends_at IS NULL OR ends_at > NOW())
+      ORDER BY priority DESC, id
+    `);
+    cachedPromotions = { promotions: rows.map(rowToPromotion), loadedAt: Date.now() };
+  } catch (error: any) {
+    console.warn('[Promotions] Loading promotions failed:', error.message);
+    cachedPromotions = { promotions: cachedPromotions?.promotions ?? [], loadedAt: Date.now() };
+  }
+  return cachedPromotions.promotions;
+}
+
+/**
+ * Drop the cached promotions (after an admin change on this instance)
+ */
+export function invalidatePromotions(): void {
+  cachedPromotions = null;
+}
+
+/**
+ * Is the promotion valid now and does the search meet its conditions?
+ */
+export function isEligible(promotion: Promotion, context: PromotionContext, now: Date = new Date()): boolean {
+  if (!promotion.enabled) return false;
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return false;
+  if (promotion.endsAt && new Date(promotion.endsAt) <= now) return false;
+
+  const { requiresBudget, priceMin, priceMax, productTypes, firstSearchOnly } = promotion.conditions;
+  const { filters } = context;
+  const hasBudget = !!(filters.priceMin || filters.priceMax);
+
+  if (requiresBudget && !hasBudget) return false;
+  if (firstSearchOnly && !context.firstSearch) return false;
+
+  // The shopper's budget (open-ended on a missing side) has to overlap the promotion's range
+  if (priceMin !== null || priceMax !== null) {
+    if (!hasBudget) return false;
+    const budgetMin = filters.priceMin ?? 0;
+    const budgetMax = filters.priceMax ?? Infinity;
+    if ((priceMax !== null && budgetMin > priceMax) || (priceMin !== null && budgetMax < priceMin)) return false;
+  }
+
+  if (productTypes?.length && !(filters.productType && productTypes.includes(filters.productType))) return false;
+  return true;
+}
+
+/**
+ * The best eligible promotion: highest priority, then ending soonest
+ */
+export function selectPromotion(promotions: Promotion[], context: PromotionContext, now: Date = new Date()): Promotion | null {
+  const endsAt = (p: Promotion) => p.endsAt ? new Date(p.endsAt).getTime() : Infinity;
+  const eligible = promotions
+    .filter(p => isEligible(p, context, now))
+    .sort((a, b) => b.priority - a.priority || endsAt(a) - endsAt(b) || a.id - b.id);
+  return eligible[0] ?? null;
+}
+
+export function toOffer(promotion: Promotion): PromotionOffer {
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    amount: promotion.amount,
+    description: promotion.description,
+    label: promotion.label,
+    minimumBasket: promotion.minimumBasket,
+    endsAt: promotion.endsAt
+  };
+}
+
+/**
+ * All promotions (also disabled and ended ones), highest priority first
+ */
+export async function listPromotions(db: QueryClient = sql): Promise<Promotion[]> {
+  const { rows } = await db.query(`SELECT ${PROMOTION_COLUMNS} FROM promotions ORDER BY priority DESC, id`);
+  return rows.map(rowToPromotion);
+}
+
+function promotionParams(promotion: PromotionInput): unknown[] {
+  return [
+    promotion.code,
+    promotion.amount,
+    promotion.description,
+    promotion.label,
+    promotion.minimumBasket,
+    promotion.enabled,
+    promotion.priority,
+    JSON.stringify(promotion.conditions),
+    promotion.startsAt,
+    promotion.endsAt
+  ];
+}
+
+export async function createPromotion(promotion: PromotionInput, db: QueryClient = sql): Promise<Promotion> {
+  const { rows } = await db.query(`
+    INSERT INTO promotions (code, amount, description, label, minimum_basket, enabled, priority, conditions, starts_at, ends_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10)
+    RETURNING ${PROMOTION_COLUMNS}
+  `, promotionParams(promotion));
+  invalidatePromotions();
+  return rowToPromotion(rows[0]);
+}
+
+/**
+ * Replace a promotion; null when it does not exist
+ */
+export async function updatePromotion(id: number, promotion: PromotionInput, db: QueryClient = sql): Promise<Promotion | null> {
+  const { rows } = await db.query(`
+    UPDATE promotions
+    SET code = $2, amount = $3, description = $4, label = $5, minimum_basket = $6, enabled = $7,
+        priority = $8, conditions = $9::jsonb, starts_at = $10, ends_at = $11, updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${PROMOTION_COLUMNS}
+  `, [id, ...promotionParams(promotion)]);
+  invalidatePromotions();
+  return rows[0] ? rowToPromotion(rows[0]) : null;
+}
+
+export async function deletePromotion(id: number, db: QueryClient = sql): Promise<boolean> {
+  const { rows } = await db.query('DELETE FROM promotions WHERE id = $1 RETURNING id', [id]);
+  invalidatePromotions();
+  return rows.length > 0;
+}
@@ -0,0 +1,278 @@
+/**
+ * Query Cache - Reuse parsed filters, query embeddings and advice text
+ *
+ * Popular queries ("kokeshi", "van gogh") otherwise cost up to three AI
+ * calls on every search. Entries are keyed on the normalized query and
+ * a version:
+ * - filters/advice → catalog metadata hash + cache generation
+ *   (prompts list the catalog's brands, types and themes)
+ * - embedding → embedder name, model and vector size (independent of the catalog)
+ *
+ * The generation lives in Postgres and is bumped by invalidateQueryCache()
+ * (called after a catalog re-import), so every serverless instance drops
+ * its entries within GENERATION_REFRESH_MS.
+ *
+ * QUERY_CACHE_BACKEND selects the backend:
+ * - memory   → per-process LRU (default)
+ * - postgres → shared query_cache table with a memory LRU in front
+ * - off      → no caching
+ */
+
+import crypto from 'crypto';
+import { sql } from './db';
+import { buildPromptInstructions, getCatalogMetadata, getCatalogSummary, type CatalogMetadata } from './catalog-metadata';
+import { normalizeText } from './query-parser';
+
+export type CacheNamespace = 'filters' | 'embedding' | 'advice';
+
+export type CacheStatus = 'hit' | 'miss' | 'skip' | 'off';   // skip = not needed for this request
+
+export interface CacheBackend {
+  name: string;
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const TTL_SECONDS: Record<CacheNamespace, number> = {
+  filters: 7 * 24 * 3600,       // Only changes with the catalog (versioned anyway)
+  embedding: 30 * 24 * 3600,    // Only changes with the embedding model
+  advice: 24 * 3600             // Keep advice texts a bit fresh
+};
+
+const MEMORY_CACHE_SIZE = 1000;
+const GENERATION_REFRESH_MS = 60_000;
+const CLEANUP_PROBABILITY = 0.01;   // Share of Postgres writes that also purge expired rows
+
+/**
+ * Per-process LRU (Map keeps insertion order; reads move entries to the end)
+ */
+export function createMemoryBackend(maxEntries = MEMORY_CACHE_SIZE): CacheBackend {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value, ttlSeconds) {
+      entries.delete(key);
+      while (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+    async clear() {
+      entries.clear();
+    }
+  };
+}
+
+/**
+ * Shared cache in the query_cache table (see schema/009_query_cache.sql)
+ */
+export function createPostgresBackend(): CacheBackend {
+  return {
+    name: 'postgres',
+    async get(key) {
+      const { rows } = await sql.query(
+        'SELECT value FROM query_cache WHERE key = $1 AND expires_at > NOW()',
+        [key]
+      );
+      return rows.length > 0 ? rows[0].value : undefined;
+    },
+    async set(key, value, ttlSeconds) {
+      await sql.query(
+        `INSERT INTO query_cache (key, value, expires_at)
+         VALUES ($1, $2, NOW() + make_interval(secs => $3))
+         ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at, created_at = NOW()`,
+        [key, JSON.stringify(value), ttlSeconds]
+      );
+
+      if (Math.random() < CLEANUP_PROBABILITY) {
+        await sql.query('DELETE FROM query_cache WHERE expires_at <= NOW()');
+      }
+    },
+    async clear() {
+      await sql.query('DELETE FROM query_cache');
+    }
+  };
+}
+
+/**
+ * Memory LRU in front of a slower shared backend
+ */
+function createTieredBackend(front: CacheBackend, back: CacheBackend): CacheBackend {
+  return {
+    name: `${front.name}+${back.name}`,
+    async get(key) {
+      const local = await front.get(key);
+      if (local !== undefined) return local;
+
+      const shared = await back.get(key);
+      if (shared !== undefined) {
+        // TTL of the shared entry is unknown here; keep the local copy short
+        await front.set(key, shared, GENERATION_REFRESH_MS / 1000);
+      }
+      return shared;
+    },
+    async set(key, value, ttlSeconds) {
+      await front.set(key, value, ttlSeconds);
+      await back.set(key, value, ttlSeconds);
+    },
+    async clear() {
+      await front.clear();
+      await back.clear();
+    }
+  };
+}
+
+let cachedBackend: CacheBackend | null | undefined;
+
+/**
+ * Get the configured backend (resolved once per process); null when disabled
+ */
+export function getCacheBackend(): CacheBackend | null {
+  if (cachedBackend !== undefined) {
+    return cachedBackend;
+  }
+
+  const name = (process.env.QUERY_CACHE_BACKEND || 'memory').toLowerCase().trim();
+  switch (name) {
+    case 'memory':
+      cachedBackend = createMemoryBackend();
+      break;
+    case 'postgres':
+      cachedBackend = createTieredBackend(createMemoryBackend(), createPostgresBackend());
+      break;
+    case 'off':
+      cachedBackend = null;
+      break;
+    default:
+      throw new Error(`Unknown query cache backend "${name}"; use memory, postgres or off`);
+  }
+
+  console.log(`[Cache] backend=${cachedBackend?.name ?? 'off'}`);
+  return cachedBackend;
+}
+
+// ---------------------------------------------------------------------------
+// Versioning
+// ---------------------------------------------------------------------------
+
+let catalogHash: { metadata: CatalogMetadata; hash: string } | null = null;
+let generation = { value: 0, loadedAt: 0 };
+
+/**
+ * Short hash of the catalog text in the prompts (recomputed after every metadata reload)
+ */
+function getCatalogHash(): string {
+  const metadata = getCatalogMetadata();
+  if (catalogHash?.metadata !== metadata) {
+    const hash = crypto
+      .createHash('sha1')
+      .update(buildPromptInstructions() + getCatalogSummary())
+      .digest('hex')
+      .slice(0, 12);
+    catalogHash = { metadata, hash };
+  }
+  return catalogHash.hash;
+}
+
+/**
+ * Current cache generation (re-read from Postgres at most every GENERATION_REFRESH_MS)
+ */
+async function getGeneration(): Promise<number> {
+  if (Date.now() - generation.loadedAt < GENERATION_REFRESH_MS) {
+    return generation.value;
+  }
+
+  try {
+    const { rows } = await sql.query('SELECT generation FROM query_cache_version LIMIT 1');
+    generation = { value: rows.length > 0 ? rows[0].generation : 0, loadedAt: Date.now() };
+  } catch (error: any) {
+    // Table missing or database down: keep the last known generation
+    console.warn('[Cache] Could not read cache generation:', error.message);
+    generation = { ...generation, loadedAt: Date.now() };
+  }
+  return generation.value;
+}
+
+/**
+ * Version string for a namespace
+ * Embeddings are versioned by the caller (embedder name, model and size in the key).
+ */
+async function getVersion(namespace: CacheNamespace): Promise<string> {
+  if (namespace === 'embedding') {
+    return 'v1';
+  }
+  return `${getCatalogHash()}.${await getGeneration()}`;
+}
+
+/**
+ * Normalize a query for use as cache key ("Van  Gogh!" → "van gogh!")
+ */
+export function normalizeQueryKey(query: string): string {
+  return normalizeText(query).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Return a cached value or compute and store it
+ * Errors from compute() propagate and are never cached; cache failures
+ * are logged and treated as a miss so search never breaks on the cache.
+ */
+export async function cached<T>(
+  namespace: CacheNamespace,
+  keyParts: (string | number)[],
+  compute: () => Promise<T>
+): Promise<{ value: T; cache: CacheStatus }> {
+  const backend = getCacheBackend();
+  if (!backend) {
+    return { value: await compute(), cache: 'off' };
+  }
+
+  let key: string | null = null;
+  try {
+    key = [namespace, await getVersion(namespace), ...keyParts].join(':');
+    const hit = await backend.get(key);
+    if (hit !== undefined) {
+      return { value: hit as T, cache: 'hit' };
+    }
+  } catch (error: any) {
+    console.warn(`[Cache] ${namespace} read failed:`, error.message);
+  }
+
+  const value = await compute();
+
+  if (key) {
+    backend.set(key, value, TTL_SECONDS[namespace]).catch((error: any) => {
+      console.warn(`[Cache] ${namespace} write failed:`, error.message);
+    });
+  }
+
+  return { value, cache: 'miss' };
+}
+
+/**
+ * Invalidate all cached entries (call after a catalog re-import)
+ * Bumps the shared generation so other instances drop their entries too.
+ */
+export async function invalidateQueryCache(): Promise<void> {
+  catalogHash = null;
+  await getCacheBackend()?.clear();
+  const { rows } = await sql.query(
+    'UPDATE query_cache_version SET generation = generation + 1, updated_at = NOW() RETURNING generation'
+  );
+  generation = { value: rows[0]?.generation ?? generation.value + 1, loadedAt: Date.now() };
+  console.log(`[Cache] Invalidated, generation=${generation.value}`);
+}
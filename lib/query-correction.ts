@@ -0,0 +1,134 @@
+/**
+ * Query Correction - "Bedoelde je: Kokeshi dolls?"
+ *
+ * Words the rule parser could not classify are compared with the catalog
+ * vocabulary (artists, brand aliases, product types, themes, synonyms and
+ * theme expansions) by edit distance: "kokesi" → Kokeshi dolls, "klimpt" →
+ * Gustav Klimt, "forcino" → Guillermo Forchino beelden. Windows of up to
+ * three words are tried first, so "vann gogh" becomes Vincent van Gogh.
+ *
+ * A correction is only made when it is unambiguous: one vocabulary entry
+ * (or several for the same name) at the smallest distance, within
+ * maxTypos, starting with the same letter. Longer or shorter word forms
+ * ("moderne", "hondje") are left to the search itself. The search then
+ * runs on the corrected query; the response reports it so the shopper can
+ * search for the original instead.
+ */
+
+import { getCatalogMetadata, type CatalogMetadata } from './catalog-metadata';
+import { editDistance, maxTypos } from './fuzzy';
+import { normalizeText, parseQueryRules } from './query-parser';
+import { normalizeTerm } from './search-dictionaries';
+
+export interface QueryCorrection {
+  original: string;
+  corrected: string;                         // The query that was searched
+  changes: { from: string; to: string }[];   // Per corrected phrase ("kokesi" → "Kokeshi dolls")
+  message: string;                           // "Bedoelde je: Kokeshi dolls?"
+}
+
+interface VocabularyEntry {
+  term: string;                // Normalized
+  words: number;
+  display: string;             // What the phrase is replaced with
+}
+
+const MAX_WINDOW_WORDS = 3;
+
+let cachedVocabulary: { metadata: CatalogMetadata; entries: VocabularyEntry[] } | null = null;
+
+/**
+ * Correctable vocabulary of the current metadata snapshot (rebuilt after a reload)
+ */
+function getVocabulary(): VocabularyEntry[] {
+  const metadata = getCatalogMetadata();
+  if (cachedVocabulary?.metadata === metadata) return cachedVocabulary.entries;
+
+  const { dictionaries } = metadata;
+  const pairs: [string, string][] = [
+    ...metadata.brands.map(brand => [brand, brand] as [string, string]),
+    ...dictionaries.brandAliases,
+    ...metadata.productTypes.map(type => [type, type.toLowerCase()] as [string, string]),
+    ...metadata.popularThemes.map(theme => [theme, theme] as [string, string]),
+    ...[...dictionaries.synonyms.keys(), ...dictionaries.themeExpansions.keys()].map(word => [word, word] as [string, string])
+  ];
+
+  const entries = new Map<string, VocabularyEntry>();
+  for (const [phrase, display] of pairs) {
+    const term = normalizeTerm(phrase);
+    if (term && !entries.has(term)) {
+      entries.set(term, { term, words: term.split(' ').length, display });
+    }
+  }
+
+  cachedVocabulary = { metadata, entries: Array.from(entries.values()) };
+  return cachedVocabulary.entries;
+}
+
+/**
+ * The vocabulary entry a phrase is an unambiguous misspelling of, or null
+ */
+function closestEntry(phrase: string, words: number, vocabulary: VocabularyEntry[]): VocabularyEntry | null {
+  const allowed = maxTypos(phrase);
+  if (allowed === 0) return null;
+
+  let best: VocabularyEntry[] = [];
+  let bestDistance = allowed + 1;
+  for (const entry of vocabulary) {
+    if (entry.words !== words || entry.term[0] !== phrase[0]) continue;
+    const distance = editDistance(phrase, entry.term, Math.min(allowed, bestDistance));
+    if (distance === 0) return null;       // Known phrase, nothing to correct
+    if (distance > allowed) continue;
+    // Word forms ("moderne" → modern) are not typos
+    if (phrase.startsWith(entry.term) || entry.term.startsWith(phrase)) continue;
+    if (distance < bestDistance) {
+      best = [entry];
+      bestDistance = distance;
+    } else if (distance === bestDistance) {
+      best.push(entry);
+    }
+  }
+
+  const displays = new Set(best.map(entry => entry.display));
+  return displays.size === 1 ? best[0] : null;
+}
+
+/**
+ * Correct misspelled artists, types and themes in a query; null when
+ * every word was understood or no correction is certain enough
+ */
+export function correctQuery(query: string): QueryCorrection | null {
+  const { unparsedTokens } = parseQueryRules(query);
+  if (unparsedTokens.length === 0) return null;
+
+  const unknown = new Set(unparsedTokens);
+  const vocabulary = getVocabulary();
+  const tokens = normalizeText(query).split(/[^a-z0-9]+/).filter(Boolean);
+  const changes: { from: string; to: string }[] = [];
+
+  for (let i = 0; i < tokens.length;) {
+    let corrected = 0;
+    for (let size = Math.min(MAX_WINDOW_WORDS, tokens.length - i); size >= 1 && !corrected; size--) {
+      const window = tokens.slice(i, i + size);
+      if (!window.some(token => unknown.has(token))) continue;
+      const entry = closestEntry(window.join(' '), size, vocabulary);
+      if (entry) {
+        changes.push({ from: window.join(' '), to: entry.display });
+        corrected = size;
+      }
+    }
+    i += corrected || 1;
+  }
+
+  if (changes.length === 0) return null;
+
+  let corrected = normalizeText(query);
+  for (const { from, to } of changes) {
+    const pattern = from.split(' ').join('[^a-z0-9]+');
+    corrected = corrected.replace(new RegExp(`(^|[^a-z0-9])${pattern}(?=$|[^a-z0-9])`), (_match, before: string) => `${before}${to}`);
+  }
+  corrected = corrected.replace(/\s+/g, ' ').trim();
+
+  console.log(`[Correction] "${query}" → "${corrected}"`);
+  return { original: query, corrected, changes, message: `Bedoelde je: ${corrected}?` };
+}
@@ -0,0 +1,360 @@
+/**
+ * Rule-based Query Parser - Deterministic Dutch query → filters
+ *
+ * Extracts the same filter shape as the AI parser without any network call:
+ * - priceMin/priceMax: "onder 50 euro", "max €80", "tussen 20 en 50", "vanaf 30"
+ * - productType: types from data/product-types.json (plus plurals/diminutives)
+ * - artist: brand names and brand aliases (search dictionaries) via normalizeBrand
+ * - sizeCategory: klein/middel/groot hints
+ * - size/height/width in cm: "maximaal 30 cm hoog", "tussen 20 en 40 cm", "van 20 tot 40 cm"
+ * - recipient/occasion/interests: gift finder phrases (lib/gift-finder.ts)
+ * - keywords: themes plus dictionary synonyms and theme expansions
+ *   (expanded afterwards by applyDictionaries in lib/search-ai.ts)
+ *
+ * Used as a fast path (when every word is understood) and as the
+ * fallback when the LLM parser fails.
+ */
+
+import { getCatalogMetadata, normalizeBrand } from './catalog-metadata';
+import { extractGiftIntent, resolveGiftFields } from './gift-finder';
+import { emptyFilters, type SearchFilters } from './search-filters';
+import { removeIgnoredPhrases } from './search-dictionaries';
+
+export interface RuleParseResult {
+  filters: SearchFilters;
+  confidence: number;          // Share of meaningful words that were understood (0-1)
+  confident: boolean;          // True when the result can replace the LLM parser
+  unparsedTokens: string[];    // Words the rules could not classify
+}
+
+// Dutch notation: "1.250" and "1.250,50" have a thousands separator, "12,50" and "12.5" a decimal one
+const NUMBER = '(\\d{1,3}(?:\\.\\d{3})+(?:,\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)';
+const CURRENCY = '(?:euro|eur|€|,-)';
+const NOT_A_MEASURE = '(?!\\d|[.,]\\d|\\s*(?:cm|mm|centimeter|meter|m\\b))';
+
+const PRICE_RANGE_PATTERNS = [
+  new RegExp(`(?:tussen|van)\\s*€?\\s*${NUMBER}\\s*${CURRENCY}?\\s*(?:en|tot|-)\\s*€?\\s*${NUMBER}${NOT_A_MEASURE}\\s*${CURRENCY}?`, 'g'),
+  new RegExp(`€?\\s*${NUMBER}\\s*(?:-|tot)\\s*€?\\s*${NUMBER}\\s*${CURRENCY}`, 'g')
+];
+const PRICE_MAX_PATTERN = new RegExp(`(?:onder(?:\\s+de)?|max(?:imaal|imum)?\\.?|tot|minder\\s+dan|hoogstens|niet\\s+meer\\s+dan|beneden|budget(?:\\s+van)?|<)\\s*€?\\s*${NUMBER}${NOT_A_MEASURE}\\s*${CURRENCY}?`, 'g');
+const PRICE_MIN_PATTERN = new RegExp(`(?:boven|vanaf|min(?:imaal|imum)?\\.?|meer\\s+dan|minstens|>)\\s*€?\\s*${NUMBER}${NOT_A_MEASURE}\\s*${CURRENCY}?`, 'g');
+const PRICE_BARE_PATTERN = new RegExp(`€\\s*${NUMBER}|${NUMBER}\\s*(?:euro|eur|€|,-)`, 'g');
+
+const MEASURE_UNIT = '(cm|centimeter|mm|m)\\b';
+const MEASURE_AXIS = '(?:\\s*(hoog|breed))?';
+const APPROXIMATE_MARGIN = 0.2;   // "30 cm hoog" → 24-36 cm
+
+const MEASURE_RANGE_PATTERN = new RegExp(`\\b(?:tussen|van)\\s*${NUMBER}\\s*(?:en|-|tot)\\s*${NUMBER}\\s*${MEASURE_UNIT}${MEASURE_AXIS}`, 'g');
+const MEASURE_MAX_PATTERN = new RegExp(`(?:niet\\s+(hoger|breder|groter)\\s+dan|(lager|smaller|kleiner)\\s+dan|max(?:imaal|imum)?\\.?|hoogstens|tot|onder|<)\\s*${NUMBER}\\s*${MEASURE_UNIT}${MEASURE_AXIS}`, 'g');
+const MEASURE_MIN_PATTERN = new RegExp(`(?:(hoger|breder|groter)\\s+dan|min(?:imaal|imum)?\\.?|minstens|vanaf|boven|>)\\s*${NUMBER}\\s*${MEASURE_UNIT}${MEASURE_AXIS}`, 'g');
+const MEASURE_AXIS_FIRST_PATTERN = new RegExp(`(?:(maximale|max\\.?)|(minimale|min\\.?))?\\s*(hoogte|breedte)\\s*(?:van\\s*)?(?:(max(?:imaal)?\\.?|tot|hoogstens)|(min(?:imaal)?\\.?|vanaf|minstens))?\\s*${NUMBER}\\s*${MEASURE_UNIT}`, 'g');
+const MEASURE_BARE_PATTERN = new RegExp(`${NUMBER}\\s*${MEASURE_UNIT}${MEASURE_AXIS}`, 'g');
+
+type MeasureAxis = 'size' | 'height' | 'width';
+
+const MEASURE_FIELDS = {
+  size: { min: 'sizeMinCm', max: 'sizeMaxCm' },
+  height: { min: 'heightMinCm', max: 'heightMaxCm' },
+  width: { min: 'widthMinCm', max: 'widthMaxCm' }
+} as const;
+
+const AXIS_WORDS: Record<string, MeasureAxis> = {
+  'hoog': 'height', 'hoogte': 'height', 'hoger': 'height', 'lager': 'height',
+  'breed': 'width', 'breedte': 'width', 'breder': 'width', 'smaller': 'width',
+  'groter': 'size', 'kleiner': 'size'
+};
+
+/**
+ * Type aliases (plural, diminutive, English) → canonical product type
+ * Only types that exist in data/product-types.json are used.
+ */
+const TYPE_ALIASES: Record<string, string> = {
+  'beeld': 'Beeld', 'beelden': 'Beeld', 'beeldje': 'Beeld', 'beeldjes': 'Beeld',
+  'sculptuur': 'Beeld', 'sculpturen': 'Beeld', 'keramiek': 'Beeld', 'ballonhond': 'Beeld', 'statue': 'Beeld',
+  'schilderij': 'Schilderij', 'schilderijen': 'Schilderij', 'schilderijtje': 'Schilderij', 'canvas': 'Schilderij',
+  'vaas': 'Vaas', 'vazen': 'Vaas', 'vaasje': 'Vaas',
+  'mok': 'Mok', 'mokken': 'Mok', 'mokje': 'Mok', 'beker': 'Mok', 'bekers': 'Mok',
+  'schaal': 'Schaal', 'schalen': 'Schaal', 'schaaltje': 'Schaal',
+  'wandbord': 'Wandbord', 'wandborden': 'Wandbord',
+  'onderzetter': 'Onderzetters', 'onderzetters': 'Onderzetters',
+  'theelichthouder': 'Theelichthouder', 'theelichthouders': 'Theelichthouder',
+  'waxinelichthouder': 'Theelichthouder', 'kaarsenhouder': 'Theelichthouder'
+};
+
+/**
+ * Compound suffixes: "sportbeeld" → Beeld + keyword "sport"
+ */
+const TYPE_SUFFIXES = ['beeldje', 'beeld', 'schilderij', 'vaas', 'mok', 'schaal'];
+
+const SIZE_WORDS: Record<string, 'klein' | 'middel' | 'groot'> = {
+  'klein': 'klein', 'kleine': 'klein', 'kleintje': 'klein', 'mini': 'klein', 'compact': 'klein', 'bureau': 'klein',
+  'middel': 'middel', 'middelgroot': 'middel', 'gemiddeld': 'middel', 'normaal': 'middel', 'standaard': 'middel',
+  'groot': 'groot', 'grote': 'groot', 'fors': 'groot', 'forse': 'groot', 'ruim': 'groot', 'statement': 'groot'
+};
+
+/**
+ * Words that carry no search meaning in any query; shop-specific ones
+ * ("cadeau", "zus") are ignored entries in the search dictionaries
+ */
+const IGNORED_WORDS = new Set([
+  'een', 'de', 'het', 'en', 'of', 'met', 'voor', 'van', 'in', 'op', 'aan', 'bij', 'als', 'die', 'dat', 'er',
+  'mijn', 'je', 'jouw', 'ik', 'zoek', 'zoeken', 'graag', 'wil', 'iets', 'wat', 'heel', 'erg', 'echt', 'ook',
+  'euro', 'eur'
+]);
+
+/**
+ * Lowercase and strip diacritics ("Krabbé" → "krabbe")
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function toNumber(value: string): number {
+  const withoutThousands = /^\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?$/.test(value) ? value.replace(/\./g, '') : value;
+  return parseFloat(withoutThousands.replace(',', '.'));
+}
+
+function toCentimetres(value: string, unit: string): number {
+  const factor = unit === 'mm' ? 0.1 : unit === 'm' ? 100 : 1;
+  return Math.round(toNumber(value) * factor * 10) / 10;
+}
+
+/**
+ * Extract explicit measurements ("maximaal 30 cm hoog", "tussen 20 en 40 cm")
+ * and return the text with measurement phrases removed. Runs before price
+ * extraction so "max 30 cm" is never read as a budget. Ranges go first, so
+ * "van 20 tot 40 cm" keeps its minimum instead of becoming "tot 40 cm".
+ */
+function extractMeasurements(text: string, filters: SearchFilters): string {
+  const axisOf = (...words: (string | undefined)[]): MeasureAxis => {
+    const word = words.find(w => w && AXIS_WORDS[w]);
+    return word ? AXIS_WORDS[word] : 'size';
+  };
+  const setBound = (axis: MeasureAxis, bound: 'min' | 'max', value: number) => {
+    filters[MEASURE_FIELDS[axis][bound]] = value;
+  };
+  const setApproximate = (axis: MeasureAxis, value: number) => {
+    setBound(axis, 'min', Math.round(value * (1 - APPROXIMATE_MARGIN)));
+    setBound(axis, 'max', Math.round(value * (1 + APPROXIMATE_MARGIN)));
+  };
+
+  let rest = text;
+
+  rest = rest.replace(MEASURE_RANGE_PATTERN, (_match, low: string, high: string, unit: string, axisWord?: string) => {
+    const [min, max] = [toCentimetres(low, unit), toCentimetres(high, unit)].sort((a, b) => a - b);
+    setBound(axisOf(axisWord), 'min', min);
+    setBound(axisOf(axisWord), 'max', max);
+    return ' ';
+  });
+
+  rest = rest.replace(MEASURE_AXIS_FIRST_PATTERN, (_match, maxBefore?: string, minBefore?: string, axisWord?: string, maxAfter?: string, minAfter?: string, value = '', unit = '') => {
+    const axis = axisOf(axisWord);
+    const centimetres = toCentimetres(value, unit);
+    if (maxBefore || maxAfter) setBound(axis, 'max', centimetres);
+    else if (minBefore || minAfter) setBound(axis, 'min', centimetres);
+    else setApproximate(axis, centimetres);
+    return ' ';
+  });
+
+  rest = rest.replace(MEASURE_MAX_PATTERN, (_match, notWord?: string, lessWord?: string, value = '', unit = '', axisWord?: string) => {
+    setBound(axisOf(axisWord, notWord, lessWord), 'max', toCentimetres(value, unit));
+    return ' ';
+  });
+
+  rest = rest.replace(MEASURE_MIN_PATTERN, (_match, moreWord?: string, value = '', unit = '', axisWord?: string) => {
+    setBound(axisOf(axisWord, moreWord), 'min', toCentimetres(value, unit));
+    return ' ';
+  });
+
+  rest = rest.replace(MEASURE_BARE_PATTERN, (_match, value: string, unit: string, axisWord?: string) => {
+    setApproximate(axisOf(axisWord), toCentimetres(value, unit));
+    return ' ';
+  });
+
+  return rest;
+}
+
+/**
+ * Extract price range and return the text with price phrases removed
+ */
+function extractPrice(text: string, filters: SearchFilters): string {
+  let rest = text;
+
+  for (const pattern of PRICE_RANGE_PATTERNS) {
+    rest = rest.replace(pattern, (_match, low: string, high: string) => {
+      const [min, max] = [toNumber(low), toNumber(high)].sort((a, b) => a - b);
+      filters.priceMin = min;
+      filters.priceMax = max;
+      return ' ';
+    });
+  }
+
+  rest = rest.replace(PRICE_MAX_PATTERN, (_match, value: string) => {
+    filters.priceMax = toNumber(value);
+    return ' ';
+  });
+
+  rest = rest.replace(PRICE_MIN_PATTERN, (_match, value: string) => {
+    filters.priceMin = toNumber(value);
+    return ' ';
+  });
+
+  // A bare amount ("€50", "50 euro") is treated as the budget
+  rest = rest.replace(PRICE_BARE_PATTERN, (_match, euroValue: string, suffixValue: string) => {
+    if (!filters.priceMax) {
+      filters.priceMax = toNumber(euroValue || suffixValue);
+    }
+    return ' ';
+  });
+
+  return rest;
+}
+
+/**
+ * Find an artist in the query, preferring the longest matching phrase
+ * Returns the canonical brand and the tokens it consumed
+ */
+function extractArtist(tokens: string[], brands: string[]): { artist: string; used: Set<number> } | null {
+  const brandByName = new Map(brands.map(b => [normalizeText(b).trim(), b.trim()]));
+
+  for (let size = Math.min(4, tokens.length); size >= 1; size--) {
+    for (let i = 0; i + size <= tokens.length; i++) {
+      const phrase = tokens.slice(i, i + size).join(' ');
+      const normalized = normalizeBrand(phrase);
+      const artist = normalized !== phrase ? normalized : brandByName.get(phrase);
+      if (artist) {
+        const used = new Set<number>();
+        for (let j = i; j < i + size; j++) used.add(j);
+        return { artist, used };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a query with deterministic rules
+ */
+export function parseQueryRules(query: string): RuleParseResult {
+  const metadata = getCatalogMetadata();
+  const filters = emptyFilters();
+
+  const validTypes = new Map(metadata.productTypes.map(t => [t.toLowerCase(), t]));
+  const { dictionaries } = metadata;
+  const themes = new Set([
+    ...metadata.popularThemes.map(t => normalizeText(t)),
+    ...dictionaries.synonyms.keys(),
+    ...dictionaries.themeExpansions.keys()
+  ]);
+  const isIgnored = (word: string) => IGNORED_WORDS.has(word) || dictionaries.ignored.has(word);
+
+  const withoutGift = extractGiftIntent(normalizeText(query), filters);
+  const text = extractPrice(extractMeasurements(removeIgnoredPhrases(withoutGift, dictionaries), filters), filters);
+  const tokens = tokenize(text);
+  const used = new Set<number>();
+  const keywords: string[] = [];
+
+  const artistMatch = extractArtist(tokens, metadata.brands);
+  if (artistMatch) {
+    filters.artist = artistMatch.artist;
+    artistMatch.used.forEach(i => used.add(i));
+  }
+
+  const resolveType = (word: string): string | null => {
+    const type = TYPE_ALIASES[word] || validTypes.get(word);
+    return type && validTypes.has(type.toLowerCase()) ? type : null;
+  };
+
+  tokens.forEach((token, i) => {
+    if (used.has(i)) return;
+
+    const type = resolveType(token);
+    if (type) {
+      filters.productType = filters.productType || type;
+      used.add(i);
+      return;
+    }
+
+    if (SIZE_WORDS[token]) {
+      filters.sizeCategory = filters.sizeCategory || SIZE_WORDS[token];
+      used.add(i);
+      return;
+    }
+
+    if (themes.has(token)) {
+      keywords.push(token);
+      used.add(i);
+      return;
+    }
+
+    // Compound words: "sportbeeld", "bloemenvaas", "kattenmok"
+    for (const suffix of TYPE_SUFFIXES) {
+      const prefix = token.slice(0, -suffix.length);
+      if (token.endsWith(suffix) && prefix.length >= 3) {
+        const compoundType = resolveType(suffix);
+        const theme = themes.has(prefix) ? prefix : themes.has(prefix.replace(/s$/, '')) ? prefix.replace(/s$/, '') : null;
+        if (compoundType && theme) {
+          filters.productType = filters.productType || compoundType;
+          keywords.push(theme);
+          used.add(i);
+          return;
+        }
+      }
+    }
+
+    if (isIgnored(token) || /^\d+$/.test(token)) {
+      used.add(i);
+    }
+  });
+
+  filters.keywords = Array.from(new Set(keywords));
+
+  const unparsedTokens = tokens.filter((_, i) => !used.has(i));
+  const meaningful = tokens.filter(t => !isIgnored(t)).length;
+  const confidence = meaningful === 0 ? 1 : 1 - unparsedTokens.length / meaningful;
+
+  return {
+    filters,
+    confidence,
+    confident: unparsedTokens.length === 0,
+    unparsedTokens
+  };
+}
+
+/**
+ * Merge rule-based and LLM filters
+ * Rules win for prices, measurements and gift finder phrases (exact), the LLM wins for type
+ * and artist when it returned a value, and keywords and interests are combined (LLM adds synonyms).
+ */
+export function mergeFilters(llm: SearchFilters, rules: SearchFilters): SearchFilters {
+  const metadata = getCatalogMetadata();
+  const llmType = llm.productType && metadata.productTypes.includes(llm.productType) ? llm.productType : null;
+  const llmGift = resolveGiftFields(llm);
+
+  return {
+    priceMin: rules.priceMin ?? llm.priceMin ?? null,
+    priceMax: rules.priceMax ?? llm.priceMax ?? null,
+    productType: llmType || rules.productType || null,
+    artist: llm.artist || rules.artist || null,
+    sizeCategory: llm.sizeCategory || rules.sizeCategory || null,
+    sizeMinCm: rules.sizeMinCm ?? llm.sizeMinCm ?? null,
+    sizeMaxCm: rules.sizeMaxCm ?? llm.sizeMaxCm ?? null,
+    heightMinCm: rules.heightMinCm ?? llm.heightMinCm ?? null,
+    heightMaxCm: rules.heightMaxCm ?? llm.heightMaxCm ?? null,
+    widthMinCm: rules.widthMinCm ?? llm.widthMinCm ?? null,
+    widthMaxCm: rules.widthMaxCm ?? llm.widthMaxCm ?? null,
+    recipient: rules.recipient || llmGift.recipient,
+    occasion: rules.occasion || llmGift.occasion,
+    interests: Array.from(new Set([...rules.interests, ...llmGift.interests])),
+    keywords: Array.from(new Set([...(llm.keywords || []), ...rules.keywords])),
+    requiresExactMatch: llm.requiresExactMatch || false
+  };
+}
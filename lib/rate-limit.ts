@@ -0,0 +1,164 @@
+/**
+ * Rate Limiting - Token buckets per client IP and per API key
+ *
+ * A bucket holds up to `capacity` tokens and refills at `refillPerSecond`;
+ * every request takes one. Buckets live in a pluggable store:
+ *   memory   → per instance (default; limits multiply with the instance count)
+ *   postgres → shared by all instances (schema/021_abuse_protection.sql)
+ *   off      → no limiting
+ *
+ * A store failure lets the request through: the limiter never breaks search.
+ */
+
+import { sql, type QueryClient } from './db';
+
+export interface BucketLimit {
+  capacity: number;          // Burst size
+  refillPerSecond: number;   // Sustained rate
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  name: string;
+  take(key: string, limit: BucketLimit): Promise<RateLimitResult>;
+}
+
+const MEMORY_MAX_BUCKETS = 10_000;
+const POSTGRES_PRUNE_PROBABILITY = 0.01;
+
+/**
+ * Anonymous callers, per IP: RATE_LIMIT_PER_MINUTE sustained, RATE_LIMIT_BURST at once
+ */
+export function ipLimit(): BucketLimit {
+  const perMinute = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+  return { capacity: Number(process.env.RATE_LIMIT_BURST) || 10, refillPerSecond: perMinute / 60 };
+}
+
+/**
+ * Type-ahead (/api/suggest), per IP: one request per keystroke, so a separate and larger bucket
+ */
+export function suggestLimit(): BucketLimit {
+  const perMinute = Number(process.env.SUGGEST_RATE_LIMIT_PER_MINUTE) || 300;
+  return { capacity: Math.max(1, Math.round(perMinute / 4)), refillPerSecond: perMinute / 60 };
+}
+
+/**
+ * Partner API keys: their own requests per minute, bursting up to a full minute
+ */
+export function keyLimit(requestsPerMinute: number): BucketLimit {
+  return { capacity: requestsPerMinute, refillPerSecond: requestsPerMinute / 60 };
+}
+
+function result(tokens: number, allowed: boolean, limit: BucketLimit): RateLimitResult {
+  return {
+    allowed,
+    remaining: Math.max(0, Math.floor(tokens)),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / limit.refillPerSecond))
+  };
+}
+
+/**
+ * In-process buckets (oldest bucket evicted beyond MEMORY_MAX_BUCKETS)
+ */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    name: 'memory',
+    async take(key, limit) {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+      const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+      const tokens = bucket ? Math.min(limit.capacity, bucket.tokens + elapsed * limit.refillPerSecond) : limit.capacity;
+      const allowed = tokens >= 1;
+      const left = allowed ? tokens - 1 : tokens;
+
+      buckets.delete(key);
+      buckets.set(key, { tokens: left, updatedAt: now });
+      if (buckets.size > MEMORY_MAX_BUCKETS) {
+        buckets.delete(buckets.keys().next().value as string);
+      }
+      return result(left, allowed, limit);
+    }
+  };
+}
+
+/**
+ * Shared buckets in rate_limit_buckets (refill and take in one atomic upsert)
+ */
+export function createPostgresStore(db: QueryClient = sql): RateLimitStore {
+  return {
+    name: 'postgres',
+    async take(key, limit) {
+      const { rows } = await db.query(`
+        INSERT INTO rate_limit_buckets AS b (key, tokens, allowed, updated_at)
+        VALUES ($1, $2::float8 - 1, true, NOW())
+        ON CONFLICT (key) DO UPDATE SET
+          tokens = LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM NOW() - b.updated_at)::float8 * $3::float8)
+                   - CASE WHEN LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM NOW() - b.updated_at)::float8 * $3::float8) >= 1 THEN 1 ELSE 0 END,
+          allowed = LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM NOW() - b.updated_at)::float8 * $3::float8) >= 1,
+          updated_at = NOW()
+        RETURNING tokens, allowed
+      `, [key, limit.capacity, limit.refillPerSecond]);
+
+      // Full buckets are indistinguishable from missing ones, so idle rows can go
+      if (Math.random() < POSTGRES_PRUNE_PROBABILITY) {
+        db.query(`DELETE FROM rate_limit_buckets WHERE updated_at < NOW() - INTERVAL '1 day'`).catch((error: any) => {
+          console.warn('[RateLimit] Pruning buckets failed:', error.message);
+        });
+      }
+      return result(Number(rows[0].tokens), rows[0].allowed, limit);
+    }
+  };
+}
+
+let cachedStore: RateLimitStore | null | undefined;
+
+/**
+ * Get the configured store (resolved once per process); null when disabled
+ */
+export function getRateLimitStore(): RateLimitStore | null {
+  if (cachedStore !== undefined) {
+    return cachedStore;
+  }
+
+  const name = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase().trim();
+  switch (name) {
+    case 'memory':
+      cachedStore = createMemoryStore();
+      break;
+    case 'postgres':
+      cachedStore = createPostgresStore();
+      break;
+    case 'off':
+      cachedStore = null;
+      break;
+    default:
+      throw new Error(`Unknown rate limit store "${name}"; use memory, postgres or off`);
+  }
+
+  console.log(`[RateLimit] store=${cachedStore?.name ?? 'off'}`);
+  return cachedStore;
+}
+
+/**
+ * Take a token from a bucket; always allowed when limiting is off or the store fails
+ */
+export async function takeToken(key: string, limit: BucketLimit): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  if (!store) {
+    return { allowed: true, remaining: limit.capacity, retryAfterSeconds: 0 };
+  }
+
+  try {
+    return await store.take(key, limit);
+  } catch (error: any) {
+    console.warn(`[RateLimit] ${store.name} store failed, allowing request:`, error.message);
+    return { allowed: true, remaining: limit.capacity, retryAfterSeconds: 0 };
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Refinement - Multi-turn filter updates ("kat beeld" → "iets goedkoper")
+ *
+ * A session keeps the active filters of the previous turn. A follow-up
+ * utterance is turned into the next filter state (same SearchFilters
+ * schema), either by the rules below or by the LLM refine prompt, and the
+ * difference is reported as a diff. Active filters are also exposed as
+ * removable chips for the client.
+ */
+
+import { z } from 'zod';
+import { getCatalogMetadata } from './catalog-metadata';
+import { giftLabel, giftThemes } from './gift-finder';
+import { normalizeText, parseQueryRules } from './query-parser';
+import { emptyFilters, hasSizeFilter, type SearchFilters } from './search-filters';
+
+export const PRICE_STEP = 0.25;   // "goedkoper"/"duurder" move the price by 25%
+
+export interface PriceRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface FilterChange {
+  field: keyof SearchFilters;
+  action: 'set' | 'change' | 'remove' | 'add';
+  from?: unknown;
+  to?: unknown;
+}
+
+export const chipFieldSchema = z.enum(['productType', 'artist', 'price', 'size', 'recipient', 'occasion', 'interests', 'keywords']);
+
+export type ChipField = z.infer<typeof chipFieldSchema>;
+
+/**
+ * Chip removal sent by the client ({ field: 'keywords', value: 'blauw' })
+ */
+export const chipRemovalSchema = z.object({
+  field: chipFieldSchema,
+  value: z.string().optional()
+});
+
+export type ChipRemoval = z.infer<typeof chipRemovalSchema>;
+
+export interface FilterChip {
+  field: ChipField;
+  value: string;
+  label: string;
+}
+
+export interface RuleRefineResult {
+  filters: SearchFilters;
+  confident: boolean;          // Every word of the utterance was understood
+}
+
+const SIZE_ORDER = ['klein', 'middel', 'groot'] as const;
+
+/**
+ * Words that mark an utterance as a follow-up rather than a new search
+ */
+const REFINEMENT_CUES = new Set([
+  'en', 'maar', 'dan', 'liever', 'toch', 'nog', 'ook', 'alleen', 'zonder', 'niet', 'geen', 'andere', 'ander',
+  'goedkoper', 'duurder', 'groter', 'kleiner', 'minder', 'meer'
+]);
+
+/**
+ * Words consumed by refinement rules (never become keywords)
+ */
+const REFINEMENT_WORDS = new Set([
+  ...REFINEMENT_CUES, 'wat', 'iets', 'een', 'beetje', 'stuk', 'graag', 'kunstenaar', 'artiest', 'maakt', 'uit',
+  'welke', 'prijs', 'duur', 'maat', 'formaat', 'kleur', 'in', 'het', 'de', 'met', 'van'
+]);
+
+const CHEAPER = /\b(goedkoper|minder duur|lagere prijs)\b/;
+const MORE_EXPENSIVE = /\b(duurder|hogere prijs|luxer)\b/;
+const BIGGER = /\b(groter|grotere)\b/;
+const SMALLER = /\b(kleiner|kleinere)\b/;
+const ANY_ARTIST = /\b(andere (kunstenaar|artiest|ontwerper)s?|maakt (de )?(kunstenaar|artiest) niet uit|(alle|elke) (kunstenaar|artiest)s?)\b/;
+const ANY_SIZE = /\b(maakt (de )?(maat|grootte) niet uit|(alle|elke) (maat|formaat|maten))\b/;
+const ANY_PRICE = /\b(maakt (de )?prijs niet uit|prijs maakt niet uit)\b/;
+const WITHOUT = /\b(?:zonder|geen|niet)\s+([a-z0-9]+)/g;
+
+function tokenize(text: string): string[] {
+  return text.split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Does the utterance continue the previous search?
+ * "en dan in het blauw", "iets goedkoper", "zonder kat" → yes
+ * "vaas van klimt" → no (a complete new query)
+ */
+export function looksLikeRefinement(utterance: string): boolean {
+  const tokens = tokenize(normalizeText(utterance));
+  if (tokens.length === 0) return false;
+  if (REFINEMENT_CUES.has(tokens[0])) return true;
+  if (CHEAPER.test(tokens.join(' ')) || MORE_EXPENSIVE.test(tokens.join(' '))) return true;
+
+  // Short utterance without a product type ("in het blauw", "met een hond")
+  const parsed = parseQueryRules(utterance);
+  return !parsed.filters.productType && !parsed.filters.artist && tokens.length <= 4;
+}
+
+/**
+ * Apply a follow-up utterance to the previous filters with deterministic rules
+ * priceRange is the price range of the previous results (for "goedkoper"
+ * when no budget was given).
+ */
+export function refineFiltersRules(previous: SearchFilters, utterance: string, priceRange?: PriceRange | null): RuleRefineResult {
+  const text = normalizeText(utterance);
+  const filters: SearchFilters = { ...emptyFilters(), ...previous, interests: [...(previous.interests || [])], keywords: [...(previous.keywords || [])] };
+  const removed = new Set<string>();
+
+  // Relative price changes
+  if (CHEAPER.test(text)) {
+    const base = previous.priceMax ?? priceRange?.max ?? null;
+    if (base) {
+      filters.priceMax = Math.floor(base * (1 - PRICE_STEP));
+      if (filters.priceMin && filters.priceMin > filters.priceMax) filters.priceMin = null;
+    }
+  } else if (MORE_EXPENSIVE.test(text)) {
+    const base = previous.priceMax ?? priceRange?.max ?? null;
+    if (base) {
+      filters.priceMin = Math.ceil(previous.priceMax ? previous.priceMax : base * (1 - PRICE_STEP));
+      filters.priceMax = null;
+    }
+  }
+
+  // Relative size changes (one size class up/down)
+  const sizeIndex = previous.sizeCategory ? SIZE_ORDER.indexOf(previous.sizeCategory) : -1;
+  if (BIGGER.test(text)) {
+    filters.sizeCategory = sizeIndex >= 0 ? SIZE_ORDER[Math.min(sizeIndex + 1, SIZE_ORDER.length - 1)] : 'groot';
+  } else if (SMALLER.test(text)) {
+    filters.sizeCategory = sizeIndex >= 0 ? SIZE_ORDER[Math.max(sizeIndex - 1, 0)] : 'klein';
+  }
+
+  // Dropping constraints
+  if (ANY_ARTIST.test(text)) filters.artist = null;
+  if (ANY_PRICE.test(text)) {
+    filters.priceMin = null;
+    filters.priceMax = null;
+  }
+  if (ANY_SIZE.test(text)) {
+    Object.assign(filters, clearSize());
+  }
+  for (const match of text.matchAll(WITHOUT)) {
+    const word = match[1];
+    // "zonder kat" also drops the synonyms the dictionaries added ("poes", "cat")
+    const group = getCatalogMetadata().dictionaries.synonyms.get(word) ?? [word];
+    group.forEach(w => removed.add(w));
+    filters.keywords = filters.keywords.filter(k => !group.includes(normalizeText(k)));
+    filters.interests = filters.interests.filter(i => i !== word);
+    if (filters.artist && normalizeText(filters.artist).includes(word)) filters.artist = null;
+    if (filters.productType && normalizeText(filters.productType) === word) filters.productType = null;
+  }
+
+  // Absolute values in the utterance override ("onder 40 euro", "een vaas", "van Klimt", "voor mijn moeder")
+  const parsed = parseQueryRules(utterance);
+  const explicit = parsed.filters;
+  const override = <K extends keyof SearchFilters>(field: K) => {
+    if (explicit[field] !== null && explicit[field] !== undefined) {
+      filters[field] = explicit[field];
+    }
+  };
+  for (const field of ['priceMin', 'priceMax', 'productType', 'artist', 'sizeCategory', 'sizeMinCm', 'sizeMaxCm', 'heightMinCm', 'heightMaxCm', 'widthMinCm', 'widthMaxCm', 'recipient', 'occasion'] as const) {
+    override(field);
+  }
+  filters.interests = Array.from(new Set([...filters.interests, ...explicit.interests]));
+
+  // New subjects become keywords ("in het blauw" → blauw)
+  const leftovers = parsed.unparsedTokens.filter(t => !REFINEMENT_WORDS.has(t) && !removed.has(t) && !/^\d+$/.test(t));
+  filters.keywords = Array.from(new Set([...filters.keywords, ...explicit.keywords.filter(k => !removed.has(k)), ...leftovers]));
+
+  return {
+    filters,
+    // Unknown words were taken as keywords; an LLM can do better (synonyms, colours vs. subjects)
+    confident: leftovers.length === 0
+  };
+}
+
+function clearSize(): Partial<SearchFilters> {
+  return {
+    sizeCategory: null,
+    sizeMinCm: null,
+    sizeMaxCm: null,
+    heightMinCm: null,
+    heightMaxCm: null,
+    widthMinCm: null,
+    widthMaxCm: null
+  };
+}
+
+/**
+ * Field-by-field difference between two filter states
+ */
+export function diffFilters(previous: SearchFilters, next: SearchFilters): FilterChange[] {
+  const changes: FilterChange[] = [];
+
+  for (const field of Object.keys(next) as (keyof SearchFilters)[]) {
+    if (field === 'keywords' || field === 'interests' || field === 'requiresExactMatch') continue;
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (from === to) continue;
+    changes.push({ field, action: from === null ? 'set' : to === null ? 'remove' : 'change', from, to });
+  }
+
+  for (const field of ['interests', 'keywords'] as const) {
+    const before = new Set(previous[field] || []);
+    const after = new Set(next[field] || []);
+    for (const value of after) {
+      if (!before.has(value)) changes.push({ field, action: 'add', to: value });
+    }
+    for (const value of before) {
+      if (!after.has(value)) changes.push({ field, action: 'remove', from: value });
+    }
+  }
+
+  return changes;
+}
+
+function formatCm(value: number): string {
+  return `${String(value).replace('.', ',')} cm`;
+}
+
+/**
+ * Active filters as removable chips (Dutch labels)
+ */
+export function filterChips(filters: SearchFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  if (filters.productType) {
+    chips.push({ field: 'productType', value: filters.productType, label: filters.productType });
+  }
+  if (filters.artist) {
+    chips.push({ field: 'artist', value: filters.artist, label: filters.artist });
+  }
+  if (filters.priceMin && filters.priceMax) {
+    chips.push({ field: 'price', value: `${filters.priceMin}-${filters.priceMax}`, label: `€${filters.priceMin} - €${filters.priceMax}` });
+  } else if (filters.priceMax) {
+    chips.push({ field: 'price', value: `0-${filters.priceMax}`, label: `Tot €${filters.priceMax}` });
+  } else if (filters.priceMin) {
+    chips.push({ field: 'price', value: `${filters.priceMin}+`, label: `Vanaf €${filters.priceMin}` });
+  }
+  if (hasSizeFilter(filters)) {
+    const parts: string[] = [];
+    if (filters.sizeCategory) parts.push(filters.sizeCategory.charAt(0).toUpperCase() + filters.sizeCategory.slice(1));
+    if (filters.heightMinCm) parts.push(`min. ${formatCm(filters.heightMinCm)} hoog`);
+    if (filters.heightMaxCm) parts.push(`max. ${formatCm(filters.heightMaxCm)} hoog`);
+    if (filters.widthMinCm) parts.push(`min. ${formatCm(filters.widthMinCm)} breed`);
+    if (filters.widthMaxCm) parts.push(`max. ${formatCm(filters.widthMaxCm)} breed`);
+    if (filters.sizeMinCm) parts.push(`min. ${formatCm(filters.sizeMinCm)}`);
+    if (filters.sizeMaxCm) parts.push(`max. ${formatCm(filters.sizeMaxCm)}`);
+    chips.push({ field: 'size', value: 'size', label: parts.join(', ') });
+  }
+  if (filters.recipient) {
+    chips.push({ field: 'recipient', value: filters.recipient, label: `Voor ${giftLabel('recipient', filters.recipient).toLowerCase()}` });
+  }
+  if (filters.occasion) {
+    chips.push({ field: 'occasion', value: filters.occasion, label: giftLabel('occasion', filters.occasion) });
+  }
+  for (const interest of filters.interests || []) {
+    chips.push({ field: 'interests', value: interest, label: giftLabel('interests', interest) });
+  }
+  for (const keyword of filters.keywords || []) {
+    chips.push({ field: 'keywords', value: keyword, label: keyword });
+  }
+
+  return chips;
+}
+
+/**
+ * Remove chips from a filter state
+ */
+export function removeChips(filters: SearchFilters, chips: ChipRemoval[]): SearchFilters {
+  let next: SearchFilters = { ...filters, interests: [...(filters.interests || [])], keywords: [...(filters.keywords || [])] };
+
+  for (const chip of chips) {
+    switch (chip.field) {
+      case 'productType': next.productType = null; break;
+      case 'artist': next.artist = null; break;
+      case 'price': next.priceMin = null; next.priceMax = null; break;
+      case 'size': next = { ...next, ...clearSize() }; break;
+      case 'recipient': next.recipient = null; break;
+      case 'occasion': next.occasion = null; break;
+      case 'interests': next.interests = next.interests.filter(i => i !== chip.value); break;
+      case 'keywords': next.keywords = next.keywords.filter(k => k !== chip.value); break;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Text to embed for a session search (the filters, not the last utterance,
+ * describe what the shopper is looking for by now)
+ */
+export function filtersToText(filters: SearchFilters): string {
+  return [filters.productType, filters.artist, ...(filters.keywords || []), ...giftThemes(filters)].filter(Boolean).join(' ');
+}
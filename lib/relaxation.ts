@@ -0,0 +1,147 @@
+/**
+ * Relaxation Planner - Progressive filter relaxation for zero-result searches
+ *
+ * When a specific search ("klimt vaas onder 30 euro") finds nothing, the
+ * constraints are loosened one at a time, in a fixed order, each step on
+ * top of the previous ones:
+ *   1. drop-keywords   → keyword words (or gift finder themes) are no longer required
+ *   2. widen-price     → price range widened by PRICE_WIDEN_MARGIN
+ *   3. drop-size       → size class and cm filters removed
+ *   4. drop-artist     → artist filter removed
+ *   5. lower-threshold → similarity threshold lowered to the minimum
+ * The first step that finds results wins, and is reported in the response
+ * so advice and UI can explain the near-miss.
+ */
+
+import type { SearchFilters } from './search-filters';
+import { hasGiftIntent, hasSizeFilter } from './search-filters';
+
+export const PRICE_WIDEN_MARGIN = 0.25;   // 25% above priceMax / below priceMin
+
+export type RelaxationKind = 'drop-keywords' | 'widen-price' | 'drop-size' | 'drop-artist' | 'lower-threshold';
+
+/**
+ * The constraints a search runs with
+ */
+export interface SearchConstraints {
+  filters: SearchFilters;
+  threshold: number;
+  keywordFilter: boolean;
+}
+
+export interface RelaxationStep extends SearchConstraints {
+  kind: RelaxationKind;
+  applied: RelaxationKind[];   // This step and all before it
+}
+
+/**
+ * Relaxation that produced results (stored with the search context)
+ */
+export interface Relaxation {
+  applied: RelaxationKind[];
+  filters: SearchFilters;
+  threshold: number;
+  message: string;
+}
+
+/**
+ * Plan the relaxation steps for a search, in order
+ * Steps that don't apply (e.g. no artist to drop) are skipped.
+ */
+export function planRelaxations(start: SearchConstraints, minThreshold: number): RelaxationStep[] {
+  const steps: RelaxationStep[] = [];
+  let current = start;
+
+  const add = (kind: RelaxationKind, next: SearchConstraints) => {
+    current = next;
+    steps.push({ ...next, kind, applied: [...steps.map(s => s.kind), kind] });
+  };
+
+  if (current.keywordFilter && (current.filters.keywords?.length || hasGiftIntent(current.filters))) {
+    add('drop-keywords', { ...current, keywordFilter: false });
+  }
+
+  if (current.filters.priceMax || current.filters.priceMin) {
+    add('widen-price', {
+      ...current,
+      filters: {
+        ...current.filters,
+        priceMax: current.filters.priceMax ? Math.ceil(current.filters.priceMax * (1 + PRICE_WIDEN_MARGIN)) : current.filters.priceMax,
+        priceMin: current.filters.priceMin ? Math.floor(current.filters.priceMin * (1 - PRICE_WIDEN_MARGIN)) : current.filters.priceMin
+      }
+    });
+  }
+
+  if (hasSizeFilter(current.filters)) {
+    add('drop-size', {
+      ...current,
+      filters: {
+        ...current.filters,
+        sizeCategory: null,
+        sizeMinCm: null,
+        sizeMaxCm: null,
+        heightMinCm: null,
+        heightMaxCm: null,
+        widthMinCm: null,
+        widthMaxCm: null
+      }
+    });
+  }
+
+  if (current.filters.artist) {
+    add('drop-artist', { ...current, filters: { ...current.filters, artist: null } });
+  }
+
+  if (current.threshold > minThreshold) {
+    add('lower-threshold', { ...current, threshold: minThreshold });
+  }
+
+  return steps;
+}
+
+function formatEuro(value: number): string {
+  return `€${Number.isInteger(value) ? value : value.toFixed(2).replace('.', ',')}`;
+}
+
+/**
+ * Explain a relaxation in Dutch
+ * e.g. 'Geen exacte resultaten voor "klimt vaas onder 30 euro", wel deze vanaf €35.'
+ *
+ * priceRange is the price range of the relaxed results; the original search
+ * found nothing, so widened results lie outside the original price range.
+ */
+export function describeRelaxation(
+  query: string,
+  original: SearchFilters,
+  applied: RelaxationKind[],
+  priceRange: { min: number | null; max: number | null }
+): string {
+  const parts: string[] = [];
+
+  if (applied.includes('widen-price')) {
+    if (original.priceMax && priceRange.min !== null && priceRange.min > original.priceMax) {
+      parts.push(`vanaf ${formatEuro(priceRange.min)}`);
+    } else if (original.priceMin && priceRange.max !== null && priceRange.max < original.priceMin) {
+      parts.push(`tot ${formatEuro(priceRange.max)}`);
+    } else {
+      parts.push('in een iets ruimere prijsklasse');
+    }
+  }
+  if (applied.includes('drop-size')) {
+    parts.push('in een andere maat');
+  }
+  if (applied.includes('drop-artist') && original.artist) {
+    parts.push(`van andere kunstenaars dan ${original.artist}`);
+  }
+  if (applied.includes('lower-threshold')) {
+    parts.push('die er dicht bij in de buurt komen');
+  }
+
+  if (parts.length === 0) {
+    // Only the keyword filter was dropped
+    return `Geen exacte resultaten voor "${query}", wel deze verwante producten.`;
+  }
+
+  const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} en ${parts[parts.length - 1]}` : parts[0];
+  return `Geen exacte resultaten voor "${query}", wel deze ${list}.`;
+}
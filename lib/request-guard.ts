@@ -0,0 +1,81 @@
+/**
+ * Request Guard - Abuse protection for public endpoints
+ * (/api/search, /api/similar, /api/suggest, /api/analytics/events)
+ *
+ *   1. X-API-Key (optional): an unknown or disabled key is rejected (401)
+ *   2. Origin: browsers on other sites are rejected (403, see getAllowedOrigins)
+ *   3. Token bucket per API key, else per client IP (429 with Retry-After)
+ *
+ * Query length/charset checks belong to the request body and live in
+ * lib/search-pipeline.ts; the AI cost budget in lib/ai-budget.ts.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveApiKey, type ApiKey } from './api-keys';
+import { getClientIp, getOrigin, isOriginAllowed } from './http';
+import { ipLimit, keyLimit, takeToken, type BucketLimit } from './rate-limit';
+
+export interface GuardResult {
+  apiKey: ApiKey | null;
+  clientIp: string;
+}
+
+/**
+ * Separate buckets for an endpoint with its own traffic pattern (type-ahead)
+ */
+export interface GuardOptions {
+  scope?: string;            // Bucket prefix ("suggest" → suggest:ip:1.2.3.4)
+  ipLimit?: BucketLimit;     // Anonymous limit instead of ipLimit()
+}
+
+/**
+ * Look up the request's API key; undefined when none was sent
+ * A database failure is treated as no key, leaving the caller IP-limited.
+ */
+async function lookupApiKey(req: VercelRequest): Promise<ApiKey | null | undefined> {
+  const header = req.headers['x-api-key'];
+  const plain = typeof header === 'string' ? header.trim() : '';
+  if (!plain) {
+    return undefined;
+  }
+
+  try {
+    return await resolveApiKey(plain);
+  } catch (error: any) {
+    console.warn('[Guard] API key lookup failed, limiting by IP:', error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Run the checks; sends the error response and returns null when the request is refused
+ */
+export async function guardPublicRequest(req: VercelRequest, res: VercelResponse, options: GuardOptions = {}): Promise<GuardResult | null> {
+  const clientIp = getClientIp(req);
+  const apiKey = await lookupApiKey(req);
+
+  if (apiKey === null) {
+    res.status(401).json({ success: false, error: 'Invalid API key' });
+    return null;
+  }
+
+  const origin = getOrigin(req);
+  if (!apiKey && origin && !isOriginAllowed(origin)) {
+    console.log(`[Guard] Refused origin ${origin} (${clientIp})`);
+    res.status(403).json({ success: false, error: 'Origin not allowed' });
+    return null;
+  }
+
+  const bucket = `${options.scope ? `${options.scope}:` : ''}${apiKey ? `key:${apiKey.id}` : `ip:${clientIp}`}`;
+  const limit = await takeToken(bucket, apiKey ? keyLimit(apiKey.requestsPerMinute) : options.ipLimit ?? ipLimit());
+  res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+
+  if (!limit.allowed) {
+    console.log(`[Guard] Rate limited ${apiKey ? `key ${apiKey.keyPrefix}` : bucket}, retry in ${limit.retryAfterSeconds}s`);
+    res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+    res.status(429).json({ success: false, error: 'Too many requests, please try again later', retryAfter: limit.retryAfterSeconds });
+    return null;
+  }
+
+  return { apiKey: apiKey ?? null, clientIp };
+}
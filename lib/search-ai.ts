@@ -0,0 +1,215 @@
+/**
+ * Search AI Steps - Filters, embedding and advice for a search
+ *
+ * Each step goes through the query cache (lib/query-cache.ts) and the
+ * configured providers (lib/ai-providers.ts), and falls back to the
+ * deterministic rules/templates when a provider fails or the daily AI
+ * budget is spent (lib/ai-budget.ts; cache hits are free and still served).
+ */
+
+import { createHash } from 'crypto';
+import { isBudgetExhausted, metered } from './ai-budget';
+import { EMBEDDING_DIMENSIONS, getOfflineProviders, getSearchProviders, type AdviceGenerator } from './ai-providers';
+import { getCatalogMetadata } from './catalog-metadata';
+import { resolveGiftFields } from './gift-finder';
+import { cached, normalizeQueryKey, type CacheStatus } from './query-cache';
+import { mergeFilters, parseQueryRules } from './query-parser';
+import { refineFiltersRules } from './refinement';
+import { applyDictionaries } from './search-dictionaries';
+import type { SearchFilters } from './search-filters';
+import type { SearchSession } from './search-session';
+
+/**
+ * A spent budget is expected (one line); anything else is a provider failure
+ */
+function logFailure(step: string, error: any): void {
+  if (isBudgetExhausted(error)) {
+    console.warn(`[Budget] ${step}: ${error.message}, using rules`);
+  } else {
+    console.error(`${step} error:`, error);
+  }
+}
+
+/**
+ * Short, stable cache-key part for a filter state
+ * Keys are sorted and unset fields dropped, so equal filters hash equally
+ * whichever order the parser produced them in.
+ */
+function filtersKey(filters: SearchFilters): string {
+  const entries = Object.entries(filters)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha1').update(JSON.stringify(entries)).digest('hex').slice(0, 12);
+}
+
+/**
+ * Receives advice text as it is generated (streaming responses)
+ */
+export type AdviceTokenSink = (text: string) => void;
+
+/**
+ * One advice message through the cache and the budget
+ * With onToken, a streaming provider's deltas are passed on as they arrive;
+ * a cache hit, a non-streaming provider or the fallback arrive as one piece.
+ * Tokens already sent before a failure stay sent: the returned advice is
+ * the authoritative text.
+ */
+async function produceAdvice(
+  step: string,
+  keyParts: (string | number)[],
+  generate: (advisor: AdviceGenerator) => Promise<string>,
+  stream: (advisor: AdviceGenerator) => AsyncIterable<string> | undefined,
+  onToken?: AdviceTokenSink
+): Promise<{ advice: string; cache: CacheStatus }> {
+  let streamed = false;
+  let result: { advice: string; cache: CacheStatus };
+
+  try {
+    const { advisor } = getSearchProviders();
+    const tokens = onToken ? stream(advisor) : undefined;
+    const { value, cache } = await cached('advice', keyParts, () =>
+      metered(advisor.name, async () => {
+        if (!tokens) return generate(advisor);
+        let text = '';
+        for await (const token of tokens) {
+          text += token;
+          streamed = true;
+          onToken!(token);
+        }
+        return text;
+      })
+    );
+    result = { advice: value, cache };
+  } catch (error: any) {
+    logFailure(step, error);
+    // Fallback to deterministic template message (not cached)
+    result = { advice: await generate(getOfflineProviders().advisor), cache: 'miss' };
+  }
+
+  if (onToken && !streamed) {
+    onToken(result.advice);
+  }
+  return result;
+}
+
+/**
+ * Generate AI-powered conversational advice for search results
+ * Uses the configured advice provider (see lib/ai-providers.ts)
+ */
+export async function generateAdviceMessage(query: string, total: number, filters: SearchFilters, onToken?: AdviceTokenSink): Promise<{ advice: string; cache: CacheStatus }> {
+  return produceAdvice(
+    'generateAdviceMessage',
+    [normalizeQueryKey(query), total, filtersKey(filters)],
+    advisor => advisor.generateAdvice(query, total, filters),
+    advisor => advisor.streamAdvice?.(query, total, filters),
+    onToken
+  );
+}
+
+/**
+ * Generate AI-powered helpful message for vague/empty queries
+ * Guides users to provide more specific search terms
+ */
+export async function generateEmptyStateMessage(query: string, onToken?: AdviceTokenSink): Promise<{ advice: string; cache: CacheStatus }> {
+  return produceAdvice(
+    'generateEmptyStateMessage',
+    ['empty', normalizeQueryKey(query)],
+    advisor => advisor.generateEmptyState(query),
+    advisor => advisor.streamEmptyState?.(query),
+    onToken
+  );
+}
+
+/**
+ * Search dictionaries on top of any parser's output (not cached, so edits apply at once)
+ * A refinement only expands its new keywords: the session's keywords were
+ * expanded on their own turn, and one the shopper dropped stays dropped.
+ */
+function withDictionaries(filters: SearchFilters, previous?: SearchFilters): SearchFilters {
+  const keywords = filters.keywords || [];
+  const kept = keywords.filter(k => previous?.keywords?.includes(k));
+  const applied = applyDictionaries({ ...filters, keywords: keywords.filter(k => !kept.includes(k)) }, getCatalogMetadata().dictionaries);
+  return { ...applied, keywords: Array.from(new Set([...kept, ...applied.keywords])) };
+}
+
+/**
+ * Parse natural language query into structured filters
+ * Extracts: price range, product type, artist, keywords, match type
+ *
+ * Fast path: the rule-based parser understood every word → no LLM call.
+ * Otherwise the configured parser runs (or its cached result is used) and
+ * is merged with the rule result; on parser failure the rule result is used as-is.
+ * The search dictionaries are applied to the result in every case.
+ */
+export async function parseFilters(query: string): Promise<{ filters: SearchFilters; source: 'rules' | 'llm' | 'rules-fallback' | 'rules-budget'; cache: CacheStatus }> {
+  const rules = parseQueryRules(query);
+
+  if (rules.confident) {
+    return { filters: withDictionaries(rules.filters), source: 'rules', cache: 'skip' };
+  }
+
+  try {
+    const { parser } = getSearchProviders();
+    const { value, cache } = await cached('filters', [normalizeQueryKey(query)], () =>
+      metered(parser.name, () => parser.parse(query))
+    );
+    return { filters: withDictionaries(mergeFilters(value, rules.filters)), source: 'llm', cache };
+  } catch (error: any) {
+    logFailure('parseFilters', error);
+    // Fallback: deterministic rule-based filters on AI failure or spent budget
+    return { filters: withDictionaries(rules.filters), source: isBudgetExhausted(error) ? 'rules-budget' : 'rules-fallback', cache: 'miss' };
+  }
+}
+
+/**
+ * Apply a follow-up utterance to the session filters ("iets goedkoper")
+ * Rules first (relative price/size steps are exact); the configured parser's
+ * refine mode handles everything else, with prices/measurements from the rules.
+ */
+export async function refineFilters(session: SearchSession, utterance: string): Promise<{ filters: SearchFilters; source: string; cache: CacheStatus }> {
+  const rules = refineFiltersRules(session.filters, utterance, session.priceRange);
+
+  if (rules.confident) {
+    return { filters: withDictionaries(rules.filters, session.filters), source: 'rules-refine', cache: 'skip' };
+  }
+
+  try {
+    const { parser } = getSearchProviders();
+    const { value, cache } = await cached('filters', ['refine', filtersKey(session.filters), normalizeQueryKey(utterance)], () =>
+      metered(parser.name, () => parser.refine(session.filters, utterance))
+    );
+    const validType = value.productType && getCatalogMetadata().productTypes.includes(value.productType);
+    return {
+      filters: withDictionaries({
+        ...value,
+        ...resolveGiftFields(value),
+        productType: validType ? value.productType : rules.filters.productType,
+        priceMin: rules.filters.priceMin,
+        priceMax: rules.filters.priceMax,
+        sizeMinCm: rules.filters.sizeMinCm,
+        sizeMaxCm: rules.filters.sizeMaxCm,
+        heightMinCm: rules.filters.heightMinCm,
+        heightMaxCm: rules.filters.heightMaxCm,
+        widthMinCm: rules.filters.widthMinCm,
+        widthMaxCm: rules.filters.widthMaxCm,
+        keywords: value.keywords || []
+      }, session.filters),
+      source: 'llm-refine',
+      cache
+    };
+  } catch (error: any) {
+    logFailure('refineFilters', error);
+    return { filters: withDictionaries(rules.filters, session.filters), source: isBudgetExhausted(error) ? 'rules-budget' : 'rules-fallback', cache: 'miss' };
+  }
+}
+
+/**
+ * Embed the query (cached per embedder model and vector size)
+ */
+export async function embedQuery(query: string): Promise<{ embedding: number[]; cache: CacheStatus }> {
+  const { embedder } = getSearchProviders();
+  const { value, cache } = await cached('embedding', [embedder.name, embedder.model, EMBEDDING_DIMENSIONS, normalizeQueryKey(query)], () =>
+    embedder.embed(query)
+  );
+  return { embedding: value, cache };
+}
@@ -0,0 +1,59 @@
+/**
+ * Search Config - Tunable ranking parameters
+ *
+ * Similarity thresholds per query kind (see chooseSimilarityThreshold in
+ * lib/search-plan.ts). Kept here so the evaluation harness (eval/) can compare
+ * configurations in-process; production always runs the defaults.
+ */
+
+import { z } from 'zod';
+
+export const similarityThresholdsSchema = z.object({
+  vague: z.number().min(0).max(1),       // No filters at all ("cadeau voor mijn zus")
+  specific: z.number().min(0).max(1),    // Several filters combined
+  typeOnly: z.number().min(0).max(1),    // Only a product type ("mok", "vaas")
+  keywords: z.number().min(0).max(1)     // Only keywords ("dog", "kat"); also the relaxation floor
+});
+
+export type SimilarityThresholds = z.infer<typeof similarityThresholdsSchema>;
+
+export interface SearchConfig {
+  similarityThresholds: SimilarityThresholds;
+}
+
+export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  similarityThresholds: {
+    vague: 0.35,       // Moderate threshold for vague queries
+    specific: 0.22,    // Lower threshold for specific queries → semantic matches
+    typeOnly: 0.18,    // Even lower for type-only queries (e.g., "mok", "vaas")
+    keywords: 0.12     // Lowest for keyword searches (e.g., "dog", "kat")
+  }
+};
+
+/**
+ * Partial override, e.g. { "similarityThresholds": { "specific": 0.25 } }
+ */
+export const searchConfigOverrideSchema = z.object({
+  similarityThresholds: similarityThresholdsSchema.partial().optional()
+});
+
+export type SearchConfigOverride = z.infer<typeof searchConfigOverrideSchema>;
+
+let activeConfig: SearchConfig = DEFAULT_SEARCH_CONFIG;
+
+export function getSearchConfig(): SearchConfig {
+  return activeConfig;
+}
+
+/**
+ * Apply an override on top of the defaults (null restores the defaults)
+ */
+export function setSearchConfig(override: SearchConfigOverride | null): SearchConfig {
+  activeConfig = {
+    similarityThresholds: {
+      ...DEFAULT_SEARCH_CONFIG.similarityThresholds,
+      ...override?.similarityThresholds
+    }
+  };
+  return activeConfig;
+}
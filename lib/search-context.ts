@@ -0,0 +1,97 @@
+/**
+ * Search Context - Parsed filters + query embedding per search
+ *
+ * Stored under a searchId so follow-up requests (next page, other sort,
+ * facet changes) reuse them instead of calling the LLM and embedder again.
+ * Kept in Postgres (shared by all serverless instances) with a small
+ * per-process memory cache in front.
+ */
+
+import { sql } from './db';
+import type { Relaxation } from './relaxation';
+import type { SearchFilters } from './search-filters';
+
+export interface SearchContext {
+  id: string;
+  query: string;
+  filters: SearchFilters;
+  filterSource: string;
+  embedding: number[];
+  keywordFilter: boolean;      // False when the keyword filter was dropped by the relaxation planner
+  relaxation: Relaxation | null;
+}
+
+const CONTEXT_TTL_MINUTES = 60;
+const MEMORY_CACHE_SIZE = 200;
+const CLEANUP_PROBABILITY = 0.02;   // Share of saves that also purge expired rows
+
+const memoryCache = new Map<string, { context: SearchContext; expiresAt: number }>();
+
+function remember(context: SearchContext) {
+  if (memoryCache.size >= MEMORY_CACHE_SIZE) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest) memoryCache.delete(oldest);
+  }
+  memoryCache.set(context.id, { context, expiresAt: Date.now() + CONTEXT_TTL_MINUTES * 60_000 });
+}
+
+/**
+ * Persist a search context
+ */
+export async function saveSearchContext(context: SearchContext): Promise<void> {
+  remember(context);
+
+  await sql.query(
+    `INSERT INTO search_contexts (id, query, filters, filter_source, embedding, keyword_filter, relaxation)
+     VALUES ($1, $2, $3, $4, $5::vector, $6, $7)
+     ON CONFLICT (id) DO NOTHING`,
+    [
+      context.id,
+      context.query,
+      JSON.stringify(context.filters),
+      context.filterSource,
+      JSON.stringify(context.embedding),
+      context.keywordFilter,
+      context.relaxation ? JSON.stringify(context.relaxation) : null
+    ]
+  );
+
+  if (Math.random() < CLEANUP_PROBABILITY) {
+    await sql.query(`DELETE FROM search_contexts WHERE created_at < NOW() - INTERVAL '${CONTEXT_TTL_MINUTES} minutes'`);
+  }
+}
+
+/**
+ * Load a search context; returns null when unknown or expired
+ */
+export async function loadSearchContext(id: string): Promise<SearchContext | null> {
+  const cached = memoryCache.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.context;
+  }
+
+  const { rows } = await sql.query(
+    `SELECT id, query, filters, filter_source, embedding::text AS embedding, keyword_filter, relaxation
+     FROM search_contexts
+     WHERE id = $1 AND created_at > NOW() - INTERVAL '${CONTEXT_TTL_MINUTES} minutes'`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const row = rows[0];
+  const context: SearchContext = {
+    id: row.id,
+    query: row.query,
+    filters: row.filters,
+    filterSource: row.filter_source,
+    embedding: JSON.parse(row.embedding),
+    keywordFilter: row.keyword_filter,
+    relaxation: row.relaxation ?? null
+  };
+
+  remember(context);
+  return context;
+}
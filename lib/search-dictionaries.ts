@@ -0,0 +1,248 @@
+/**
+ * Search Dictionaries - Merchandiser-managed query vocabulary
+ *
+ * Four kinds of entries (schema/018_search_dictionaries.sql, seeded from
+ * data/search-dictionaries.json):
+ * - brand_alias:     "forchino" → "Guillermo Forchino beelden"
+ * - synonym:         "kat" + ["poes", "cat"]; any word of the group adds the others
+ * - theme_expansion: "huwelijkscadeau" → ["huwelijk", "trouwen"] (one way, replaces the term)
+ * - ignored:         "cadeau", "voor haar"; never a keyword or lexical term
+ *
+ * They are loaded with the catalog metadata (same version stamp and hot
+ * reload) and applied to the parsed filters after every parser, so results
+ * no longer depend on what the LLM makes of the prompt examples.
+ */
+
+import { z } from 'zod';
+import { sql, type QueryClient } from './db';
+import type { SearchFilters } from './search-filters';
+
+export const DICTIONARY_KINDS = ['brand_alias', 'synonym', 'theme_expansion', 'ignored'] as const;
+
+export type DictionaryKind = typeof DICTIONARY_KINDS[number];
+
+export interface DictionaryEntry {
+  kind: DictionaryKind;
+  term: string;
+  targets: string[];
+}
+
+export interface StoredDictionaryEntry extends DictionaryEntry {
+  id: number;
+  updatedAt: string;
+}
+
+export interface SearchDictionaries {
+  brandAliases: Map<string, string>;     // Normalized alias → exact brand name
+  synonyms: Map<string, string[]>;       // Every word of a group → the whole group
+  themeExpansions: Map<string, string[]>;
+  ignored: Set<string>;                  // Words and phrases
+}
+
+/**
+ * data/search-dictionaries.json
+ */
+export interface DictionaryFile {
+  brandAliases: Record<string, string>;
+  synonyms: string[][];
+  themeExpansions: Record<string, string[]>;
+  ignored: string[];
+}
+
+/**
+ * Lowercase, strip diacritics and collapse whitespace ("Krabbé" → "krabbe")
+ * Same normalization as the rule parser's tokens.
+ */
+export function normalizeTerm(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const term = z.string().trim().min(1).max(100);
+
+/**
+ * One entry as sent to /api/admin/dictionaries
+ * Brand aliases keep the exact brand spelling; everything else is normalized.
+ */
+export const dictionaryEntrySchema = z.object({
+  kind: z.enum(DICTIONARY_KINDS),
+  term: term.transform(normalizeTerm),
+  targets: z.array(term).max(20).default([])
+}).superRefine((entry, ctx) => {
+  const expected = entry.kind === 'brand_alias' ? 'exactly one brand'
+    : entry.kind === 'ignored' ? 'no targets'
+    : 'at least one target';
+  const valid = entry.kind === 'brand_alias' ? entry.targets.length === 1
+    : entry.kind === 'ignored' ? entry.targets.length === 0
+    : entry.targets.length > 0;
+  if (!valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targets'], message: `${entry.kind} needs ${expected}` });
+  }
+}).transform(entry => ({
+  ...entry,
+  targets: entry.kind === 'brand_alias' ? entry.targets : Array.from(new Set(entry.targets.map(normalizeTerm)))
+}));
+
+/**
+ * Entries from the seed file format
+ */
+export function entriesFromFile(file: DictionaryFile): DictionaryEntry[] {
+  return [
+    ...Object.entries(file.brandAliases).map(([alias, brand]) => ({ kind: 'brand_alias' as const, term: alias, targets: [brand] })),
+    ...file.synonyms.filter(group => group.length > 1).map(([head, ...rest]) => ({ kind: 'synonym' as const, term: head, targets: rest })),
+    ...Object.entries(file.themeExpansions).map(([theme, targets]) => ({ kind: 'theme_expansion' as const, term: theme, targets })),
+    ...file.ignored.map(word => ({ kind: 'ignored' as const, term: word, targets: [] }))
+  ];
+}
+
+/**
+ * Lookup structures for a set of entries
+ * A word in several synonym groups gets the union of those groups.
+ */
+export function buildDictionaries(entries: DictionaryEntry[]): SearchDictionaries {
+  const dictionaries: SearchDictionaries = {
+    brandAliases: new Map(),
+    synonyms: new Map(),
+    themeExpansions: new Map(),
+    ignored: new Set()
+  };
+
+  for (const entry of entries) {
+    const key = normalizeTerm(entry.term);
+    switch (entry.kind) {
+      case 'brand_alias':
+        dictionaries.brandAliases.set(key, entry.targets[0]);
+        break;
+      case 'theme_expansion':
+        dictionaries.themeExpansions.set(key, entry.targets.map(normalizeTerm));
+        break;
+      case 'ignored':
+        dictionaries.ignored.add(key);
+        break;
+      case 'synonym': {
+        const group = [key, ...entry.targets.map(normalizeTerm)];
+        for (const word of group) {
+          const known = dictionaries.synonyms.get(word) ?? [];
+          dictionaries.synonyms.set(word, Array.from(new Set([...known, ...group])));
+        }
+        break;
+      }
+    }
+  }
+
+  return dictionaries;
+}
+
+/**
+ * Remove ignored multi-word phrases ("voor haar") from normalized query text
+ * Single ignored words are left to the tokenizer.
+ */
+export function removeIgnoredPhrases(text: string, dictionaries: SearchDictionaries): string {
+  let rest = text;
+  for (const phrase of dictionaries.ignored) {
+    if (!phrase.includes(' ')) continue;
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+    rest = rest.replace(new RegExp(`(^|[^a-z0-9])${escaped}(?=$|[^a-z0-9])`, 'g'), '$1 ');
+  }
+  return rest;
+}
+
+/**
+ * Apply the dictionaries to parsed filters (deterministic, runs after every parser)
+ * - artist aliases → exact brand name; an alias among the keywords becomes the artist
+ * - ignored keywords are dropped, theme expansions replace their term,
+ *   synonym groups are added after the word that triggered them
+ */
+export function applyDictionaries(filters: SearchFilters, dictionaries: SearchDictionaries): SearchFilters {
+  let artist = filters.artist
+    ? dictionaries.brandAliases.get(normalizeTerm(filters.artist)) ?? filters.artist
+    : null;
+  const keywords: string[] = [];
+
+  for (const keyword of filters.keywords || []) {
+    const word = normalizeTerm(keyword);
+    if (!word || dictionaries.ignored.has(word)) continue;
+
+    const brand = dictionaries.brandAliases.get(word);
+    if (brand) {
+      artist = artist || brand;
+      continue;
+    }
+
+    // Keywords without an entry keep their spelling (full-text search sees the accents)
+    const expansion = dictionaries.themeExpansions.get(word);
+    for (const expanded of expansion ?? [word]) {
+      keywords.push(...(dictionaries.synonyms.get(expanded) ?? [expansion ? expanded : keyword]));
+    }
+  }
+
+  return { ...filters, artist, keywords: Array.from(new Set(keywords)) };
+}
+
+function rowToEntry(row: any): StoredDictionaryEntry {
+  return {
+    id: Number(row.id),
+    kind: row.kind,
+    term: row.term,
+    targets: row.targets ?? [],
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+/**
+ * All stored entries, optionally of one kind
+ */
+export async function listDictionaryEntries(kind?: DictionaryKind, db: QueryClient = sql): Promise<StoredDictionaryEntry[]> {
+  const { rows } = kind
+    ? await db.query('SELECT id, kind, term, targets, updated_at FROM search_dictionary_entries WHERE kind = $1 ORDER BY term', [kind])
+    : await db.query('SELECT id, kind, term, targets, updated_at FROM search_dictionary_entries ORDER BY kind, term');
+  return rows.map(rowToEntry);
+}
+
+/**
+ * Create an entry, or replace the targets of the entry with the same kind and term
+ */
+export async function saveDictionaryEntry(entry: DictionaryEntry, db: QueryClient = sql): Promise<StoredDictionaryEntry> {
+  const { rows } = await db.query(`
+    INSERT INTO search_dictionary_entries (kind, term, targets)
+    VALUES ($1, $2, $3::text[])
+    ON CONFLICT (kind, term) DO UPDATE SET targets = EXCLUDED.targets, updated_at = NOW()
+    RETURNING id, kind, term, targets, updated_at
+  `, [entry.kind, entry.term, entry.targets]);
+  return rowToEntry(rows[0]);
+}
+
+/**
+ * Update an entry by id (also renames it); null when it does not exist
+ */
+export async function updateDictionaryEntry(id: number, entry: DictionaryEntry, db: QueryClient = sql): Promise<StoredDictionaryEntry | null> {
+  const { rows } = await db.query(`
+    UPDATE search_dictionary_entries SET kind = $2, term = $3, targets = $4::text[], updated_at = NOW()
+    WHERE id = $1
+    RETURNING id, kind, term, targets, updated_at
+  `, [id, entry.kind, entry.term, entry.targets]);
+  return rows[0] ? rowToEntry(rows[0]) : null;
+}
+
+export async function deleteDictionaryEntry(id: number, db: QueryClient = sql): Promise<boolean> {
+  const { rows } = await db.query('DELETE FROM search_dictionary_entries WHERE id = $1 RETURNING id', [id]);
+  return rows.length > 0;
+}
+
+/**
+ * Insert seed entries; existing entries (merchandiser edits) are kept
+ */
+export async function insertDictionaryEntries(entries: DictionaryEntry[], db: QueryClient = sql): Promise<number> {
+  const { rows } = await db.query(`
+    INSERT INTO search_dictionary_entries (kind, term, targets)
+    SELECT kind, term, ARRAY(SELECT jsonb_array_elements_text(targets))
+    FROM jsonb_to_recordset($1::jsonb) AS e(kind TEXT, term TEXT, targets JSONB)
+    ON CONFLICT (kind, term) DO NOTHING
+    RETURNING id
+  `, [JSON.stringify(entries.map(e => ({ kind: e.kind, term: normalizeTerm(e.term), targets: e.targets })))]);
+  return rows.length;
+}
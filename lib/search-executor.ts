@@ -0,0 +1,120 @@
+/**
+ * Search Executor - Run the statements of a search plan
+ *
+ * Relevance pages fuse the vector and lexical retrievers with RRF
+ * (lib/hybrid-search.ts); other sort orders are a single sorted query.
+ * The query client defaults to lib/db.ts and can be swapped (e.g. a
+ * recording client in tests).
+ */
+
+import { sql, type QueryClient, type QueryResult } from './db';
+import { formatFacets, type FacetSelection, type Facets } from './facets';
+import { CANDIDATE_LIMIT, reciprocalRankFusion, RETRIEVER_WEIGHTS } from './hybrid-search';
+import type { SearchSort } from './pagination';
+import type { PriceRange } from './refinement';
+import type { SearchPlan } from './search-plan';
+import { buildCountQuery, buildFacetQuery, buildLexicalQuery, buildSortedPageQuery, buildVectorQuery } from './search-sql';
+import type { ProductVariant } from './variants';
+
+export interface MatchStats {
+  total: number;
+  priceRange: PriceRange;
+}
+
+/**
+ * Count all products the plan matches (true total, not just one page)
+ * Also returns their price range (used to explain relaxed searches)
+ */
+export async function countMatches(plan: SearchPlan, db: QueryClient = sql): Promise<MatchStats> {
+  const query = buildCountQuery(plan);
+  const { rows } = await db.query(query.text, query.params);
+  return {
+    total: parseInt(rows[0].total),
+    priceRange: {
+      min: rows[0].min_price !== null ? parseFloat(rows[0].min_price) : null,
+      max: rows[0].max_price !== null ? parseFloat(rows[0].max_price) : null
+    }
+  };
+}
+
+/**
+ * Run vector and lexical retrieval with the same filters and fuse them
+ * candidateLimit must cover the requested page (offset + limit).
+ */
+export async function runHybridSearch(plan: SearchPlan, candidateLimit: number, db: QueryClient = sql) {
+  const vectorQuery = buildVectorQuery(plan, candidateLimit);
+  const lexicalQuery = buildLexicalQuery(plan, candidateLimit);
+
+  const [vectorResult, lexicalResult] = await Promise.all([
+    db.query(vectorQuery.text, vectorQuery.params),
+    lexicalQuery ? db.query(lexicalQuery.text, lexicalQuery.params) : Promise.resolve<QueryResult>({ rows: [] })
+  ]);
+
+  return reciprocalRankFusion([
+    { rows: vectorResult.rows, weight: RETRIEVER_WEIGHTS.vector },
+    { rows: lexicalResult.rows, weight: RETRIEVER_WEIGHTS.lexical }
+  ]);
+}
+
+/**
+ * Fetch one page of matches in the requested sort order
+ * arrange: reorders the fused relevance candidates before the page is cut
+ * (merchandising pins and boosts, see lib/merchandising.ts)
+ */
+export async function fetchPage(
+  plan: SearchPlan,
+  sort: SearchSort,
+  offset: number,
+  limit: number,
+  arrange?: (candidates: any[]) => Promise<any[]>,
+  db: QueryClient = sql
+): Promise<any[]> {
+  if (sort === 'relevance') {
+    const candidates = await runHybridSearch(plan, Math.max(CANDIDATE_LIMIT, offset + limit), db);
+    const rows = arrange ? await arrange(candidates) : candidates;
+    return rows.slice(offset, offset + limit);
+  }
+
+  const query = buildSortedPageQuery(plan, sort, offset, limit);
+  const { rows } = await db.query(query.text, query.params);
+  return rows;
+}
+
+/**
+ * All variants of the given products (one query per page)
+ */
+export async function fetchVariants(productIds: number[], db: QueryClient = sql): Promise<Map<number, ProductVariant[]>> {
+  const variants = new Map<number, ProductVariant[]>();
+  if (productIds.length === 0) return variants;
+
+  const { rows } = await db.query(
+    `SELECT id, product_id, title, options, price, old_price, stock, is_default
+     FROM product_variants
+     WHERE product_id = ANY($1::bigint[])
+     ORDER BY sort_order NULLS LAST, id`,
+    [productIds]
+  );
+
+  for (const row of rows) {
+    const productId = Number(row.product_id);
+    variants.set(productId, [...(variants.get(productId) || []), {
+      id: Number(row.id),
+      title: row.title,
+      options: row.options || [],
+      price: parseFloat(row.price),
+      oldPrice: row.old_price !== null ? parseFloat(row.old_price) : null,
+      stock: row.stock,
+      isDefault: row.is_default
+    }]);
+  }
+  return variants;
+}
+
+/**
+ * Count facet values over everything the plan matches (disjunctive, see lib/facets.ts)
+ */
+export async function computeFacets(plan: SearchPlan, selection: FacetSelection, db: QueryClient = sql): Promise<Facets> {
+  const query = buildFacetQuery(plan);
+  const { rows } = await db.query(query.text, query.params);
+  return formatFacets(rows, selection);
+}
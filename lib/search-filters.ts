@@ -0,0 +1,75 @@
+/**
+ * Search Filters - Structured filter model for natural language queries
+ * Shared by every query parser (AI and deterministic) so they all
+ * produce exactly the same shape.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Zod schema for parsed search filters
+ * Also used as the structured output schema for LLM parsing
+ */
+export const searchFiltersSchema = z.object({
+  priceMin: z.number().optional().nullable(),
+  priceMax: z.number().optional().nullable(),
+  productType: z.string().optional().nullable().describe('Product type: Schilderij, Beeld, Vaas, Mok, Schaal, Wandbord, Onderzetters, Theelichthouder, Keramiek'),
+  artist: z.string().optional().nullable().describe('Artist/designer name if explicitly mentioned'),
+  sizeCategory: z.enum(['klein', 'middel', 'groot']).optional().nullable().describe('Size category: klein (<20cm), middel (20-40cm), groot (40cm+)'),
+  sizeMinCm: z.number().optional().nullable().describe('Minimum size in cm (largest dimension) when no axis is given'),
+  sizeMaxCm: z.number().optional().nullable().describe('Maximum size in cm (largest dimension) when no axis is given'),
+  heightMinCm: z.number().optional().nullable().describe('Minimum height in cm ("minimaal 30 cm hoog")'),
+  heightMaxCm: z.number().optional().nullable().describe('Maximum height in cm ("maximaal 30 cm hoog")'),
+  widthMinCm: z.number().optional().nullable().describe('Minimum width in cm ("minstens 50 cm breed")'),
+  widthMaxCm: z.number().optional().nullable().describe('Maximum width in cm ("niet breder dan 40 cm")'),
+  recipient: z.string().optional().nullable().describe('Who the gift is for, as a gift finder id (moeder, collega, zorgmedewerker)'),
+  occasion: z.string().optional().nullable().describe('Gift occasion, as a gift finder id (huwelijk, pensioen, geslaagd)'),
+  interests: z.array(z.string()).default([]).describe('Interests of the person receiving the gift, as gift finder ids (golf, tuin, muziek). Empty array if none.'),
+  keywords: z.array(z.string()).default([]).describe('Specific search terms (animals, colors, themes, objects). Empty array if none. DO NOT include artist names here.'),
+  requiresExactMatch: z.boolean().default(false).describe('True if searching for specific things that MUST be in title/description')
+});
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+
+/**
+ * Empty filter set (used when parsing fails or yields nothing)
+ */
+export function emptyFilters(): SearchFilters {
+  return {
+    priceMin: null,
+    priceMax: null,
+    productType: null,
+    artist: null,
+    sizeCategory: null,
+    sizeMinCm: null,
+    sizeMaxCm: null,
+    heightMinCm: null,
+    heightMaxCm: null,
+    widthMinCm: null,
+    widthMaxCm: null,
+    recipient: null,
+    occasion: null,
+    interests: [],
+    keywords: [],
+    requiresExactMatch: false
+  };
+}
+
+/**
+ * True if any size constraint is set (size class or explicit centimetres)
+ */
+export function hasSizeFilter(filters: SearchFilters): boolean {
+  return !!(
+    filters.sizeCategory ||
+    filters.sizeMinCm || filters.sizeMaxCm ||
+    filters.heightMinCm || filters.heightMaxCm ||
+    filters.widthMinCm || filters.widthMaxCm
+  );
+}
+
+/**
+ * True if the gift finder knows who the gift is for, the occasion or an interest
+ */
+export function hasGiftIntent(filters: SearchFilters): boolean {
+  return !!(filters.recipient || filters.occasion || filters.interests?.length);
+}
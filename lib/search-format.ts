@@ -0,0 +1,107 @@
+/**
+ * Search Format - Database rows → API product objects
+ */
+
+import { getCategoryName } from './catalog-metadata';
+import { selectMatchingVariant, type ProductVariant, type VariantMatch } from './variants';
+
+// Also the low_stock and popular attributes of merchandising rules (lib/merchandising.ts)
+export const POPULAR_SALES_THRESHOLD = 50;    // Products with 50+ sales are popular (top 5%)
+export const SCARCE_STOCK_THRESHOLD = 5;      // Products with stock <= 5 are scarce
+
+/**
+ * Format structured dimensions as a consistent Dutch label
+ * e.g. "30 × 20 × 10 cm (h × b × d)", "Ø 12 cm, hoogte 9 cm"
+ */
+export function formatDimensions(dims: { heightCm: number | null; widthCm: number | null; depthCm: number | null; diameterCm: number | null }): string | null {
+  const format = (value: number) => String(value).replace('.', ',');
+  const axes: [number | null, string][] = [[dims.heightCm, 'h'], [dims.widthCm, 'b'], [dims.depthCm, 'd']];
+  const present = axes.filter(([value]) => value !== null) as [number, string][];
+  const parts: string[] = [];
+
+  if (dims.diameterCm !== null) {
+    parts.push(`Ø ${format(dims.diameterCm)} cm`);
+  }
+
+  if (present.length === 1 && dims.heightCm !== null) {
+    parts.push(`hoogte ${format(dims.heightCm)} cm`);
+  } else if (present.length > 0) {
+    parts.push(`${present.map(([value]) => format(value)).join(' × ')} cm (${present.map(([, label]) => label).join(' × ')})`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Format database row into clean product object for API response
+ * Includes categories, popularity, sale status, dimensions, artist,
+ * the variant price range and the variant matching the search
+ */
+export function formatProduct(row: any, variants: ProductVariant[] = [], match: VariantMatch = { terms: [] }) {
+  const categoryIds = row.category_ids || [];
+  const categories = categoryIds.map((id: number) => ({
+    id,
+    name: getCategoryName(id)
+  }));
+  
+  const stockSold = row.stock_sold ? parseInt(row.stock_sold) : 0;
+  const stock = row.stock ? parseInt(row.stock) : null;
+  const isPopular = stockSold >= POPULAR_SALES_THRESHOLD;
+  const isScarce = stock !== null && stock > 0 && stock <= SCARCE_STOCK_THRESHOLD;
+  
+  const toCm = (value: any) => value !== null && value !== undefined ? parseFloat(value) : null;
+  const dimensionsCm = {
+    heightCm: toCm(row.height_cm),
+    widthCm: toCm(row.width_cm),
+    depthCm: toCm(row.depth_cm),
+    diameterCm: toCm(row.diameter_cm)
+  };
+  
+  // Price range over all variants ("vanaf €49"); null when every variant costs the same
+  const minPrice = row.min_price !== null && row.min_price !== undefined ? parseFloat(row.min_price) : null;
+  const maxPrice = row.max_price !== null && row.max_price !== undefined ? parseFloat(row.max_price) : null;
+  const priceRange = minPrice !== null && maxPrice !== null && minPrice < maxPrice ? { min: minPrice, max: maxPrice } : null;
+
+  const variant = selectMatchingVariant(variants, match);
+  const matchingVariant = variant ? {
+    id: variant.id,
+    title: variant.title,
+    options: variant.options,
+    price: variant.price,
+    oldPrice: variant.oldPrice,
+    onSale: variant.oldPrice !== null && variant.oldPrice > variant.price,
+    stock: variant.stock
+  } : null;
+
+  return {
+    id: row.id,
+    title: row.title,
+    fullTitle: row.full_title,
+    description: row.description,
+    url: row.url,
+    price: parseFloat(row.price),
+    oldPrice: row.old_price ? parseFloat(row.old_price) : null,
+    onSale: row.old_price && parseFloat(row.old_price) > parseFloat(row.price),
+    discount: row.old_price 
+      ? Math.round((1 - parseFloat(row.price) / parseFloat(row.old_price)) * 100) 
+      : 0,
+    priceRange,
+    variantCount: variants.length,
+    matchingVariant,
+    image: row.image,
+    type: row.type,
+    artist: row.artist || null,
+    dimensions: formatDimensions(dimensionsCm) || row.dimensions || null,
+    dimensionsCm,
+    stock,
+    stockSold,
+    isPopular,
+    isScarce,
+    categories,
+    similarity: row.similarity ? parseFloat(row.similarity) : null,
+    score: row.rrf_score ?? null,
+    pinned: row.pinned === true              // Placed by a merchandising rule
+  };
+}
+
+export type FormattedProduct = ReturnType<typeof formatProduct>;
@@ -0,0 +1,516 @@
+/**
+ * Search Pipeline - One search request from body to response
+ *
+ * Stages (each in its own module, usable without Vercel or OpenAI):
+ *   spell    → lib/query-correction.ts misspelled artists, types, themes ("Bedoelde je")
+ *   filters  → lib/search-ai.ts      parse / refine / embed (cached, with fallbacks)
+ *   gift     → lib/gift-finder.ts    answers and follow-up questions for gift queries
+ *   plan     → lib/search-plan.ts    filter conditions, threshold, lexical terms
+ *   SQL      → lib/search-sql.ts     parameterized statements (lib/sql-builder.ts)
+ *   execute  → lib/search-executor.ts count, page (RRF), facets
+ *   rules    → lib/merchandising.ts  hides, pins, boosts, redirects, campaigns
+ *   promo    → lib/promotions.ts     discount code shown with the results
+ *   format   → lib/search-format.ts  rows → products
+ *
+ * executeSearch returns the HTTP status and JSON body; api/search.ts only
+ * adds CORS, abuse protection and method handling. Streaming clients pass
+ * SearchEvents and get each stage as soon as it is known (lib/search-stream.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { facetSelectionSchema, type FacetSelection } from './facets';
+import { applyGiftAnswers, buildGiftQuestions, giftAnswerSchema, GIFT_FINDER_INTRO, type GiftAnswer, type GiftQuestion } from './gift-finder';
+import { clampPageSize, decodeCursor, encodeCursor, MAX_RELEVANCE_DEPTH, searchIdSchema, searchSortSchema, type SearchSort } from './pagination';
+import { loadSearchContext, saveSearchContext, type SearchContext } from './search-context';
+import { recordSearch } from './analytics';
+import { chipRemovalSchema, diffFilters, filterChips, filtersToText, looksLikeRefinement, removeChips, type FilterChange } from './refinement';
+import { loadSession, saveSession, type SearchSession, type TurnMode } from './search-session';
+import { describeRelaxation, planRelaxations, type Relaxation, type SearchConstraints } from './relaxation';
+import type { CacheNamespace, CacheStatus } from './query-cache';
+import { correctQuery, type QueryCorrection } from './query-correction';
+import { hasGiftIntent, type SearchFilters } from './search-filters';
+import { getSearchConfig } from './search-config';
+import { embedQuery, generateAdviceMessage, generateEmptyStateMessage, parseFilters, refineFilters, type AdviceTokenSink } from './search-ai';
+import { buildLexicalTerms, buildVariantMatch, chooseSimilarityThreshold, isVagueQuery, planSearch, type SearchPlan } from './search-plan';
+import { computeFacets, countMatches, fetchPage, fetchVariants } from './search-executor';
+import { formatProduct } from './search-format';
+import { refreshCatalogMetadata } from './catalog-metadata';
+import { arrangeCandidates, evaluateRules, hiddenProductsCondition, loadActiveRules, type MerchandisingOutcome } from './merchandising';
+import { loadActivePromotions, selectPromotion, toOffer, type PromotionOffer } from './promotions';
+import type { SqlCondition } from './sql-builder';
+
+/**
+ * Step timings (ms) and cache status per AI call, returned as query.took_ms
+ * parse/embed/advice are null for follow-up requests (reused search context)
+ */
+export interface SearchDiagnostics {
+  total: number;
+  parse: number | null;
+  embed: number | null;
+  search: number;
+  advice: number | null;
+  cache: Record<CacheNamespace, CacheStatus>;
+}
+
+export interface SearchOutcome {
+  status: number;
+  body: any;
+}
+
+/**
+ * Stage callbacks for streaming responses, in this order:
+ * filters → results (advice still null) → advice tokens.
+ * The returned SearchOutcome stays the complete response.
+ */
+export interface SearchEvents {
+  filters(payload: { searchId: string; session: any; query: any }): void;
+  results(payload: any): void;
+  adviceToken(text: string): void;
+}
+
+/**
+ * Validated paging input (cursor wins over explicit fields)
+ */
+interface PageRequest {
+  sort: SearchSort;
+  facetSelection: FacetSelection;
+  limit: number;
+  offset: number;
+  searchId: string | undefined;
+}
+
+interface SessionTurnState {
+  id: string;
+  mode: TurnMode;
+  previous: SearchSession | null;
+  diff: FilterChange[];
+}
+
+const MAX_QUERY_LENGTH = 200;
+// Letters (any script, with accents), digits, spaces and everyday punctuation
+const QUERY_CHARSET = /^[\p{L}\p{M}\p{N}\s.,!?'"‘’“”()\-\/&+%€$:;#*@]*$/u;
+
+/**
+ * Why a query is not accepted, or null (length, charset, at least one letter/digit)
+ */
+function checkQueryText(query: string): string | null {
+  if (query.length > MAX_QUERY_LENGTH) {
+    return `Query is longer than ${MAX_QUERY_LENGTH} characters`;
+  }
+  if (!QUERY_CHARSET.test(query)) {
+    return 'Query contains unsupported characters';
+  }
+  if (!/[\p{L}\p{N}]/u.test(query)) {
+    return 'Query needs at least one letter or digit';
+  }
+  return null;
+}
+
+function fail(status: number, error: string, details?: string): SearchOutcome {
+  return { status, body: details === undefined ? { success: false, error } : { success: false, error, details } };
+}
+
+/**
+ * Measure how long a step takes
+ */
+async function timed<T>(step: Promise<T>): Promise<[T, number]> {
+  const start = Date.now();
+  const value = await step;
+  return [value, Date.now() - start];
+}
+
+function resolvePageRequest(body: any): PageRequest | SearchOutcome {
+  const cursor = body.cursor ? decodeCursor(String(body.cursor)) : null;
+  if (body.cursor && !cursor) {
+    return fail(400, 'Invalid cursor');
+  }
+
+  const parsedSort = searchSortSchema.safeParse(cursor?.sort ?? body.sort ?? 'relevance');
+  const parsedFacets = facetSelectionSchema.safeParse(cursor?.facets ?? body.facets);
+  if (!parsedSort.success || !parsedFacets.success) {
+    return fail(400, 'Invalid sort or facet selection', (parsedSort.error || parsedFacets.error)?.message);
+  }
+
+  const sort = parsedSort.data;
+  const limit = clampPageSize(cursor?.limit ?? body.limit);
+  const offset = Math.max(0, parseInt(cursor?.offset ?? body.offset) || 0);
+  const searchId: string | undefined = cursor?.searchId ?? body.searchId;
+  if (searchId !== undefined && !searchIdSchema.safeParse(searchId).success) {
+    return fail(400, 'Invalid searchId');
+  }
+
+  if (sort === 'relevance' && offset + limit > MAX_RELEVANCE_DEPTH) {
+    return fail(400, `Relevance results are limited to the first ${MAX_RELEVANCE_DEPTH}`);
+  }
+
+  return { sort, facetSelection: parsedFacets.data, limit, offset, searchId };
+}
+
+/**
+ * Filters + embedding for a new query or session turn
+ * Chip removal, gift finder answers, refinement of the session filters, or
+ * a new parse. Answers sent along with a query apply to its parsed filters.
+ */
+async function understandQuery(body: any, diagnostics: SearchDiagnostics): Promise<{ context: SearchContext; session: SessionTurnState | null; correction: QueryCorrection | null } | SearchOutcome> {
+  const parsedRemove = z.array(chipRemovalSchema).optional().safeParse(body.remove);
+  const parsedAnswers = z.array(giftAnswerSchema).max(10).optional().safeParse(body.answers);
+  if (body.sessionId !== undefined && !searchIdSchema.safeParse(body.sessionId).success || !parsedRemove.success) {
+    return fail(400, 'Invalid sessionId or remove');
+  }
+  if (!parsedAnswers.success) {
+    return fail(400, 'Invalid answers', parsedAnswers.error.message);
+  }
+  const removals = parsedRemove.data ?? [];
+  const answers = (parsedAnswers.data ?? []) as GiftAnswer[];
+  const previousSession = body.sessionId ? await loadSession(body.sessionId) : null;
+
+  const { query: utterance } = body;
+  const hasUtterance = !!utterance && typeof utterance === 'string';
+  const answersOnly = answers.length > 0 && !hasUtterance;
+  if ((removals.length > 0 || answersOnly) && !previousSession) {
+    return fail(410, 'Session expired, please search again');
+  }
+
+  if (removals.length === 0 && !answersOnly && !hasUtterance) {
+    return fail(400, 'Query required');
+  }
+  const invalidQuery = typeof utterance === 'string' && utterance ? checkQueryText(utterance) : null;
+  if (invalidQuery) {
+    return fail(400, 'Invalid query', invalidQuery);
+  }
+
+  const lastQuery = previousSession?.turns.filter(t => t.query).slice(-1)[0]?.query || '';
+  const query: string = typeof utterance === 'string' && utterance ? utterance : lastQuery;
+
+  const mode: TurnMode = previousSession && removals.length > 0 ? 'remove'
+    : previousSession && answersOnly ? 'answer'
+    : previousSession && looksLikeRefinement(query) ? 'refine'
+    : 'new';
+
+  // New queries with a misspelled artist, type or theme search the correction (unless the shopper opted out)
+  const correction = mode === 'new' && body.correct !== false ? correctQuery(query) : null;
+  const searchQuery = correction?.corrected ?? query;
+
+  const turnFilters: Promise<{ filters: SearchFilters; source: string; cache: CacheStatus }> =
+    mode === 'remove' ? Promise.resolve({ filters: removeChips(previousSession!.filters, removals), source: 'session', cache: 'skip' })
+    : mode === 'answer' ? Promise.resolve({ filters: previousSession!.filters, source: 'session', cache: 'skip' })
+    : mode === 'refine' ? refineFilters(previousSession!, query)
+    : parseFilters(searchQuery);
+  const parseStep = timed(answers.length > 0
+    ? turnFilters.then(turn => ({ ...turn, filters: applyGiftAnswers(turn.filters, answers) }))
+    : turnFilters);
+
+  // New queries: parse and embed in parallel. Session turns embed the
+  // resulting filter state (what the shopper wants by now).
+  const embedStep = mode === 'new' && answers.length === 0
+    ? timed(embedQuery(searchQuery))
+    : parseStep.then(([turn]) => timed(embedQuery(filtersToText(turn.filters) || query)));
+  const [[turn, parseMs], [embedded, embedMs]] = await Promise.all([parseStep, embedStep]);
+
+  diagnostics.parse = parseMs;
+  diagnostics.embed = embedMs;
+  diagnostics.cache.filters = turn.cache;
+  diagnostics.cache.embedding = embedded.cache;
+
+  const context: SearchContext = {
+    id: randomUUID(),
+    query: searchQuery,
+    filters: turn.filters,
+    filterSource: turn.source,
+    embedding: embedded.embedding,
+    keywordFilter: true,
+    relaxation: null
+  };
+
+  // Multi-turn session (opt-in with sessionId or session: true); an expired sessionId starts a new one
+  const session = body.sessionId || body.session === true ? {
+    id: previousSession?.id ?? randomUUID(),
+    mode,
+    previous: previousSession,
+    diff: previousSession && mode !== 'new' ? diffFilters(previousSession.filters, turn.filters) : []
+  } : null;
+
+  return { context, session, correction };
+}
+
+/**
+ * Zero results → relax constraints step by step until something matches
+ */
+async function relax(context: SearchContext, constraints: SearchConstraints, lexicalQuery: string | null, facetSelection: FacetSelection, ruleConditions: SqlCondition[]) {
+  for (const step of planRelaxations(constraints, getSearchConfig().similarityThresholds.keywords)) {
+    const plan = planSearch(context.embedding, step, lexicalQuery, facetSelection, ruleConditions);
+    const stats = await countMatches(plan);
+    if (stats.total === 0) continue;
+
+    console.log(`[Relaxation] ${step.applied.join(' → ')} found ${stats.total} results`);
+    const relaxation: Relaxation = {
+      applied: step.applied,
+      filters: step.filters,
+      threshold: step.threshold,
+      message: describeRelaxation(context.query, context.filters, step.applied, stats.priceRange)
+    };
+    return { step, plan, stats, relaxation };
+  }
+  return null;
+}
+
+/**
+ * Relevance reordering for the fired rules (undefined when no rule pins or boosts)
+ */
+function arrangerFor(merchandising: MerchandisingOutcome) {
+  if (merchandising.pins.length === 0 && merchandising.adjustments.length === 0) return undefined;
+  return (candidates: any[]) => arrangeCandidates(candidates, merchandising);
+}
+
+/**
+ * A merchandising campaign's code wins over the scheduled promotions
+ * firstSearch: the widget had no earlier searchId for this shopper
+ */
+async function chooseDiscountCode(merchandising: MerchandisingOutcome, filters: SearchFilters, firstSearch: boolean): Promise<PromotionOffer | null> {
+  if (merchandising.discountCode) {
+    return { promotionId: null, label: null, minimumBasket: null, endsAt: null, ...merchandising.discountCode };
+  }
+  const promotion = selectPromotion(await loadActivePromotions(), { filters, firstSearch });
+  return promotion ? toOffer(promotion) : null;
+}
+
+/**
+ * Advice for the first page: relaxation message, guidance or generated advice
+ * guided: gift finder questions are shown, they ask what a vague query is missing
+ */
+async function adviseOn(query: string, filters: SearchFilters, total: number, relaxation: Relaxation | null, guided: boolean, diagnostics: SearchDiagnostics, onToken?: AdviceTokenSink): Promise<string> {
+  const fixed = (message: string) => {
+    onToken?.(message);
+    return message;
+  };
+
+  if (relaxation) {
+    // Near-miss → explain what was relaxed instead of generic advice
+    return fixed(relaxation.message);
+  }
+
+  if (total === 0) {
+    const hasNoFilters = !filters.productType && !hasGiftIntent(filters) && (!filters.keywords || filters.keywords.length === 0) && !filters.priceMax && !filters.priceMin;
+    if (!hasNoFilters) {
+      // Valid query with no matches → encourage to adjust
+      return fixed('✨ Laten we je zoekopdracht iets aanpassen om betere resultaten te vinden! Probeer het iets breder of verander je filters.');
+    }
+    if (guided) {
+      // The follow-up questions do the asking
+      return fixed(GIFT_FINDER_INTRO);
+    }
+    // Vague query → guide user to be more specific
+    const emptyState = await generateEmptyStateMessage(query, onToken);
+    diagnostics.cache.advice = emptyState.cache;
+    return emptyState.advice;
+  }
+
+  // Results found → generate enthusiastic message
+  const generated = await generateAdviceMessage(query, total, filters, onToken);
+  diagnostics.cache.advice = generated.cache;
+  return generated.advice;
+}
+
+/**
+ * Run one search request (see api/search.ts for the accepted bodies)
+ * Without events, advice is generated alongside the facets; with events,
+ * the results are sent first and the advice streams in afterwards.
+ */
+export async function executeSearch(body: any, events?: SearchEvents): Promise<SearchOutcome> {
+  const start = Date.now();
+
+  // Step 0: Paging input
+  const page = resolvePageRequest(body);
+  if ('status' in page) return page;
+  const { sort, facetSelection, limit, offset, searchId } = page;
+
+  // Prompts, type validation and category names use the current catalog metadata
+  await refreshCatalogMetadata();
+
+  // Step 1: Parsed filters + embedding (reused for follow-up requests)
+  const isFollowUp = !!searchId;
+  const diagnostics: SearchDiagnostics = {
+    total: 0,
+    parse: null,
+    embed: null,
+    search: 0,
+    advice: null,
+    cache: { filters: 'skip', embedding: 'skip', advice: 'skip' }
+  };
+
+  let context: SearchContext;
+  let session: SessionTurnState | null = null;
+  let correction: QueryCorrection | null = null;
+
+  if (isFollowUp) {
+    const stored = await loadSearchContext(searchId);
+    if (!stored) {
+      return fail(410, 'Search expired, please search again');
+    }
+    context = stored;
+  } else {
+    const understood = await understandQuery(body, diagnostics);
+    if ('status' in understood) return understood;
+    ({ context, session, correction } = understood);
+  }
+
+  const { query, filters } = context;
+  // query is what is searched; analytics and the response report what was typed
+  const typedQuery = correction?.original ?? query;
+
+  // Step 2a: Merchandising rules fired by this query (a redirect replaces the results)
+  const merchandising = evaluateRules(await loadActiveRules(), query, filters);
+  if (merchandising.redirect && !isFollowUp) {
+    console.log(`[Merchandising] "${query}" → redirect ${merchandising.redirect}`);
+    return {
+      status: 200,
+      body: {
+        success: true,
+        needsMoreInfo: false,
+        searchId: null,
+        redirect: merchandising.redirect,
+        query: { original: typedQuery, filters, filterSource: context.filterSource, sort, correction },
+        merchandising: { rules: merchandising.fired },
+        results: null
+      }
+    };
+  }
+  const sessionSummary = session ? {
+    id: session.id,
+    mode: session.mode,
+    filters,
+    activeFilters: filterChips(filters),
+    diff: session.diff
+  } : null;
+  const querySummary = { original: typedQuery, filters, filterSource: context.filterSource, sort, correction };
+  events?.filters({ searchId: context.id, session: sessionSummary, query: querySummary });
+
+  const ruleConditions = [hiddenProductsCondition(merchandising)].filter((c): c is SqlCondition => c !== null);
+  const arrange = arrangerFor(merchandising);
+
+  // Step 2b: Constraints (a follow-up reuses the relaxation of the original search) and plan
+  let constraints: SearchConstraints = {
+    filters: context.relaxation?.filters ?? filters,
+    threshold: context.relaxation?.threshold ?? chooseSimilarityThreshold(filters),
+    keywordFilter: context.keywordFilter
+  };
+  const lexicalQuery = buildLexicalTerms(query, filters);
+  let plan: SearchPlan = planSearch(context.embedding, constraints, lexicalQuery, facetSelection, ruleConditions);
+
+  // Step 3: True total + requested page
+  const searchStart = Date.now();
+  let [{ total, priceRange }, rows] = await Promise.all([
+    countMatches(plan),
+    fetchPage(plan, sort, offset, limit, arrange)
+  ]);
+
+  // Step 4: Zero-result recovery (vague queries stay empty on purpose, they get guidance instead)
+  let relaxation = context.relaxation;
+  if (total === 0 && !isFollowUp && !isVagueQuery(filters)) {
+    const relaxed = await relax(context, constraints, lexicalQuery, facetSelection, ruleConditions);
+    if (relaxed) {
+      ({ plan, relaxation } = relaxed);
+      constraints = relaxed.step;
+      ({ total, priceRange } = relaxed.stats);
+      rows = await fetchPage(plan, sort, offset, limit, arrange);
+      context.keywordFilter = relaxed.step.keywordFilter;
+      context.relaxation = relaxation;
+    }
+  }
+
+  diagnostics.search = Date.now() - searchStart;
+
+  // Save the parsed search for follow-up pages, and the session turn (alongside facets and advice)
+  const savePromise = isFollowUp ? Promise.resolve() : Promise.all([
+    saveSearchContext(context),
+    session && saveSession({
+      id: session.id,
+      filters,
+      turns: [...(session.previous?.turns ?? []), { query: session.mode === 'remove' || session.mode === 'answer' ? null : query, mode: session.mode, searchId: context.id, total }],
+      priceRange
+    })
+  ]);
+
+  // Facet counts over the full matching set and the page's variants (run alongside advice generation)
+  const facetsPromise = computeFacets(plan, facetSelection);
+  const variantsPromise = fetchVariants(rows.map(row => Number(row.id)));
+
+  // Step 5: Gift finder questions (vague and gift queries, first request only) and advice
+  const giftQuestions: GiftQuestion[] = !isFollowUp && (isVagueQuery(filters) || hasGiftIntent(filters)) ? buildGiftQuestions(filters) : [];
+  const advise = async (onToken?: AdviceTokenSink): Promise<string | null> => {
+    if (isFollowUp) return null;
+    const adviceStart = Date.now();
+    const advice = await adviseOn(query, filters, total, relaxation, giftQuestions.length > 0, diagnostics, onToken);
+    diagnostics.advice = Date.now() - adviceStart;
+    return advice;
+  };
+  const advicePromise = events ? null : advise();
+
+  // Step 6: Discount code from a campaign rule, otherwise the best eligible promotion
+  const [facets, variants, discountCode] = await Promise.all([
+    facetsPromise,
+    variantsPromise,
+    chooseDiscountCode(merchandising, filters, body.firstSearch === true),
+    savePromise
+  ]);
+  const variantMatch = buildVariantMatch(query, constraints.filters);
+
+  const hasMore = offset + rows.length < total && offset + limit < (sort === 'relevance' ? MAX_RELEVANCE_DEPTH : Infinity);
+  const nextCursor = hasMore
+    ? encodeCursor({ searchId: context.id, offset: offset + limit, limit, sort, facets: facetSelection })
+    : null;
+
+  const results = {
+    total,
+    showing: rows.length,
+    offset,
+    limit,
+    hasMore,
+    nextCursor,
+    items: rows.map(row => formatProduct(row, variants.get(Number(row.id)), variantMatch)),
+    facets,
+    advice: null as string | null,
+    relaxation: relaxation ? { applied: relaxation.applied, filters: relaxation.filters, message: relaxation.message } : null,
+    merchandising: merchandising.fired.length > 0 ? { rules: merchandising.fired, banner: merchandising.banner } : null,
+    discountCode,
+    giftFinder: giftQuestions.length > 0 ? { questions: giftQuestions } : null
+  };
+
+  // Streaming: the products go out now, the advice follows token by token
+  if (events) {
+    events.results({ ...results });
+  }
+  results.advice = await (advicePromise ?? advise(text => events!.adviceToken(text)));
+
+  // Step 7: Response
+  const response = {
+    success: true,
+    needsMoreInfo: total === 0 && giftQuestions.length > 0,
+    searchId: context.id,
+    session: sessionSummary,
+    query: {
+      ...querySummary,
+      took_ms: { ...diagnostics, total: Date.now() - start }
+    },
+    results
+  };
+
+  // Step 8: Record the search for analytics (new queries only, never fails the search)
+  if (!isFollowUp) {
+    await recordSearch({
+      searchId: context.id,
+      query: typedQuery,
+      correctedQuery: correction?.corrected ?? null,
+      filters,
+      filterSource: context.filterSource,
+      similarityThreshold: constraints.threshold,
+      resultCount: total,
+      keywordFallback: !!relaxation?.applied.includes('drop-keywords'),
+      relaxation: relaxation?.applied ?? null,
+      timings: response.query.took_ms
+    });
+  }
+
+  return { status: 200, body: response };
+}
@@ -0,0 +1,198 @@
+/**
+ * Search Plan - From parsed filters to what the database has to do
+ *
+ * A plan holds the query embedding, the filter conditions (one per
+ * SearchFilters field), the client's facet selections, the lexical query
+ * and the similarity threshold. It contains no SQL statements: those are
+ * built from the plan by lib/search-sql.ts.
+ */
+
+import { facetSelectionConditions, sizeClassCondition, type FacetConditions, type FacetSelection } from './facets';
+import { giftThemes } from './gift-finder';
+import { buildTsQuery } from './hybrid-search';
+import { parseQueryRules } from './query-parser';
+import type { SearchConstraints } from './relaxation';
+import { getSearchConfig } from './search-config';
+import { hasGiftIntent, hasSizeFilter, type SearchFilters } from './search-filters';
+import { raw, type SqlCondition } from './sql-builder';
+import type { VariantMatch } from './variants';
+
+export interface SearchPlan {
+  embedding: number[];
+  filterConditions: SqlCondition[];       // Parsed filters
+  selectionConditions: FacetConditions;   // Facet selections from the client, per facet
+  lexicalQuery: string | null;            // to_tsquery('dutch_unaccent') expression, null = vector only
+  threshold: number;                      // Minimum cosine similarity for a vector match
+}
+
+type SizeCategory = NonNullable<SearchFilters['sizeCategory']>;
+
+/**
+ * Variant option words per size class ("Maat: Groot"); the product row
+ * only has the default variant's dimensions
+ */
+const SIZE_VARIANT_WORDS: Record<SizeCategory, string[]> = {
+  klein: ['klein', 'kleine', 'small', 'mini'],
+  middel: ['middel', 'middelgroot', 'medium'],
+  groot: ['groot', 'grote', 'large', 'xl', 'xxl']
+};
+
+/**
+ * The product is of the size (the facet's size class), or one of its
+ * variants is named after it
+ */
+function sizeCategoryCondition(size: SizeCategory): SqlCondition {
+  return params => {
+    const pattern = params.bind(`\\m(${SIZE_VARIANT_WORDS[size].join('|')})\\M`);
+    return `${sizeClassCondition(size)} OR EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id AND v.title ~* ${pattern})`;
+  };
+}
+
+/**
+ * Explicit measurement filters ("maximaal 30 cm hoog")
+ */
+const MEASURE_CONDITIONS: [keyof SearchFilters, string][] = [
+  ['sizeMinCm', 'p.max_dimension_cm >='],
+  ['sizeMaxCm', 'p.max_dimension_cm <='],
+  ['heightMinCm', 'p.height_cm >='],
+  ['heightMaxCm', 'p.height_cm <='],
+  ['widthMinCm', 'p.width_cm >='],
+  ['widthMaxCm', 'p.width_cm <=']
+];
+
+/**
+ * Budget: at least one variant within the range (both bounds on the same variant)
+ * Products whose variants are not imported yet (min_price NULL) use their own price.
+ */
+function priceCondition(priceMin: number | null | undefined, priceMax: number | null | undefined): SqlCondition {
+  return params => {
+    const within = (column: string) => [
+      priceMax ? `${column} <= ${params.bind(priceMax)}` : null,
+      priceMin ? `${column} >= ${params.bind(priceMin)}` : null
+    ].filter(Boolean).join(' AND ');
+    return `EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id AND ${within('v.price')}) OR (p.min_price IS NULL AND ${within('p.price')})`;
+  };
+}
+
+/**
+ * Words a result has to match: the shopper's own keywords, or else the
+ * themes of the gift finder fields ("cadeau voor mijn moeder")
+ */
+function requiredKeywords(filters: SearchFilters): string[] {
+  return filters.keywords?.length ? filters.keywords : giftThemes(filters);
+}
+
+/**
+ * One condition per active filter
+ * keywordFilter: require a full-text keyword hit (dropped by the relaxation planner)
+ */
+export function buildFilterConditions(filters: SearchFilters, keywordFilter: boolean): SqlCondition[] {
+  const conditions: SqlCondition[] = [raw('p.is_visible = true'), raw('p.embedding IS NOT NULL')];
+
+  if (filters.productType) {
+    conditions.push(params => `p.type = ${params.bind(filters.productType)}`);
+  }
+
+  // Artist matches both the artist field and the title
+  if (filters.artist) {
+    conditions.push(params => {
+      const pattern = params.bind(`%${filters.artist}%`);
+      return `p.artist ILIKE ${pattern} OR p.title ILIKE ${pattern}`;
+    });
+  }
+
+  if (filters.priceMax || filters.priceMin) {
+    conditions.push(priceCondition(filters.priceMin, filters.priceMax));
+  }
+
+  if (filters.sizeCategory) {
+    conditions.push(sizeCategoryCondition(filters.sizeCategory));
+  }
+
+  for (const [field, comparison] of MEASURE_CONDITIONS) {
+    const value = filters[field];
+    if (value) {
+      conditions.push(params => `${comparison} ${params.bind(value)}`);
+    }
+  }
+
+  // Keyword filter (full-text match with Dutch stemming: "kat" matches "katten", not "kathedraal")
+  // Keywords that are only stopwords ("de", "met") give an empty tsquery and filter nothing
+  const keywordQuery = buildTsQuery(requiredKeywords(filters));
+  if (keywordQuery && keywordFilter) {
+    conditions.push(params => {
+      const tsQuery = `to_tsquery('dutch_unaccent', ${params.bind(keywordQuery)})`;
+      return `numnode(${tsQuery}) = 0 OR p.search_vector @@ ${tsQuery}`;
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * No filters at all ("iets moois") → guidance instead of results
+ */
+export function isVagueQuery(filters: SearchFilters): boolean {
+  return !filters.productType && !filters.artist && !hasSizeFilter(filters) && !hasGiftIntent(filters) && (!filters.keywords || filters.keywords.length === 0) && !filters.priceMax && !filters.priceMin;
+}
+
+/**
+ * Determine similarity threshold (adaptive based on query specificity)
+ * Threshold values come from lib/search-config.ts
+ */
+export function chooseSimilarityThreshold(filters: SearchFilters): number {
+  const keywords = requiredKeywords(filters);
+  const isTypeOnlyQuery = filters.productType && !filters.artist && !hasSizeFilter(filters) && keywords.length === 0 && !filters.priceMax && !filters.priceMin;
+  const isKeywordOnlyQuery = !filters.productType && !filters.artist && !hasSizeFilter(filters) && keywords.length > 0;
+  const thresholds = getSearchConfig().similarityThresholds;
+
+  if (isVagueQuery(filters)) {
+    return thresholds.vague;      // Vague query: high threshold → 0 results
+  } else if (isTypeOnlyQuery) {
+    return thresholds.typeOnly;   // Type-only: very low threshold (e.g., "mok")
+  } else if (isKeywordOnlyQuery) {
+    return thresholds.keywords;   // Keyword-only: lowest threshold (e.g., "dog", "kat")
+  }
+  return thresholds.specific;     // Specific query: normal threshold
+}
+
+/**
+ * Lexical terms: keywords, gift finder themes + words the rule parser could not classify
+ * Generic words ("cadeau", "mooi") are never used, so vague queries stay vague
+ */
+export function buildLexicalTerms(query: string, filters: SearchFilters): string | null {
+  return buildTsQuery([...(filters.keywords || []), ...giftThemes(filters), ...parseQueryRules(query).unparsedTokens]);
+}
+
+/**
+ * What a result's matching variant is chosen on: the (possibly relaxed) budget,
+ * the size class ("grote versie" → groot) and the same words as the lexical
+ * query (colours and finishes: "brons", "goud")
+ */
+export function buildVariantMatch(query: string, filters: SearchFilters): VariantMatch {
+  return {
+    priceMin: filters.priceMin,
+    priceMax: filters.priceMax,
+    terms: [...(filters.sizeCategory ? [filters.sizeCategory] : []), ...(filters.keywords || []), ...parseQueryRules(query).unparsedTokens]
+  };
+}
+
+/**
+ * Plan a search for one set of constraints (the original or a relaxation step)
+ * ruleConditions: merchandising conditions (hidden products), never relaxed
+ */
+export function planSearch(
+  embedding: number[],
+  constraints: SearchConstraints,
+  lexicalQuery: string | null,
+  facetSelection: FacetSelection,
+  ruleConditions: SqlCondition[] = []
+): SearchPlan {
+  return {
+    embedding,
+    filterConditions: [...buildFilterConditions(constraints.filters, constraints.keywordFilter), ...ruleConditions],
+    selectionConditions: facetSelectionConditions(facetSelection),
+    lexicalQuery,
+    threshold: constraints.threshold
+  };
+}
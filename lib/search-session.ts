@@ -0,0 +1,78 @@
+/**
+ * Search Session - Active filters and previous turns of a conversation
+ *
+ * A session lets "iets goedkoper" after "kat beeld" build on the previous
+ * search (see lib/refinement.ts). Stored in Postgres and always read from
+ * there: every turn changes the session and consecutive turns may land on
+ * different instances, so a per-process copy would go stale. Sessions
+ * expire after SESSION_TTL_MINUTES without activity.
+ */
+
+import { sql } from './db';
+import type { PriceRange } from './refinement';
+import type { SearchFilters } from './search-filters';
+
+export type TurnMode = 'new' | 'refine' | 'remove' | 'answer';
+
+export interface SessionTurn {
+  query: string | null;        // null for chip removals and gift finder answers
+  mode: TurnMode;
+  searchId: string;
+  total: number;
+}
+
+export interface SearchSession {
+  id: string;
+  filters: SearchFilters;
+  turns: SessionTurn[];
+  priceRange: PriceRange | null;
+}
+
+const SESSION_TTL_MINUTES = 60;
+const MAX_TURNS = 20;                // Older turns are dropped
+const CLEANUP_PROBABILITY = 0.02;
+
+/**
+ * Save a session (insert or update) after a turn
+ */
+export async function saveSession(session: SearchSession): Promise<void> {
+  session.turns = session.turns.slice(-MAX_TURNS);
+
+  await sql.query(
+    `INSERT INTO search_sessions (id, filters, turns, price_range)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (id) DO UPDATE SET
+       filters = EXCLUDED.filters,
+       turns = EXCLUDED.turns,
+       price_range = EXCLUDED.price_range,
+       updated_at = NOW()`,
+    [session.id, JSON.stringify(session.filters), JSON.stringify(session.turns), session.priceRange ? JSON.stringify(session.priceRange) : null]
+  );
+
+  if (Math.random() < CLEANUP_PROBABILITY) {
+    await sql.query(`DELETE FROM search_sessions WHERE updated_at < NOW() - INTERVAL '${SESSION_TTL_MINUTES} minutes'`);
+  }
+}
+
+/**
+ * Load a session; returns null when unknown or expired
+ */
+export async function loadSession(id: string): Promise<SearchSession | null> {
+  const { rows } = await sql.query(
+    `SELECT id, filters, turns, price_range
+     FROM search_sessions
+     WHERE id = $1 AND updated_at > NOW() - INTERVAL '${SESSION_TTL_MINUTES} minutes'`,
+    [id]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    id: rows[0].id,
+    filters: rows[0].filters,
+    turns: rows[0].turns || [],
+    priceRange: rows[0].price_range ?? null
+  };
+}
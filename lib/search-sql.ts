@@ -0,0 +1,214 @@
+/**
+ * Search SQL - Parameterized statements for a search plan
+ *
+ * Every statement binds its own params (see lib/sql-builder.ts), so the
+ * embedding is not tied to $1 and conditions can be added in any order.
+ * "Matching" means: all filter conditions, and above the similarity
+ * threshold OR a lexical (full-text) hit.
+ */
+
+import { buildFacetCountsQuery, type FacetName } from './facets';
+import { getRankWeights } from './hybrid-search';
+import { SORT_ORDERS, type SearchSort } from './pagination';
+import type { SearchPlan } from './search-plan';
+import { anyOf, createParams, renderConditions, type SqlCondition, type SqlParams, type SqlQuery } from './sql-builder';
+
+export const PRODUCT_COLUMNS = 'p.id, p.title, p.full_title, p.description, p.url, p.price, p.old_price, p.min_price, p.max_price, p.image, p.type, p.artist, p.dimensions, p.height_cm, p.width_cm, p.depth_cm, p.diameter_cm, p.stock, p.stock_sold, p.created_at';
+
+const CATEGORY_IDS = 'ARRAY_AGG(DISTINCT pc.category_id) FILTER (WHERE pc.category_id IS NOT NULL) as category_ids';
+
+function similarity(vector: string): string {
+  return `1 - (p.embedding <=> ${vector})`;
+}
+
+function vectorMatch(vector: string, threshold: number): SqlCondition {
+  return params => `${similarity(vector)} >= ${params.bind(threshold)}`;
+}
+
+function lexicalMatch(lexicalQuery: string): SqlCondition {
+  return params => `p.search_vector @@ to_tsquery('dutch_unaccent', ${params.bind(lexicalQuery)})`;
+}
+
+/**
+ * Facet selection conditions of all facets
+ */
+function selectionConditions(plan: SearchPlan): SqlCondition[] {
+  return Object.values(plan.selectionConditions).filter((condition): condition is SqlCondition => !!condition);
+}
+
+/**
+ * WHERE clause for everything the plan matches
+ * withSelections: false for facet counts (they apply selections per facet)
+ */
+function renderMatch(plan: SearchPlan, params: SqlParams, vector: string, withSelections = true): string {
+  const match = plan.lexicalQuery
+    ? anyOf([vectorMatch(vector, plan.threshold), lexicalMatch(plan.lexicalQuery)])
+    : vectorMatch(vector, plan.threshold);
+
+  return renderConditions([
+    ...plan.filterConditions,
+    ...(withSelections ? selectionConditions(plan) : []),
+    match
+  ], params);
+}
+
+/**
+ * True total and price range of the matches
+ * The range spans the variant prices (min_price/max_price); products
+ * without variants contribute their own price.
+ */
+export function buildCountQuery(plan: SearchPlan): SqlQuery {
+  const params = createParams();
+  const vector = params.bind(JSON.stringify(plan.embedding), 'vector');
+  return {
+    text: `SELECT COUNT(*) AS total, MIN(COALESCE(p.min_price, p.price)) AS min_price, MAX(COALESCE(p.max_price, p.price)) AS max_price FROM products p WHERE ${renderMatch(plan, params, vector)}`,
+    params: params.values
+  };
+}
+
+/**
+ * Vector retriever: candidates above the threshold, nearest first
+ */
+export function buildVectorQuery(plan: SearchPlan, limit: number): SqlQuery {
+  const params = createParams();
+  const vector = params.bind(JSON.stringify(plan.embedding), 'vector');
+  const where = renderConditions([...plan.filterConditions, ...selectionConditions(plan), vectorMatch(vector, plan.threshold)], params);
+
+  return {
+    text: `
+      SELECT
+        ${PRODUCT_COLUMNS},
+        ${similarity(vector)} as similarity,
+        ${CATEGORY_IDS}
+      FROM products p
+      LEFT JOIN product_categories pc ON p.id = pc.product_id
+      WHERE ${where}
+      GROUP BY p.id
+      ORDER BY p.embedding <=> ${vector}, p.stock_sold DESC NULLS LAST
+      LIMIT ${params.bind(limit)}
+    `,
+    params: params.values
+  };
+}
+
+/**
+ * Lexical retriever: full-text hits ranked with per-field weights
+ * Returns null when the plan has no lexical terms.
+ */
+export function buildLexicalQuery(plan: SearchPlan, limit: number): SqlQuery | null {
+  if (!plan.lexicalQuery) return null;
+
+  const params = createParams();
+  const vector = params.bind(JSON.stringify(plan.embedding), 'vector');
+  const tsQuery = params.bind(plan.lexicalQuery);
+  const weights = params.bind(getRankWeights(), 'float4[]');
+  const where = renderConditions([
+    ...plan.filterConditions,
+    ...selectionConditions(plan),
+    () => `p.search_vector @@ to_tsquery('dutch_unaccent', ${tsQuery})`
+  ], params);
+
+  return {
+    text: `
+      SELECT
+        ${PRODUCT_COLUMNS},
+        ${similarity(vector)} as similarity,
+        ts_rank_cd(${weights}, p.search_vector, to_tsquery('dutch_unaccent', ${tsQuery})) as lexical_rank,
+        ${CATEGORY_IDS}
+      FROM products p
+      LEFT JOIN product_categories pc ON p.id = pc.product_id
+      WHERE ${where}
+      GROUP BY p.id
+      ORDER BY lexical_rank DESC, p.stock_sold DESC NULLS LAST
+      LIMIT ${params.bind(limit)}
+    `,
+    params: params.values
+  };
+}
+
+/**
+ * One page of matches in a fixed (non-relevance) sort order
+ */
+export function buildSortedPageQuery(plan: SearchPlan, sort: Exclude<SearchSort, 'relevance'>, offset: number, limit: number): SqlQuery {
+  const params = createParams();
+  const vector = params.bind(JSON.stringify(plan.embedding), 'vector');
+  const where = renderMatch(plan, params, vector);
+
+  return {
+    text: `
+      SELECT
+        ${PRODUCT_COLUMNS},
+        ${similarity(vector)} as similarity,
+        ${CATEGORY_IDS}
+      FROM products p
+      LEFT JOIN product_categories pc ON p.id = pc.product_id
+      WHERE ${where}
+      GROUP BY p.id
+      ORDER BY ${SORT_ORDERS[sort]}
+      LIMIT ${params.bind(limit)} OFFSET ${params.bind(offset)}
+    `,
+    params: params.values
+  };
+}
+
+/**
+ * Visible products by id, regardless of the query (pinned by a merchandising rule)
+ */
+export function buildProductsByIdQuery(ids: number[]): SqlQuery {
+  const params = createParams();
+  return {
+    text: `
+      SELECT
+        ${PRODUCT_COLUMNS},
+        ${CATEGORY_IDS}
+      FROM products p
+      LEFT JOIN product_categories pc ON p.id = pc.product_id
+      WHERE p.id = ANY(${params.bind(ids, 'bigint[]')}) AND p.is_visible = true
+      GROUP BY p.id
+    `,
+    params: params.values
+  };
+}
+
+/**
+ * Nearest neighbours of a product's own embedding (the product itself excluded)
+ */
+export function buildSimilarProductsQuery(productId: number, conditions: SqlCondition[], limit: number): SqlQuery {
+  const params = createParams();
+  const id = params.bind(productId);
+  const vector = `(SELECT embedding FROM products WHERE id = ${id})`;
+  const where = renderConditions([() => `p.id <> ${id}`, ...conditions], params);
+
+  return {
+    text: `
+      SELECT
+        ${PRODUCT_COLUMNS},
+        ${similarity(vector)} as similarity,
+        ${CATEGORY_IDS}
+      FROM products p
+      LEFT JOIN product_categories pc ON p.id = pc.product_id
+      WHERE ${where}
+      GROUP BY p.id
+      ORDER BY p.embedding <=> ${vector}, p.stock_sold DESC NULLS LAST
+      LIMIT ${params.bind(limit)}
+    `,
+    params: params.values
+  };
+}
+
+/**
+ * Facet counts over all matches; each facet ignores only its own selection
+ */
+export function buildFacetQuery(plan: SearchPlan): SqlQuery {
+  const params = createParams();
+  const vector = params.bind(JSON.stringify(plan.embedding), 'vector');
+  const match = renderMatch(plan, params, vector, false);
+  const selections: Partial<Record<FacetName, string>> = {};
+  for (const [facet, condition] of Object.entries(plan.selectionConditions) as [FacetName, SqlCondition][]) {
+    selections[facet] = condition(params);
+  }
+  return {
+    text: buildFacetCountsQuery(match, selections),
+    params: params.values
+  };
+}
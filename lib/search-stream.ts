@@ -0,0 +1,96 @@
+/**
+ * Search Stream - Streaming transport for /api/search
+ *
+ * Instead of one JSON body the search is sent as events, each as soon as
+ * it is known:
+ *   filters  { searchId, session, query }       parsed query (before the SQL runs)
+ *   results  { total, items, facets, ... }      same as results in JSON mode, advice still null
+ *   advice   { text }                           advice delta, repeated while it is generated
+ *   summary  { searchId, advice, took_ms }      complete advice and step timings; last event
+ *   redirect { redirect, query, ... }           merchandising redirect; the only event
+ *   error    { status, error, details? }        failure after the stream started; last event
+ *
+ * Formats: Server-Sent Events (Accept: text/event-stream, or "stream": "sse")
+ * and NDJSON (Accept: application/x-ndjson, or "stream": "ndjson"), one
+ * {"event", "data"} object per line. Errors before the first event keep
+ * their HTTP status and JSON body, like JSON mode.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { SearchEvents, SearchOutcome } from './search-pipeline';
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+const CONTENT_TYPES: Record<StreamFormat, string> = {
+  sse: 'text/event-stream; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+/**
+ * The streaming format the client asked for, or null for plain JSON
+ */
+export function requestedStreamFormat(req: VercelRequest): StreamFormat | null {
+  const requested = req.body?.stream;
+  if (requested === 'sse' || requested === 'ndjson') {
+    return requested;
+  }
+
+  const accept = String(req.headers.accept || '');
+  if (accept.includes('text/event-stream')) return 'sse';
+  if (accept.includes('application/x-ndjson')) return 'ndjson';
+  return null;
+}
+
+export interface SearchStream {
+  events: SearchEvents;
+  finish(outcome: SearchOutcome): void;
+  fail(status: number, error: string, details?: string): void;
+}
+
+/**
+ * Stream writer for one response; headers go out with the first event
+ */
+export function createSearchStream(res: VercelResponse, format: StreamFormat): SearchStream {
+  let started = false;
+
+  const send = (event: string, data: unknown) => {
+    if (!started) {
+      started = true;
+      res.status(200);
+      res.setHeader('Content-Type', CONTENT_TYPES[format]);
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('X-Accel-Buffering', 'no');
+    }
+    res.write(format === 'sse'
+      ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+      : `${JSON.stringify({ event, data })}\n`);
+  };
+
+  return {
+    events: {
+      filters: payload => send('filters', payload),
+      results: payload => send('results', payload),
+      adviceToken: text => send('advice', { text })
+    },
+    finish({ status, body }) {
+      if (!started && status !== 200) {
+        res.status(status).json(body);
+        return;
+      }
+      if (body.redirect) {
+        send('redirect', body);
+      } else {
+        send('summary', { searchId: body.searchId, advice: body.results?.advice ?? null, took_ms: body.query?.took_ms ?? null });
+      }
+      res.end();
+    },
+    fail(status, error, details) {
+      if (!started) {
+        res.status(status).json({ success: false, error, details });
+        return;
+      }
+      send('error', { status, error, details });
+      res.end();
+    }
+  };
+}
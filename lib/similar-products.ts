@@ -0,0 +1,188 @@
+/**
+ * Similar Products - "More like this" from a product's own embedding
+ *
+ * Nearest neighbours of the stored products.embedding, for blocks like
+ * "Vergelijkbare kunstcadeaus" on product pages and in empty-result states.
+ * Scopes: any type, the same type, the same artist, or complementary types
+ * (a vase next to a statue, coasters next to a mug).
+ *
+ * Near-duplicate variants (the same design in another colour or size,
+ * listed as its own product) are left out: anything almost identical to
+ * the product, and repeated base titles within the list.
+ */
+
+import { z } from 'zod';
+import { IN_STOCK } from './catalog-metadata';
+import { sql, type QueryClient } from './db';
+import { normalizeText } from './query-parser';
+import { fetchVariants } from './search-executor';
+import { emptyFilters } from './search-filters';
+import { formatProduct, type FormattedProduct } from './search-format';
+import { buildFilterConditions } from './search-plan';
+import { buildSimilarProductsQuery } from './search-sql';
+import type { SqlCondition } from './sql-builder';
+
+const NEAR_DUPLICATE_SIMILARITY = 0.97;     // Cosine similarity at which two products count as one design
+const CANDIDATE_FACTOR = 3;                 // Extra candidates so dropped duplicates don't shorten the list
+const SIMILAR_PRICE_BAND = { min: 0.5, max: 2 };  // priceBand=similar: half to double the product's price
+
+/**
+ * Types that go well with a type (scope=complementary)
+ * Types not listed here complement every other type.
+ */
+const COMPLEMENTARY_TYPES: Record<string, string[]> = {
+  Beeld: ['Theelichthouder', 'Vaas', 'Wandbord'],
+  Vaas: ['Theelichthouder', 'Schaal', 'Beeld'],
+  Mok: ['Onderzetters', 'Schaal'],
+  Onderzetters: ['Mok'],
+  Schaal: ['Vaas', 'Theelichthouder'],
+  Theelichthouder: ['Vaas', 'Beeld', 'Schaal'],
+  Wandbord: ['Schilderij', 'Beeld'],
+  Schilderij: ['Wandbord', 'Beeld']
+};
+
+// Colour, finish and size words that distinguish variants of one design
+const VARIANT_WORDS = new Set([
+  'goud', 'gouden', 'zilver', 'zilveren', 'brons', 'bronzen', 'zwart', 'zwarte', 'wit', 'witte', 'rood', 'rode',
+  'blauw', 'blauwe', 'groen', 'groene', 'geel', 'gele', 'roze', 'grijs', 'grijze', 'beige', 'mat', 'glans',
+  'klein', 'kleine', 'middel', 'groot', 'grote', 'mini', 'xl', 'xxl', 'set', 'cm', 'mm'
+]);
+
+export const SIMILAR_SCOPES = ['any', 'type', 'artist', 'complementary'] as const;
+
+/**
+ * Query string of /api/similar
+ */
+export const similarOptionsSchema = z.object({
+  productId: z.coerce.number().int().positive(),
+  limit: z.coerce.number().int().min(1).max(24).default(8),
+  scope: z.enum(SIMILAR_SCOPES).default('any'),
+  inStock: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),  // Only products in stock (any variant)
+  priceBand: z.enum(['any', 'similar']).default('any'),       // similar: see SIMILAR_PRICE_BAND
+  priceMin: z.coerce.number().positive().optional(),          // Explicit budget, wins over priceBand
+  priceMax: z.coerce.number().positive().optional()
+});
+
+export interface SimilarOptions {
+  productId: number;
+  limit: number;
+  scope: typeof SIMILAR_SCOPES[number];
+  inStock: boolean;
+  priceBand: 'any' | 'similar';
+  priceMin?: number;
+  priceMax?: number;
+}
+
+export interface SimilarSource {
+  id: number;
+  title: string;
+  type: string | null;
+  artist: string | null;
+  price: number;
+  hasEmbedding: boolean;
+}
+
+export interface SimilarProducts {
+  product: SimilarSource;
+  scope: SimilarOptions['scope'];
+  items: FormattedProduct[];
+}
+
+/**
+ * Title without variant words and measurements ("Kus vaas goud 25 cm" → "kus vaas")
+ */
+export function baseTitle(title: string): string {
+  return normalizeText(title)
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !VARIANT_WORDS.has(word) && !/^\d+(x\d+)*$/.test(word))
+    .join(' ');
+}
+
+/**
+ * Conditions for the scope, stock and price options (visible products with an embedding)
+ * artist scope on a product without artist falls back to the same type.
+ */
+function buildSimilarConditions(source: SimilarSource, options: SimilarOptions): SqlCondition[] {
+  const banded = options.priceBand === 'similar';
+  const priceMin = options.priceMin ?? (banded ? Math.round(source.price * SIMILAR_PRICE_BAND.min * 100) / 100 : null);
+  const priceMax = options.priceMax ?? (banded ? Math.round(source.price * SIMILAR_PRICE_BAND.max * 100) / 100 : null);
+  const sameType = options.scope === 'type' || (options.scope === 'artist' && !source.artist);
+
+  const conditions = buildFilterConditions({
+    ...emptyFilters(),
+    productType: sameType ? source.type : null,
+    priceMin,
+    priceMax
+  }, false);
+
+  if (options.scope === 'artist' && source.artist) {
+    conditions.push(params => `p.artist = ${params.bind(source.artist)}`);
+  }
+
+  if (options.scope === 'complementary') {
+    const types = source.type ? COMPLEMENTARY_TYPES[source.type] : undefined;
+    conditions.push(types
+      ? params => `p.type = ANY(${params.bind(types, 'text[]')})`
+      : params => `p.type IS DISTINCT FROM ${params.bind(source.type)}`);
+  }
+
+  if (options.inStock) {
+    conditions.push(() => IN_STOCK);
+  }
+
+  return conditions;
+}
+
+/**
+ * Drop near-duplicates of the product and of earlier candidates
+ */
+function dropNearDuplicates(source: SimilarSource, rows: any[]): any[] {
+  const seen = new Set([`${source.type}|${baseTitle(source.title)}`]);
+  return rows.filter(row => {
+    const key = `${row.type}|${baseTitle(row.title)}`;
+    if (parseFloat(row.similarity) >= NEAR_DUPLICATE_SIMILARITY || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+async function loadSource(productId: number, db: QueryClient): Promise<SimilarSource | null> {
+  const { rows } = await db.query(
+    'SELECT id, title, type, artist, price, embedding IS NOT NULL AS has_embedding FROM products WHERE id = $1',
+    [productId]
+  );
+  if (rows.length === 0) return null;
+  return {
+    id: Number(rows[0].id),
+    title: rows[0].title,
+    type: rows[0].type,
+    artist: rows[0].artist || null,
+    price: parseFloat(rows[0].price),
+    hasEmbedding: rows[0].has_embedding
+  };
+}
+
+/**
+ * Products like the given one; null when the product does not exist
+ * A product without embedding (not imported yet) has no neighbours.
+ */
+export async function findSimilarProducts(options: SimilarOptions, db: QueryClient = sql): Promise<SimilarProducts | null> {
+  const source = await loadSource(options.productId, db);
+  if (!source) return null;
+  if (!source.hasEmbedding) {
+    return { product: source, scope: options.scope, items: [] };
+  }
+
+  const query = buildSimilarProductsQuery(source.id, buildSimilarConditions(source, options), options.limit * CANDIDATE_FACTOR);
+  const { rows: candidates } = await db.query(query.text, query.params);
+  const rows = dropNearDuplicates(source, candidates).slice(0, options.limit);
+
+  const variants = await fetchVariants(rows.map(row => Number(row.id)), db);
+  return {
+    product: source,
+    scope: options.scope,
+    items: rows.map(row => formatProduct(row, variants.get(Number(row.id))))
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * SQL Builder - Parameterized SQL without hand-counted placeholders
+ *
+ * Values are bound through SqlParams, which hands out the next $n, so
+ * adding or skipping a condition can never shift another condition's
+ * placeholder. Conditions are functions that bind their own values when
+ * rendered; the same condition list can be rendered into any statement.
+ */
+
+export interface SqlQuery {
+  text: string;
+  params: unknown[];
+}
+
+export interface SqlParams {
+  readonly values: unknown[];
+  /** Bind a value and return its placeholder ("$3", or "$3::vector" with a cast) */
+  bind(value: unknown, cast?: string): string;
+}
+
+/**
+ * WHERE condition, rendered against the statement's params
+ */
+export type SqlCondition = (params: SqlParams) => string;
+
+export function createParams(): SqlParams {
+  const values: unknown[] = [];
+  return {
+    values,
+    bind(value: unknown, cast?: string) {
+      values.push(value);
+      return cast ? `$${values.length}::${cast}` : `$${values.length}`;
+    }
+  };
+}
+
+/**
+ * Render conditions joined with AND ("TRUE" when there are none)
+ */
+export function renderConditions(conditions: SqlCondition[], params: SqlParams): string {
+  const rendered = conditions.map(condition => condition(params)).filter(Boolean);
+  return rendered.length > 0 ? rendered.map(c => `(${c})`).join(' AND ') : 'TRUE';
+}
+
+/**
+ * Condition with a fixed SQL text and no values
+ */
+export function raw(text: string): SqlCondition {
+  return () => text;
+}
+
+/**
+ * Any of the conditions (OR), e.g. vector match OR lexical match
+ */
+export function anyOf(conditions: SqlCondition[]): SqlCondition {
+  return params => conditions.map(condition => `(${condition(params)})`).join(' OR ');
+}
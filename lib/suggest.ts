@@ -0,0 +1,267 @@
+/**
+ * Suggest - Type-ahead without LLM or embedding
+ *
+ * The typed text is matched against popular past queries (search_log),
+ * artists (including their brand aliases), product types, themes and
+ * product titles. Everything is matched in memory: the vocabulary and its
+ * result counts come from the catalog metadata snapshot, titles and
+ * popular queries from an index that is reloaded every SUGGEST_INDEX_TTL_MS
+ * (the old one keeps serving while it reloads), so a keystroke never waits
+ * for the database once an instance is warm.
+ *
+ * Ranking: the suggestion starts with the input, then one of its words
+ * does, then a near miss ("klmit" → Klimt, not for titles); within each
+ * class by result count, searches or sales.
+ */
+
+import { z } from 'zod';
+import { getCatalogMetadata, IN_STOCK } from './catalog-metadata';
+import { sql, type QueryClient } from './db';
+import { editDistance, maxTypos } from './fuzzy';
+import { normalizeQueryKey } from './query-cache';
+
+export const SUGGESTION_TYPES = ['query', 'artist', 'type', 'theme', 'product'] as const;
+
+export type SuggestionType = typeof SUGGESTION_TYPES[number];
+
+const SUGGESTION_LABELS: Record<SuggestionType, string> = {
+  query: 'Populaire zoekopdracht',
+  artist: 'Kunstenaar',
+  type: 'Soort product',
+  theme: 'Thema',
+  product: 'Product'
+};
+
+export interface Suggestion {
+  type: SuggestionType;
+  label: string;               // Dutch type label for the dropdown
+  text: string;                // What to show and search for
+  count: number | null;        // Estimated number of results (null when unknown)
+  productId?: number;          // Product suggestions link straight to the product
+  url?: string;
+}
+
+/**
+ * Query string of /api/suggest
+ */
+export const suggestOptionsSchema = z.object({
+  q: z.string().max(100).default(''),
+  limit: z.coerce.number().int().min(1).max(20).default(8)
+});
+
+export interface SuggestOptions {
+  q: string;
+  limit: number;
+}
+
+interface Candidate {
+  type: SuggestionType;
+  text: string;
+  terms: string[];             // Normalized texts that match (name and aliases)
+  count: number | null;
+  weight: number;              // Order within a match class
+  productId?: number;
+  url?: string;
+}
+
+interface SuggestIndex {
+  products: Candidate[];
+  queries: Candidate[];
+  loadedAt: number;
+}
+
+const SUGGEST_INDEX_TTL_MS = 10 * 60_000;
+const POPULAR_QUERY_DAYS = 30;
+const POPULAR_QUERY_MIN_SEARCHES = 2;     // One-off (possibly personal) queries are never suggested
+const POPULAR_QUERY_LIMIT = 2000;
+const MIN_MATCH_LENGTH = 2;               // Shorter input only gets the most popular queries
+const MAX_TYPE_SHARE = 0.5;               // No type fills more than half of the list
+
+const MATCH_PREFIX = 3;                   // The suggestion starts with the input
+const MATCH_WORD = 2;                     // One of its words does
+const MATCH_FUZZY = 1;                    // Within maxTypos of the start of a word
+
+let cachedIndex: SuggestIndex | null = null;
+let loading: Promise<SuggestIndex> | null = null;
+
+/**
+ * Visible, in-stock product titles (best sellers first)
+ */
+async function loadProducts(db: QueryClient): Promise<Candidate[]> {
+  const { rows } = await db.query(`
+    SELECT p.id, p.title, p.url, p.stock_sold
+    FROM products p
+    WHERE p.is_visible AND ${IN_STOCK}
+    ORDER BY p.stock_sold DESC NULLS LAST
+  `);
+  return rows.map(row => ({
+    type: 'product' as const,
+    text: row.title,
+    terms: [normalizeQueryKey(row.title)],
+    count: 1,
+    weight: Number(row.stock_sold) || 0,
+    productId: Number(row.id),
+    url: row.url
+  }));
+}
+
+/**
+ * Queries searched at least POPULAR_QUERY_MIN_SEARCHES times that last found something
+ * Misspelled searches (corrected_query set) are never suggested.
+ * No analytics store (search_log missing or unreachable) → no popular queries.
+ */
+async function loadPopularQueries(db: QueryClient): Promise<Candidate[]> {
+  try {
+    const { rows } = await db.query(`
+      SELECT normalized_query AS query, COUNT(*)::int AS searches,
+             (ARRAY_AGG(result_count ORDER BY created_at DESC))[1] AS results
+      FROM search_log
+      WHERE created_at > NOW() - make_interval(days => $1) AND normalized_query <> '' AND corrected_query IS NULL
+      GROUP BY normalized_query
+      HAVING COUNT(*) >= $2 AND (ARRAY_AGG(result_count ORDER BY created_at DESC))[1] > 0
+      ORDER BY searches DESC
+      LIMIT $3
+    `, [POPULAR_QUERY_DAYS, POPULAR_QUERY_MIN_SEARCHES, POPULAR_QUERY_LIMIT]);
+    return rows.map(row => ({
+      type: 'query' as const,
+      text: row.query,
+      terms: [row.query],
+      count: Number(row.results),
+      weight: row.searches
+    }));
+  } catch (error: any) {
+    console.warn('[Suggest] No popular queries (analytics unavailable):', error.message);
+    return [];
+  }
+}
+
+/**
+ * Current index; loads on first use and reloads in the background when stale
+ * A failed reload keeps the previous index.
+ */
+async function getSuggestIndex(db: QueryClient): Promise<SuggestIndex> {
+  const stale = !cachedIndex || Date.now() - cachedIndex.loadedAt >= SUGGEST_INDEX_TTL_MS;
+  if (stale && !loading) {
+    loading = (async () => {
+      try {
+        const [products, queries] = await Promise.all([loadProducts(db), loadPopularQueries(db)]);
+        cachedIndex = { products, queries, loadedAt: Date.now() };
+        console.log(`[Suggest] Index loaded: ${products.length} products, ${queries.length} popular queries`);
+      } catch (error: any) {
+        console.warn('[Suggest] Index load failed, keeping the previous index:', error.message);
+        cachedIndex = cachedIndex ?? { products: [], queries: [], loadedAt: 0 };
+        cachedIndex.loadedAt = Date.now();
+      }
+      return cachedIndex;
+    })().finally(() => {
+      loading = null;
+    });
+  }
+  return cachedIndex ?? loading!;
+}
+
+/**
+ * Artists (with aliases), product types and themes from the catalog metadata
+ * Anything without an available product is left out when the counts are known.
+ */
+function vocabularyCandidates(): Candidate[] {
+  const metadata = getCatalogMetadata();
+  const aliases = new Map<string, string[]>();
+  for (const [alias, brand] of metadata.dictionaries.brandAliases) {
+    aliases.set(brand, [...(aliases.get(brand) ?? []), alias]);
+  }
+
+  const countOf = (counts: Map<string, number> | undefined, key: string) =>
+    counts && counts.size > 0 ? counts.get(key) ?? 0 : null;
+  const candidate = (type: SuggestionType, text: string, count: number | null, terms: string[] = []): Candidate => ({
+    type,
+    text,
+    terms: [normalizeQueryKey(text), ...terms.map(normalizeQueryKey)],
+    count,
+    weight: count ?? 0
+  });
+
+  return [
+    ...metadata.brands.map(brand => candidate('artist', brand, countOf(metadata.counts?.brands, brand), aliases.get(brand))),
+    ...metadata.productTypes.map(type => candidate('type', type, countOf(metadata.counts?.productTypes, type))),
+    ...metadata.popularThemes.map(theme => candidate('theme', theme, countOf(metadata.counts?.themes, theme)))
+  ].filter(c => c.count === null || c.count > 0);
+}
+
+/**
+ * How well a candidate matches the input (0 = not at all)
+ */
+function matchScore(candidate: Candidate, input: string, fuzzy: boolean): number {
+  let best = 0;
+  const typos = fuzzy ? maxTypos(input) : 0;
+
+  for (const term of candidate.terms) {
+    if (term.startsWith(input)) return MATCH_PREFIX;
+    if (term.includes(` ${input}`)) {
+      best = MATCH_WORD;
+      continue;
+    }
+    if (best === 0 && typos > 0) {
+      const starts = [0, ...Array.from(term.matchAll(/ /g), m => (m.index ?? 0) + 1)];
+      if (starts.some(start => editDistance(input, term.slice(start, start + input.length), typos) <= typos)) {
+        best = MATCH_FUZZY;
+      }
+    }
+  }
+
+  return best;
+}
+
+function toSuggestion(candidate: Candidate): Suggestion {
+  const suggestion: Suggestion = {
+    type: candidate.type,
+    label: SUGGESTION_LABELS[candidate.type],
+    text: candidate.text,
+    count: candidate.count
+  };
+  if (candidate.productId !== undefined) {
+    suggestion.productId = candidate.productId;
+    suggestion.url = candidate.url;
+  }
+  return suggestion;
+}
+
+/**
+ * Suggestions for the typed text, best first
+ * Input shorter than MIN_MATCH_LENGTH gets the most searched queries.
+ */
+export async function suggest({ q, limit }: SuggestOptions, db: QueryClient = sql): Promise<Suggestion[]> {
+  const index = await getSuggestIndex(db);
+  const input = normalizeQueryKey(q);
+
+  if (input.length < MIN_MATCH_LENGTH) {
+    return index.queries.slice(0, limit).map(toSuggestion);
+  }
+
+  const scored = [
+    ...index.queries.map(c => ({ candidate: c, score: matchScore(c, input, true) })),
+    ...vocabularyCandidates().map(c => ({ candidate: c, score: matchScore(c, input, true) })),
+    ...index.products.map(c => ({ candidate: c, score: matchScore(c, input, false) }))
+  ].filter(s => s.score > 0);
+
+  scored.sort((a, b) =>
+    b.score - a.score ||
+    SUGGESTION_TYPES.indexOf(a.candidate.type) - SUGGESTION_TYPES.indexOf(b.candidate.type) ||
+    b.candidate.weight - a.candidate.weight);
+
+  const perType = Math.max(1, Math.ceil(limit * MAX_TYPE_SHARE));
+  const taken = new Map<SuggestionType, number>();
+  const seen = new Set<string>();
+  const suggestions: Suggestion[] = [];
+
+  for (const { candidate } of scored) {
+    const key = normalizeQueryKey(candidate.text);
+    if (seen.has(key) || (taken.get(candidate.type) ?? 0) >= perType) continue;
+    seen.add(key);
+    taken.set(candidate.type, (taken.get(candidate.type) ?? 0) + 1);
+    suggestions.push(toSuggestion(candidate));
+    if (suggestions.length >= limit) break;
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,15 @@
+/**
+ * Types for lib/type-detector.js (plain JS)
+ */
+
+export interface TypeDetectorInput {
+  title?: string | null;
+  fulltitle?: string | null;
+  full_title?: string | null;
+  description?: string | null;
+  content?: string | null;
+}
+
+export function detectType(product: TypeDetectorInput): string;
+
+export function getAllTypes(): string[];
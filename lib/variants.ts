@@ -0,0 +1,99 @@
+/**
+ * Variants - Option parsing and variant selection
+ *
+ * Lightspeed encodes a variant's options in its title ("Maat: Groot,
+ * Kleur: Brons" or just "Groot, Brons"). The importer stores them per
+ * variant in product_variants (schema/016_product_variants.sql); search
+ * results show the price range and the variant that matches the query.
+ */
+
+export interface VariantOption {
+  name: string | null;     // "Kleur"; null when the title has values only
+  value: string;           // "Brons"
+}
+
+export interface ProductVariant {
+  id: number;
+  title: string | null;
+  options: VariantOption[];
+  price: number;
+  oldPrice: number | null;
+  stock: number | null;
+  isDefault: boolean;
+}
+
+/**
+ * What the search asked for (budget and option words)
+ */
+export interface VariantMatch {
+  priceMin?: number | null;
+  priceMax?: number | null;
+  terms: string[];
+}
+
+// Titles Lightspeed uses for products without real options
+const PLACEHOLDER_TITLES = new Set(['default', 'standaard', 'standard']);
+
+export function parseVariantOptions(title: string | null | undefined): VariantOption[] {
+  if (!title || PLACEHOLDER_TITLES.has(title.trim().toLowerCase())) return [];
+
+  return title
+    .split(',')
+    .map(part => part.replace(/["']/g, '').trim())
+    .filter(Boolean)
+    .map(part => {
+      const separator = part.indexOf(':');
+      if (separator === -1) return { name: null, value: part };
+      return { name: part.slice(0, separator).trim() || null, value: part.slice(separator + 1).trim() };
+    })
+    .filter(option => option.value);
+}
+
+/**
+ * Crude Dutch normalization for option words: "grote"/"groot" → "grot",
+ * "bronzen"/"brons" → "brons", "zilveren"/"zilver" → "zilver"
+ */
+function stem(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/(en|e)$/, '')
+    .replace(/([aeiou])\1/g, '$1')
+    .replace(/z$/, 's');
+}
+
+function optionWords(variant: ProductVariant): Set<string> {
+  const text = [variant.title, ...variant.options.map(o => o.value)].filter(Boolean).join(' ');
+  return new Set(text.split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1).map(stem));
+}
+
+function fitsBudget(variant: ProductVariant, match: VariantMatch): boolean {
+  return (!match.priceMax || variant.price <= match.priceMax) && (!match.priceMin || variant.price >= match.priceMin);
+}
+
+/**
+ * The variant to show for a result: within budget, most option words
+ * matched, then the default variant, then the cheapest
+ * Returns null for single-variant products or when nothing was asked for.
+ */
+export function selectMatchingVariant(variants: ProductVariant[], match: VariantMatch): ProductVariant | null {
+  const terms = match.terms.map(stem);
+  const hasBudget = Boolean(match.priceMin || match.priceMax);
+  if (variants.length < 2 || (!hasBudget && terms.length === 0)) return null;
+
+  const scored = variants
+    .filter(variant => fitsBudget(variant, match))
+    .map(variant => {
+      const words = optionWords(variant);
+      return { variant, hits: terms.filter(term => words.has(term)).length };
+    });
+
+  if (scored.length === 0) return null;
+  if (!hasBudget && scored.every(s => s.hits === 0)) return null;
+
+  scored.sort((a, b) =>
+    b.hits - a.hits ||
+    Number(b.variant.isDefault) - Number(a.variant.isDefault) ||
+    a.variant.price - b.variant.price
+  );
+  return scored[0].variant;
+}
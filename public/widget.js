@@ -5,11 +5,11 @@
 (function() {
   'use strict';
   
-  const VERSION = '5.4.0';
+  const VERSION = '5.9.0';
   const API_BASE = window.location.hostname === 'localhost' 
     ? 'http://localhost:3000/api'
     : 'https://kunstpakket.bluestars.app/api';
-  const ANALYTICS_API = 'https://analytics.bluestars.app/api/track';
+  const ANALYTICS_API = `${API_BASE}/analytics/events`;  // Searches are recorded by /api/search itself
   
   // LIVE MODE - set to true to enable widget for all users
   const LIVE = true;  // Change to false to require ?f=1 parameter
@@ -18,6 +18,11 @@
   let isSearching = false;
   let currentResults = null;
   let currentSort = 'popular';
+  let currentItems = [];
+  let isLoadingMore = false;
+  let sessionId = null;  // Multi-turn session: follow-ups like "iets goedkoper" refine the last search
+  const PAGE_SIZE = 48;
+  const SUGGEST_DEBOUNCE_MS = 150;  // Type-ahead waits for a pause in typing
   
   /**
    * LocalStorage helpers with expiry
@@ -60,25 +65,6 @@
   /**
    * Analytics tracking
    */
-  function trackSearch(searchId, query, resultCount) {
-    try {
-      // searchId is now passed as parameter (already in sessionStorage)
-      fetch(ANALYTICS_API, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          event: 'search',
-          client_id: 'kunstpakket.nl',
-          search_id: searchId,
-          query: query,
-          result_count: resultCount
-        })
-      }).catch(err => console.warn('[Analytics] Search tracking failed:', err));
-    } catch (err) {
-      console.warn('[Analytics] Error:', err);
-    }
-  }
-  
   function trackProductClick(productId, productUrl) {
     try {
       const searchId = getWithExpiry('kp_search_id');
@@ -276,6 +262,111 @@
         handleSearch();
       }
     });
+    attachSuggestions(input, (query) => {
+      input.blur();
+      openOverlay(query);
+    });
+  }
+  
+  /**
+   * Type-ahead dropdown under a search input (/api/suggest)
+   * Choosing a product opens it; anything else is searched.
+   */
+  function attachSuggestions(input, onSelect) {
+    const list = document.createElement('ul');
+    list.className = 'kp-suggestions';
+    list.style.display = 'none';
+    input.parentNode.appendChild(list);
+    
+    let timer = null;
+    let latest = 0;
+    let items = [];
+    let active = -1;
+    
+    const hide = () => {
+      list.style.display = 'none';
+      active = -1;
+    };
+    
+    const choose = (item) => {
+      hide();
+      if (item.type === 'product' && item.url) {
+        window.location.href = item.url;
+        return;
+      }
+      input.value = item.text;
+      onSelect(item.text);
+    };
+    
+    const render = () => {
+      if (items.length === 0) {
+        hide();
+        return;
+      }
+      list.innerHTML = items.map((item, index) => `
+        <li class="kp-suggestion${index === active ? ' active' : ''}" data-index="${index}">
+          <span class="kp-suggestion-text">${escapeHtml(item.text)}</span>
+          <span class="kp-suggestion-label">${escapeHtml(item.label)}</span>
+        </li>
+      `).join('');
+      list.style.display = 'block';
+      list.querySelectorAll('.kp-suggestion').forEach(el => {
+        // mousedown fires before the input's blur hides the list
+        el.addEventListener('mousedown', (e) => {
+          e.preventDefault();
+          choose(items[Number(el.dataset.index)]);
+        });
+      });
+    };
+    
+    input.addEventListener('input', () => {
+      clearTimeout(timer);
+      const query = input.value.trim();
+      if (!query) {
+        latest++;
+        hide();
+        return;
+      }
+      timer = setTimeout(async () => {
+        const requestId = ++latest;
+        try {
+          const response = await fetch(`${API_BASE}/suggest?q=${encodeURIComponent(query)}&limit=8`);
+          if (!response.ok) return;
+          const data = await response.json();
+          if (requestId !== latest) return;  // A newer keystroke already asked
+          items = data.suggestions || [];
+          active = -1;
+          render();
+        } catch (err) {
+          console.warn('[KP Search] Suggest failed:', err);
+        }
+      }, SUGGEST_DEBOUNCE_MS);
+    });
+    
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        // A search is starting: drop pending suggestions
+        clearTimeout(timer);
+        latest++;
+        if (list.style.display !== 'none' && active >= 0) {
+          e.preventDefault();
+          choose(items[active]);
+        }
+        hide();
+        return;
+      }
+      if (list.style.display === 'none') return;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        active = (active + 1 + step + items.length + 1) % (items.length + 1) - 1;
+        render();
+      } else if (e.key === 'Escape') {
+        hide();
+      }
+    });
+    
+    input.addEventListener('blur', hide);
   }
   
   /**
@@ -328,6 +419,7 @@
         setTimeout(() => input.blur(), 100);
       }
     });
+    attachSuggestions(document.getElementById('kp-search-input-overlay'), performSearch);
     document.getElementById('kp-search-input-overlay').addEventListener('keypress', (e) => {
       if (e.key === 'Enter') {
         const query = e.target.value.trim();
@@ -362,6 +454,8 @@
     document.body.style.overflow = 'hidden';
     
     if (query) {
+      // Search from the page's search bar starts a new conversation
+      sessionId = null;
       input.value = query;
       performSearch(query);
       
@@ -383,8 +477,9 @@
   
   /**
    * Perform search
+   * exact: search the query as typed (no "Bedoelde je" correction)
    */
-  async function performSearch(query) {
+  async function performSearch(query, { exact = false } = {}) {
     if (isSearching) return;
     
     isSearching = true;
@@ -394,60 +489,398 @@
     button.disabled = true;
     resultsContainer.innerHTML = '<div class="kp-loading"><span class="kp-dots"><span></span><span></span><span></span></span></div>';
     
-    // Generate search_id BEFORE search (so it's available for URL generation)
-    // Store in localStorage with 7-day expiry for cross-session tracking
-    const searchId = crypto.randomUUID();
-    setWithExpiry('kp_search_id', searchId);
     setWithExpiry('kp_last_query', query);
     
-    try {
-      const response = await fetch(`${API_BASE}/search`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query, limit: 1000 })
-      });
-      
-      if (!response.ok) throw new Error('Search failed');
-      
-      const data = await response.json();
+    // First-search promotions: no earlier search stored for this shopper
+    const firstSearch = !getWithExpiry('kp_search_id');
+    
+    // Products are shown as soon as they arrive; the advice streams in afterwards
+    let shown = false;
+    const showResults = (data) => {
+      shown = true;
+      sessionId = data.session?.id || null;
       currentResults = data;
+      currentItems = data.results?.items || [];
       
-      const resultCount = data.results?.total || data.results?.items?.length || 0;
-      
-      // Track search with pre-generated searchId
-      trackSearch(searchId, query, resultCount);
+      // Server-side searchId links clicks/purchases to the logged search
+      // Stored in localStorage with 7-day expiry for cross-session tracking
+      if (data.searchId) {
+        setWithExpiry('kp_search_id', data.searchId);
+      }
       
       renderResults(data);
+    };
+    const handlers = { onResults: showResults, onAdvice: appendAdviceText };
+    
+    try {
+      const correct = exact ? { correct: false } : {};
+      const data = await requestSearchStream({ query, sort: currentSort, limit: PAGE_SIZE, firstSearch, ...correct, ...sessionParams() }, handlers)
+        .catch(error => {
+          // Session expired → start a new one
+          if (error.status !== 410) throw error;
+          sessionId = null;
+          return requestSearchStream({ query, sort: currentSort, limit: PAGE_SIZE, ...correct, ...sessionParams() }, handlers);
+        });
+      
+      if (shown && !data.redirect) {
+        finishAdvice(data);
+      } else {
+        showResults(data);
+      }
       
     } catch (error) {
       console.error('[KP Search] Error:', error);
-      resultsContainer.innerHTML = '<div class="kp-error">⚠️ Er ging iets mis. Probeer opnieuw.</div>';
+      const message = error.status === 429
+        ? `⏳ Je zoekt wel heel snel! Probeer het over ${error.retryAfter || 'een paar'} seconden opnieuw.`
+        : error.status === 400
+          ? '✏️ Die zoekopdracht begrijpen we niet. Gebruik gewone woorden (maximaal 200 tekens).'
+          : '⚠️ Er ging iets mis. Probeer opnieuw.';
+      resultsContainer.innerHTML = `<div class="kp-error">${message}</div>`;
     } finally {
       isSearching = false;
       button.disabled = false;
     }
   }
   
+  /**
+   * POST to the search API (new query, re-sort via searchId, or next page via cursor)
+   */
+  async function requestSearch(body) {
+    const response = await fetch(`${API_BASE}/search`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    
+    if (!response.ok) {
+      const error = new Error('Search failed');
+      error.status = response.status;
+      error.retryAfter = parseInt(response.headers.get('Retry-After'), 10) || null;
+      throw error;
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * POST a new query and read the NDJSON event stream
+   * onResults gets the response without advice as soon as the products are
+   * known, onAdvice each piece of advice text; resolves to the full response.
+   * Falls back to a plain JSON body when the response is not streamed.
+   */
+  async function requestSearchStream(body, { onResults, onAdvice }) {
+    const response = await fetch(`${API_BASE}/search`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/x-ndjson' },
+      body: JSON.stringify(body)
+    });
+    
+    if (!response.ok) {
+      const error = new Error('Search failed');
+      error.status = response.status;
+      error.retryAfter = parseInt(response.headers.get('Retry-After'), 10) || null;
+      throw error;
+    }
+    
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.body || !contentType.includes('application/x-ndjson')) {
+      return response.json();
+    }
+    
+    let data = null;
+    const handle = ({ event, data: payload }) => {
+      if (event === 'filters') {
+        data = { success: true, needsMoreInfo: false, ...payload, results: null };
+      } else if (event === 'results') {
+        data.results = payload;
+        data.adviceStreaming = true;
+        onResults(data);
+      } else if (event === 'advice') {
+        onAdvice(payload.text);
+      } else if (event === 'summary') {
+        data.adviceStreaming = false;
+        data.results.advice = payload.advice;
+        data.query.took_ms = payload.took_ms;
+      } else if (event === 'redirect') {
+        data = payload;
+      } else if (event === 'error') {
+        const error = new Error(payload.error);
+        error.status = payload.status;
+        throw error;
+      }
+    };
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value || new Uint8Array(), { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+      lines.filter(line => line.trim()).forEach(line => handle(JSON.parse(line)));
+      if (done) break;
+    }
+    
+    return data;
+  }
+  
+  /**
+   * Append streamed advice text (replaces the loading dots on the first piece)
+   */
+  function appendAdviceText(text) {
+    const element = document.getElementById('kp-ai-advice-text');
+    if (!element) return;
+    if (element.dataset.streaming !== 'true') {
+      element.dataset.streaming = 'true';
+      element.textContent = '';
+    }
+    element.textContent += text;
+  }
+  
+  /**
+   * The complete advice (authoritative, e.g. after a fallback mid-stream)
+   */
+  function finishAdvice(data) {
+    const element = document.getElementById('kp-ai-advice-text');
+    if (element && data.results?.advice) {
+      element.textContent = data.results.advice;
+    }
+  }
+  
+  function sessionParams() {
+    return sessionId ? { sessionId } : { session: true };
+  }
+  
+  /**
+   * Remove an active filter chip (re-runs the session search without it)
+   */
+  async function removeChip(field, value) {
+    if (!sessionId || isSearching) return;
+    
+    isSearching = true;
+    try {
+      const data = await requestSearch({ sessionId, remove: [{ field, value }], sort: currentSort, limit: PAGE_SIZE });
+      currentResults = data;
+      currentItems = data.results?.items || [];
+      if (data.searchId) {
+        setWithExpiry('kp_search_id', data.searchId);
+      }
+      renderResults(data);
+    } catch (error) {
+      console.error('[KP Search] Remove filter error:', error);
+    } finally {
+      isSearching = false;
+    }
+  }
+  
+  /**
+   * Answer a gift finder question (re-runs the session search with the choice)
+   */
+  async function answerQuestion(field, value) {
+    if (!sessionId || isSearching) return;
+    
+    isSearching = true;
+    try {
+      const data = await requestSearch({ sessionId, answers: [{ field, value }], sort: currentSort, limit: PAGE_SIZE });
+      currentResults = data;
+      currentItems = data.results?.items || [];
+      if (data.searchId) {
+        setWithExpiry('kp_search_id', data.searchId);
+      }
+      renderResults(data);
+    } catch (error) {
+      console.error('[KP Search] Answer question error:', error);
+    } finally {
+      isSearching = false;
+    }
+  }
+  
+  /**
+   * Discount code of the active promotion (or a merchandising campaign)
+   */
+  function renderDiscountCode(discount) {
+    if (!discount) return '';
+    const code = escapeHtml(discount.code);
+    const minimum = discount.minimumBasket ? ` bij besteding vanaf €${discount.minimumBasket.toFixed(2)}` : '';
+    return `
+      <div class="kp-discount-code">
+        <div class="kp-discount-label">${escapeHtml(discount.label || 'Kortingscode')}:</div>
+        <div class="kp-discount-code-box">
+          <span class="kp-code">${code}</span>
+          <span class="kp-discount-amount">${escapeHtml(discount.amount)} ${escapeHtml(discount.description)}${minimum}</span>
+        </div>
+        <div class="kp-discount-instruction">Gebruik deze code (${code}) bij het afrekenen.</div>
+      </div>
+    `;
+  }
+  
+  /**
+   * Campaign banner attached by a merchandising rule
+   */
+  function renderBanner(banner) {
+    if (!banner) return '';
+    const content = `
+      ${banner.imageUrl ? `<img class="kp-banner-image" src="${escapeHtml(banner.imageUrl)}" alt="">` : ''}
+      <div class="kp-banner-text">
+        <strong>${escapeHtml(banner.title)}</strong>
+        ${banner.text ? `<span>${escapeHtml(banner.text)}</span>` : ''}
+      </div>
+    `;
+    return banner.linkUrl
+      ? `<a class="kp-banner" href="${escapeHtml(banner.linkUrl)}">${content}</a>`
+      : `<div class="kp-banner">${content}</div>`;
+  }
+  
+  /**
+   * "Bedoelde je: Kokeshi dolls?" with a way back to the query as typed
+   */
+  function renderCorrection(data) {
+    const correction = data.query?.correction;
+    if (!correction) return '';
+    
+    return `
+      <div class="kp-correction">
+        <span>${escapeHtml(correction.message)}</span>
+        <button class="kp-correction-original" data-query="${escapeHtml(correction.original)}">Zoek toch naar "${escapeHtml(correction.original)}"</button>
+      </div>
+    `;
+  }
+  
+  function renderChips(data) {
+    const chips = data.session?.activeFilters || [];
+    if (chips.length === 0) return '';
+    
+    return `
+      <div class="kp-filter-chips">
+        ${chips.map(chip => `
+          <button class="kp-chip" data-field="${escapeHtml(chip.field)}" data-value="${escapeHtml(chip.value)}" aria-label="Verwijder filter ${escapeHtml(chip.label)}">
+            ${escapeHtml(chip.label)} <span class="kp-chip-remove">×</span>
+          </button>
+        `).join('')}
+      </div>
+    `;
+  }
+  
+  /**
+   * First open gift finder question with its options ("Voor wie is het cadeau?")
+   */
+  function renderGiftQuestion(data) {
+    const question = data.results?.giftFinder?.questions?.[0];
+    if (!question || !sessionId) return '';
+    
+    return `
+      <div class="kp-gift-finder">
+        <div class="kp-gift-question">${escapeHtml(question.question)}</div>
+        <div class="kp-gift-options">
+          ${question.options.map(option => `
+            <button class="kp-gift-option" data-field="${escapeHtml(question.field)}" data-value="${escapeHtml(option.value)}">${escapeHtml(option.label)}</button>
+          `).join('')}
+        </div>
+      </div>
+    `;
+  }
+  
+  /**
+   * Re-sort on the server (reuses the parsed search, no new AI call)
+   */
+  async function changeSort(sort) {
+    currentSort = sort;
+    if (!currentResults?.searchId || isSearching) return;
+    
+    isSearching = true;
+    try {
+      const data = await requestSearch({ searchId: currentResults.searchId, sort, limit: PAGE_SIZE });
+      // Keep the advice from the original search
+      data.results.advice = currentResults.results.advice;
+      currentResults = data;
+      currentItems = data.results.items || [];
+      renderResults(data);
+    } catch (error) {
+      isSearching = false;
+      // Stored search expired → run the query again
+      if (error.status === 410 && currentResults?.query?.original) {
+        return performSearch(currentResults.query.original);
+      }
+      console.error('[KP Search] Sort error:', error);
+    } finally {
+      isSearching = false;
+    }
+  }
+  
+  /**
+   * Append the next page of results
+   */
+  async function loadMore() {
+    const cursor = currentResults?.results?.nextCursor;
+    if (!cursor || isLoadingMore) return;
+    
+    isLoadingMore = true;
+    const button = document.getElementById('kp-load-more');
+    if (button) button.disabled = true;
+    
+    try {
+      const data = await requestSearch({ cursor });
+      currentItems = currentItems.concat(data.results.items || []);
+      currentResults.results.nextCursor = data.results.nextCursor;
+      currentResults.results.hasMore = data.results.hasMore;
+      
+      const grid = document.querySelector('#kp-search-results-overlay .kp-products-grid');
+      const searchId = getWithExpiry('kp_search_id') || '';
+      if (grid) {
+        grid.insertAdjacentHTML('beforeend', (data.results.items || []).map(p => renderProductCard(p, searchId)).join(''));
+      }
+      updateLoadMoreButton();
+    } catch (error) {
+      console.error('[KP Search] Load more error:', error);
+      if (button) button.disabled = false;
+    } finally {
+      isLoadingMore = false;
+    }
+  }
+  
+  function updateLoadMoreButton() {
+    const button = document.getElementById('kp-load-more');
+    if (!button) return;
+    
+    const remaining = (currentResults?.results?.total || 0) - currentItems.length;
+    button.style.display = currentResults?.results?.hasMore ? '' : 'none';
+    button.disabled = false;
+    button.textContent = `Meer laden (${remaining})`;
+  }
+  
   /**
    * Render results
    */
   function renderResults(data) {
     const container = document.getElementById('kp-search-results-overlay');
     
+    // Merchandising redirect (e.g. "sale" → the sale landing page)
+    if (data.redirect) {
+      window.location.href = data.redirect;
+      return;
+    }
+    
+    const adviceLoading = '<span class="kp-dots"><span></span><span></span><span></span></span>';
+    
     // No results - show helpful message in same style as AI intro
     if (!data.success || !data.results?.items || data.results.items.length === 0) {
       const adviceText = data.results?.advice || '✨ Laten we je zoekopdracht verfijnen! Probeer bijvoorbeeld: "kat beeld onder 50 euro", "sportbeeld max 100 euro", of "bloemen vaas onder 80 euro".';
       
       container.innerHTML = `
+        ${renderCorrection(data)}
+        ${renderChips(data)}
         <div class="kp-ai-intro">
-          <div class="kp-ai-intro-text">
-            ${escapeHtml(adviceText)}
+          <div class="kp-ai-intro-text" id="kp-ai-advice-text">
+            ${data.adviceStreaming ? adviceLoading : escapeHtml(adviceText)}
           </div>
+          ${renderGiftQuestion(data)}
           <button class="kp-search-again-btn" id="kp-search-again-empty">Zoek opnieuw</button>
         </div>
       `;
       
       // Add click handler for search again button
+      attachChipHandlers();
       setTimeout(() => {
         const btn = document.getElementById('kp-search-again-empty');
         if (btn) {
@@ -464,37 +897,33 @@
       return;
     }
     
-    const products = filterAndSortProducts(data.results.items);
+    const products = currentItems;
+    const total = data.results.total || products.length;
     const saleCount = products.filter(p => p.onSale).length;
     
     let html = '';
     
     // Add AI advice if available (no wrapper needed - has its own margin)
-    if (data.results.advice) {
+    if (data.results.advice || data.adviceStreaming) {
       html += `
         <div class="kp-ai-intro">
-          <div class="kp-ai-intro-text">${escapeHtml(data.results.advice)}</div>
-          ${data.results.discountCode ? `
-            <div class="kp-discount-code">
-              <div class="kp-discount-label">🍂 Herfstkorting:</div>
-              <div class="kp-discount-code-box">
-                <span class="kp-code">${data.results.discountCode.code}</span>
-                <span class="kp-discount-amount">${data.results.discountCode.amount} ${data.results.discountCode.description}</span>
-              </div>
-              <div class="kp-discount-instruction">Gebruik deze code (750) bij het afrekenen.</div>
-            </div>
-          ` : ''}
+          <div class="kp-ai-intro-text" id="kp-ai-advice-text">${data.adviceStreaming ? adviceLoading : escapeHtml(data.results.advice)}</div>
+          ${renderDiscountCode(data.results.discountCode)}
         </div>
       `;
     }
     
     // Wrap results content in container with padding
     html += `<div class="kp-results-content">`;
+    html += renderCorrection(data);
+    html += renderBanner(data.results.merchandising?.banner);
+    html += renderChips(data);
+    html += renderGiftQuestion(data);
     
     html += `
       <div class="kp-results-header">
         <div class="kp-results-count">
-          ${products.length} ${products.length === 1 ? 'product' : 'producten'} gevonden
+          ${total} ${total === 1 ? 'product' : 'producten'} gevonden
         </div>
         <div class="kp-controls">
           <select id="kp-sort-select" class="kp-select">
@@ -511,45 +940,11 @@
     const searchId = getWithExpiry('kp_search_id') || '';
     
     products.forEach(product => {
-      const imageUrl = getOptimizedImageUrl(product.image);
-      
-      // Add tracking params to URL for reliable click tracking (iOS Safari proof!)
-      // Include product name for easy analytics without database lookup!
-      // All params prefixed with 'bs' so Lightspeed doesn't filter them
-      const productName = encodeURIComponent(product.title);
-      const trackingUrl = `https://www.kunstpakket.nl/${product.url}.html?bsclick=1&bssid=${searchId}&bspid=${product.id}&bspname=${productName}`;
-      
-      html += `
-        <a href="${trackingUrl}" 
-           class="kp-product-card" 
-           data-product-id="${product.id}"
-           data-product-url="${product.url}">
-          ${product.image ? `<img src="${imageUrl}" alt="${escapeHtml(product.title)}" loading="lazy" />` : '<div class="kp-no-image"></div>'}
-          <div class="kp-product-info">
-            ${product.isPopular || product.isScarce ? `
-              <div class="kp-product-badges">
-                ${product.isPopular ? `<span class="kp-badge kp-badge-popular">Populair</span>` : ''}
-                ${product.isScarce ? `<span class="kp-badge kp-badge-scarce">${product.stock} op voorraad</span>` : ''}
-              </div>
-            ` : ''}
-            <div class="kp-product-title">${escapeHtml(product.title)}</div>
-            ${product.dimensions ? `<div class="kp-product-dimensions">Afmetingen: ${escapeHtml(product.dimensions)}</div>` : ''}
-            ${product.price ? `
-              <div class="kp-product-pricing">
-                <div class="kp-product-price">
-                  €${product.price.toFixed(2)}
-                  <span class="kp-price-vat">incl. BTW</span>
-                </div>
-                ${product.oldPrice ? `<div class="kp-product-old-price">€${product.oldPrice.toFixed(2)}</div>` : ''}
-                ${product.onSale ? `<span class="kp-sale-tag">-${product.discount}%</span>` : ''}
-              </div>
-            ` : ''}
-          </div>
-        </a>
-      `;
+      html += renderProductCard(product, searchId);
     });
     
     html += '</div>'; // Close products-grid
+    html += `<button class="kp-load-more" id="kp-load-more" style="display: none;">Meer laden</button>`;
     html += '</div>'; // Close results-content wrapper
     container.innerHTML = html;
     
@@ -560,35 +955,87 @@
       
       // Attach event listener
       sortSelect.addEventListener('change', (e) => {
-        currentSort = e.target.value;
-        renderResults(currentResults);
+        changeSort(e.target.value);
       });
     }
     
+    attachChipHandlers();
+    
+    const loadMoreButton = document.getElementById('kp-load-more');
+    if (loadMoreButton) {
+      loadMoreButton.addEventListener('click', loadMore);
+      updateLoadMoreButton();
+    }
+    
     // Note: Click tracking now happens via URL params (?bsclick=1&sid=...&pid=...)
     // This is much more reliable than event listeners, especially on iOS Safari!
   }
   
-  function filterAndSortProducts(products) {
-    let sorted = [...products];
-    
-    switch (currentSort) {
-      case 'price-asc':
-        sorted.sort((a, b) => (a.price || 0) - (b.price || 0));
-        break;
-      case 'price-desc':
-        sorted.sort((a, b) => (b.price || 0) - (a.price || 0));
-        break;
-      case 'discount':
-        sorted.sort((a, b) => (b.discount || 0) - (a.discount || 0));
-        break;
-      case 'popular':
-      default:
-        sorted.sort((a, b) => (b.salesCount || 0) - (a.salesCount || 0));
-        break;
-    }
+  function attachChipHandlers() {
+    document.querySelectorAll('#kp-search-results-overlay .kp-chip').forEach(chip => {
+      chip.addEventListener('click', () => removeChip(chip.dataset.field, chip.dataset.value));
+    });
+    document.querySelectorAll('#kp-search-results-overlay .kp-gift-option').forEach(option => {
+      option.addEventListener('click', () => answerQuestion(option.dataset.field, option.dataset.value));
+    });
+    document.querySelectorAll('#kp-search-results-overlay .kp-correction-original').forEach(button => {
+      button.addEventListener('click', () => {
+        const input = document.getElementById('kp-search-input-overlay');
+        if (input) input.value = button.dataset.query;
+        performSearch(button.dataset.query, { exact: true });
+      });
+    });
+  }
+  
+  /**
+   * Render a single product card
+   */
+  function renderProductCard(product, searchId) {
+    const imageUrl = getOptimizedImageUrl(product.image);
+    
+    // Add tracking params to URL for reliable click tracking (iOS Safari proof!)
+    // Include product name for easy analytics without database lookup!
+    // All params prefixed with 'bs' so Lightspeed doesn't filter them
+    const productName = encodeURIComponent(product.title);
+    const trackingUrl = `https://www.kunstpakket.nl/${product.url}.html?bsclick=1&bssid=${searchId}&bspid=${product.id}&bspname=${productName}`;
     
-    return sorted;
+    // The variant matching the search wins; otherwise show "vanaf" for products with a price range
+    const variant = product.matchingVariant;
+    const price = variant ? variant.price : (product.priceRange ? product.priceRange.min : product.price);
+    const oldPrice = variant ? variant.oldPrice : (product.priceRange ? null : product.oldPrice);
+    const onSale = variant ? variant.onSale : (!product.priceRange && product.onSale);
+    const discount = oldPrice ? Math.round((1 - price / oldPrice) * 100) : 0;
+    const pricePrefix = !variant && product.priceRange ? 'vanaf ' : '';
+    
+    return `
+      <a href="${escapeHtml(trackingUrl)}" 
+         class="kp-product-card" 
+         data-product-id="${escapeHtml(product.id)}"
+         data-product-url="${escapeHtml(product.url)}">
+        ${product.image ? `<img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(product.title)}" loading="lazy" />` : '<div class="kp-no-image"></div>'}
+        <div class="kp-product-info">
+          ${product.isPopular || product.isScarce ? `
+            <div class="kp-product-badges">
+              ${product.isPopular ? `<span class="kp-badge kp-badge-popular">Populair</span>` : ''}
+              ${product.isScarce ? `<span class="kp-badge kp-badge-scarce">${product.stock} op voorraad</span>` : ''}
+            </div>
+          ` : ''}
+          <div class="kp-product-title">${escapeHtml(product.title)}</div>
+          ${product.dimensions ? `<div class="kp-product-dimensions">Afmetingen: ${escapeHtml(product.dimensions)}</div>` : ''}
+          ${variant && variant.title ? `<div class="kp-product-variant">Uitvoering: ${escapeHtml(variant.title)}</div>` : ''}
+          ${price ? `
+            <div class="kp-product-pricing">
+              <div class="kp-product-price">
+                ${pricePrefix}€${price.toFixed(2)}
+                <span class="kp-price-vat">incl. BTW</span>
+              </div>
+              ${oldPrice ? `<div class="kp-product-old-price">€${oldPrice.toFixed(2)}</div>` : ''}
+              ${onSale ? `<span class="kp-sale-tag">-${discount}%</span>` : ''}
+            </div>
+          ` : ''}
+        </div>
+      </a>
+    `;
   }
   
   function getOptimizedImageUrl(imageUrl) {
@@ -597,10 +1044,16 @@
     return match ? `${match[1]}/350x350x2/${match[2]}` : imageUrl;
   }
   
+  /**
+   * Escape text for HTML content and quoted attribute values
+   */
   function escapeHtml(text) {
-    const div = document.createElement('div');
-    div.textContent = text;
-    return div.innerHTML;
+    return String(text ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
   }
   
   /**
@@ -650,6 +1103,47 @@
         transition: all 0.2s;
       }
       
+      .kp-search-wrapper,
+      .kp-search-box-overlay {
+        position: relative;
+      }
+      
+      .kp-suggestions {
+        position: absolute;
+        top: calc(100% + 6px);
+        left: 0;
+        right: 0;
+        margin: 0;
+        padding: 6px 0;
+        list-style: none;
+        background: white;
+        border-radius: 12px;
+        box-shadow: 0 8px 24px rgba(15, 23, 42, 0.12);
+        z-index: 1000;
+      }
+      
+      .kp-suggestion {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 12px;
+        padding: 8px 16px;
+        cursor: pointer;
+        color: #1e293b;
+        font-size: 14px;
+      }
+      
+      .kp-suggestion:hover,
+      .kp-suggestion.active {
+        background: #f1f5f9;
+      }
+      
+      .kp-suggestion-label {
+        color: #94a3b8;
+        font-size: 12px;
+        white-space: nowrap;
+      }
+      
       .kp-search-wrapper:focus-within {
         background: #ececec;
       }
@@ -973,6 +1467,39 @@
         margin-bottom: 0;
       }
       
+      .kp-banner {
+        display: flex;
+        align-items: center;
+        gap: 16px;
+        margin-bottom: 20px;
+        padding: 16px 20px;
+        background: #fdf8e8;
+        border: 1px solid #d4af37;
+        border-radius: 8px;
+        color: #0f172a;
+        text-decoration: none;
+      }
+      
+      .kp-banner-image {
+        width: 64px;
+        height: 64px;
+        object-fit: cover;
+        border-radius: 6px;
+      }
+      
+      .kp-banner-text {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        font-size: 14px;
+        color: #475569;
+      }
+      
+      .kp-banner-text strong {
+        font-size: 16px;
+        color: #0f172a;
+      }
+      
       .kp-discount-code {
         margin-top: 20px;
         padding-top: 20px;
@@ -1045,6 +1572,119 @@
         padding: 24px;
       }
       
+      .kp-filter-chips {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+      
+      .kp-chip {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 6px 12px;
+        background: #f1f5f9;
+        color: #1e293b;
+        border: 1px solid #e2e8f0;
+        border-radius: 999px;
+        font-size: 13px;
+        cursor: pointer;
+        transition: all 0.2s;
+      }
+      
+      .kp-chip:hover {
+        background: #e2e8f0;
+      }
+      
+      .kp-chip-remove {
+        font-size: 15px;
+        line-height: 1;
+        color: #64748b;
+      }
+      
+      .kp-gift-finder {
+        margin-bottom: 16px;
+      }
+      
+      .kp-ai-intro .kp-gift-finder {
+        margin-top: 16px;
+      }
+      
+      .kp-gift-question {
+        font-size: 15px;
+        font-weight: 600;
+        color: #1e293b;
+        margin-bottom: 8px;
+      }
+      
+      .kp-correction {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: baseline;
+        gap: 8px;
+        margin-bottom: 16px;
+        color: #1e293b;
+        font-size: 15px;
+        font-weight: 600;
+      }
+      
+      .kp-correction-original {
+        padding: 0;
+        background: none;
+        border: none;
+        color: #64748b;
+        font-size: 13px;
+        text-decoration: underline;
+        cursor: pointer;
+      }
+      
+      .kp-gift-options {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+      }
+      
+      .kp-gift-option {
+        padding: 6px 14px;
+        background: white;
+        color: #1e293b;
+        border: 1px solid #cbd5e1;
+        border-radius: 999px;
+        font-size: 13px;
+        cursor: pointer;
+        transition: all 0.2s;
+      }
+      
+      .kp-gift-option:hover {
+        background: #1e293b;
+        border-color: #1e293b;
+        color: white;
+      }
+      
+      .kp-load-more {
+        display: block;
+        margin: 32px auto 0;
+        padding: 12px 28px;
+        background: #1e293b;
+        color: white;
+        border: none;
+        border-radius: 6px;
+        font-size: 14px;
+        font-weight: 500;
+        cursor: pointer;
+        transition: all 0.2s;
+      }
+      
+      .kp-load-more:hover {
+        background: #334155;
+      }
+      
+      .kp-load-more:disabled {
+        opacity: 0.6;
+        cursor: wait;
+      }
+      
       .kp-results-header {
         display: flex;
         justify-content: space-between;
@@ -1178,6 +1818,12 @@
         margin-bottom: 8px;
       }
       
+      .kp-product-variant {
+        font-size: 12px;
+        color: #64748b;
+        margin-bottom: 8px;
+      }
+      
       .kp-product-pricing {
         display: flex;
         gap: 8px;
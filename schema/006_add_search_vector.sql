@@ -0,0 +1,15 @@
+-- Category names (denormalized from product_categories, filled by the importer)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS category_names TEXT;
+
+-- Full-text search vector with Dutch stemming
+-- Weights: A = title, B = artist + categories, C = description, D = content
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('dutch', coalesce(title, '') || ' ' || coalesce(full_title, '')), 'A') ||
+    setweight(to_tsvector('dutch', coalesce(artist, '') || ' ' || coalesce(category_names, '')), 'B') ||
+    setweight(to_tsvector('dutch', regexp_replace(coalesce(description, ''), '<[^>]*>', ' ', 'g')), 'C') ||
+    setweight(to_tsvector('dutch', regexp_replace(coalesce(content, ''), '<[^>]*>', ' ', 'g')), 'D')
+  ) STORED;
+
+-- GIN index for fast @@ matching
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN(search_vector);
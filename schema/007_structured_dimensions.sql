@@ -0,0 +1,16 @@
+-- Structured dimensions in centimetres (parsed by lib/dimension-parser.js)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS height_cm NUMERIC(7,1);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS width_cm NUMERIC(7,1);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS depth_cm NUMERIC(7,1);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS diameter_cm NUMERIC(7,1);
+
+-- Largest dimension, used for klein/middel/groot size classes
+ALTER TABLE products ADD COLUMN IF NOT EXISTS max_dimension_cm NUMERIC(7,1)
+  GENERATED ALWAYS AS (GREATEST(height_cm, width_cm, depth_cm, diameter_cm)) STORED;
+
+-- Indexes for size filters
+CREATE INDEX IF NOT EXISTS idx_products_height_cm ON products(height_cm) WHERE height_cm IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_products_width_cm ON products(width_cm) WHERE width_cm IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_products_max_dimension_cm ON products(max_dimension_cm) WHERE max_dimension_cm IS NOT NULL;
+
+-- Existing rows are filled by: npm run db:backfill-dimensions
@@ -0,0 +1,13 @@
+-- Parsed search state, so follow-up pages and re-sorts skip the LLM and embedding calls
+CREATE TABLE IF NOT EXISTS search_contexts (
+  id UUID PRIMARY KEY,
+  query TEXT NOT NULL,
+  filters JSONB NOT NULL,
+  filter_source TEXT,
+  embedding vector(1536) NOT NULL,
+  keyword_filter BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Expired contexts are removed by created_at
+CREATE INDEX IF NOT EXISTS idx_search_contexts_created_at ON search_contexts(created_at);
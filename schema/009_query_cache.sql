@@ -0,0 +1,18 @@
+-- Shared cache for parsed filters, query embeddings and advice (QUERY_CACHE_BACKEND=postgres)
+CREATE TABLE IF NOT EXISTS query_cache (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_cache_expires_at ON query_cache(expires_at);
+
+-- Cache generation, bumped after every catalog import to invalidate all instances
+CREATE TABLE IF NOT EXISTS query_cache_version (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  generation INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO query_cache_version (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,30 @@
+-- Search analytics: one row per search (new query, not follow-up pages)
+CREATE TABLE IF NOT EXISTS search_log (
+  search_id UUID PRIMARY KEY,
+  query TEXT NOT NULL,
+  normalized_query TEXT NOT NULL,
+  filters JSONB,
+  filter_source TEXT,
+  similarity_threshold REAL,
+  result_count INTEGER NOT NULL,
+  keyword_fallback BOOLEAN NOT NULL DEFAULT false,
+  timings JSONB,            -- query.took_ms diagnostics (per stage + cache status)
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_log_created_at ON search_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_search_log_normalized_query ON search_log(normalized_query);
+
+-- Clicks and purchases attributed to a search (sent by the widget)
+CREATE TABLE IF NOT EXISTS search_interactions (
+  id BIGSERIAL PRIMARY KEY,
+  search_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('click', 'purchase')),
+  product_id BIGINT,
+  product_url TEXT,
+  client_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_interactions_search_id ON search_interactions(search_id);
+CREATE INDEX IF NOT EXISTS idx_search_interactions_created_at ON search_interactions(created_at);
@@ -0,0 +1,6 @@
+-- Relaxation that produced the results (see lib/relaxation.ts)
+-- Stored with the search context so follow-up pages use the same relaxed filters
+ALTER TABLE search_contexts ADD COLUMN IF NOT EXISTS relaxation JSONB;
+
+-- Recorded in analytics to see which near-misses happen most
+ALTER TABLE search_log ADD COLUMN IF NOT EXISTS relaxation TEXT[];
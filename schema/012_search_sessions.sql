@@ -0,0 +1,12 @@
+-- Multi-turn search sessions: active filters + previous turns (see lib/search-session.ts)
+CREATE TABLE IF NOT EXISTS search_sessions (
+  id UUID PRIMARY KEY,
+  filters JSONB NOT NULL,
+  turns JSONB NOT NULL DEFAULT '[]',
+  price_range JSONB,              -- Price range of the last results ("goedkoper" without a budget)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Idle sessions are removed by updated_at
+CREATE INDEX IF NOT EXISTS idx_search_sessions_updated_at ON search_sessions(updated_at);
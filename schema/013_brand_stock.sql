@@ -0,0 +1,4 @@
+-- Columns written by scripts/import-products.js that earlier migrations never created
+-- (production got them by hand; a fresh database such as the eval fixture needs them)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS brand TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS stock INT;
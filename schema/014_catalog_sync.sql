@@ -0,0 +1,23 @@
+-- Incremental catalog sync (see lib/catalog-sync.ts)
+-- embedding_hash: hash of the embedding text + embedding model → re-embed only when it changes
+-- data_hash: hash of all other synced fields → skip unchanged rows entirely
+ALTER TABLE products ADD COLUMN IF NOT EXISTS embedding_hash TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS data_hash TEXT;
+
+-- Tombstone: products that disappeared from Lightspeed or became hidden
+-- (is_visible = false keeps them out of search, the row keeps analytics joins intact)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- One row per sync run; checkpoint = last product id written, for --resume
+CREATE TABLE IF NOT EXISTS catalog_sync_runs (
+  id UUID PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'running',     -- running | completed | failed
+  checkpoint BIGINT,
+  stats JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_sync_runs_started_at ON catalog_sync_runs(started_at DESC);
@@ -0,0 +1,27 @@
+-- Lightspeed webhook event log (see lib/lightspeed-webhooks.ts)
+-- idempotency_key = hash of group, action, object id and raw body: a redelivery
+-- of an event that was already applied is acknowledged without applying it again
+CREATE TABLE IF NOT EXISTS lightspeed_webhook_events (
+  id BIGSERIAL PRIMARY KEY,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  event_group TEXT NOT NULL,                   -- products | variants | categories
+  action TEXT NOT NULL,                        -- created | updated | deleted
+  object_id BIGINT,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received',     -- received | processed | ignored | failed
+  attempts INT NOT NULL DEFAULT 0,
+  result JSONB,
+  error TEXT,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_lightspeed_webhook_events_status ON lightspeed_webhook_events(status, received_at DESC);
+
+-- Category titles from category webhooks (override data/categories.json until the next deploy)
+CREATE TABLE IF NOT EXISTS catalog_categories (
+  id BIGINT PRIMARY KEY,
+  title TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
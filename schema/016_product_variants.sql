@@ -0,0 +1,46 @@
+-- All Lightspeed variants per product (filled by lib/catalog-sync.ts)
+-- products.price/old_price/stock stay the default variant's values
+CREATE TABLE IF NOT EXISTS product_variants (
+  id BIGINT PRIMARY KEY,
+  product_id BIGINT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  title TEXT,                                  -- Lightspeed variant title ("Maat: Groot, Kleur: Brons")
+  options JSONB NOT NULL DEFAULT '[]',         -- [{ name, value }] parsed from the title (lib/variants.ts)
+  sku TEXT,
+  price NUMERIC(10,2),
+  old_price NUMERIC(10,2),
+  stock INT,
+  stock_sold INT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  sort_order INT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_price ON product_variants(product_id, price);
+
+-- Price range over all variants ("vanaf €49"); NULL until the variants are imported
+ALTER TABLE products ADD COLUMN IF NOT EXISTS min_price NUMERIC(10,2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS max_price NUMERIC(10,2);
+
+-- Option values of all variants ("Groot Klein Brons Zilver") for full-text search
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_titles TEXT;
+
+-- Rebuild the search vector with variant options (weight B, next to artist + categories)
+-- Generated columns cannot be altered; only rebuild when the expression is still the old one
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_vector' AND generation_expression LIKE '%variant_titles%'
+  ) THEN
+    ALTER TABLE products DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE products ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('dutch', coalesce(title, '') || ' ' || coalesce(full_title, '')), 'A') ||
+        setweight(to_tsvector('dutch', coalesce(artist, '') || ' ' || coalesce(category_names, '') || ' ' || coalesce(variant_titles, '')), 'B') ||
+        setweight(to_tsvector('dutch', regexp_replace(coalesce(description, ''), '<[^>]*>', ' ', 'g')), 'C') ||
+        setweight(to_tsvector('dutch', regexp_replace(coalesce(content, ''), '<[^>]*>', ' ', 'g')), 'D')
+      ) STORED;
+    CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN(search_vector);
+  END IF;
+END $$;
@@ -0,0 +1,28 @@
+-- Catalog metadata for AI prompts (see lib/catalog-metadata.ts)
+-- Filled by the catalog import and POST /api/admin/catalog-metadata { "seed": true };
+-- categories live in catalog_categories (schema/015_lightspeed_webhooks.sql)
+CREATE TABLE IF NOT EXISTS catalog_brands (
+  id BIGINT PRIMARY KEY,
+  title TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Curated search themes (seeded from data/themes.json)
+CREATE TABLE IF NOT EXISTS catalog_themes (
+  theme TEXT PRIMARY KEY,
+  sort_order INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Version stamp, bumped on every metadata change so all instances reload
+CREATE TABLE IF NOT EXISTS catalog_metadata_version (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO catalog_metadata_version (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- Brand and type counts group on these
+CREATE INDEX IF NOT EXISTS idx_products_artist ON products(artist) WHERE is_visible;
@@ -0,0 +1,12 @@
+-- Search dictionaries: brand aliases, synonym groups, theme expansions, ignored words
+-- Managed through /api/admin/dictionaries (see lib/search-dictionaries.ts);
+-- seeded from data/search-dictionaries.json by POST /api/admin/catalog-metadata { "seed": true }
+CREATE TABLE IF NOT EXISTS search_dictionary_entries (
+  id SERIAL PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('brand_alias', 'synonym', 'theme_expansion', 'ignored')),
+  term TEXT NOT NULL,                       -- Normalized (lowercase, no accents)
+  targets TEXT[] NOT NULL DEFAULT '{}',     -- Brand, other group words or expansion terms
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (kind, term)
+);
@@ -0,0 +1,16 @@
+-- Merchandising rules: pins, boosts, buries, hides, redirects and campaigns per query
+-- Managed through /api/admin/merchandising (see lib/merchandising.ts)
+CREATE TABLE IF NOT EXISTS merchandising_rules (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  priority INT NOT NULL DEFAULT 0,           -- Higher wins on conflicting actions
+  conditions JSONB NOT NULL DEFAULT '{}',    -- { queries, exactQuery, productTypes, artists, themes }
+  actions JSONB NOT NULL DEFAULT '[]',       -- [{ type: 'pin' | 'boost' | 'bury' | 'hide' | 'redirect' | 'campaign', ... }]
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchandising_rules_active ON merchandising_rules(priority DESC) WHERE enabled;
@@ -0,0 +1,23 @@
+-- Promotions: scheduled discount codes shown with search results
+-- Managed through /api/admin/promotions (see lib/promotions.ts)
+CREATE TABLE IF NOT EXISTS promotions (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL,
+  amount TEXT NOT NULL,                      -- Display value ("€7,50", "10%")
+  description TEXT NOT NULL DEFAULT '',
+  label TEXT NOT NULL,                       -- Widget heading ("🍂 Herfstkorting")
+  minimum_basket NUMERIC(10,2),              -- Hint only, enforced by the shop
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  priority INT NOT NULL DEFAULT 0,
+  conditions JSONB NOT NULL DEFAULT '{}',    -- { requiresBudget, priceMin, priceMax, productTypes, firstSearchOnly }
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+-- The code that used to be hard-coded in the search response (budget searches only)
+INSERT INTO promotions (code, amount, description, label, conditions)
+SELECT '750', '€7,50', 'korting op je bestelling', '🎁 Kortingscode', '{"requiresBudget": true}'
+WHERE NOT EXISTS (SELECT 1 FROM promotions);
@@ -0,0 +1,30 @@
+-- Abuse protection for /api/search (see lib/request-guard.ts)
+
+-- Token buckets shared by all instances (RATE_LIMIT_STORE=postgres, lib/rate-limit.ts)
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,                      -- "ip:<address>" or "key:<api key id>"
+  tokens DOUBLE PRECISION NOT NULL,
+  allowed BOOLEAN NOT NULL DEFAULT true,     -- Outcome of the last take
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated ON rate_limit_buckets(updated_at);
+
+-- Partner API keys (X-API-Key, lib/api-keys.ts); only the SHA-256 hash is stored
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,                  -- "kp_AbC123", to recognize the key
+  key_hash TEXT NOT NULL UNIQUE,
+  requests_per_minute INT NOT NULL DEFAULT 120,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+-- Estimated OpenAI chat spend per day (AI_DAILY_BUDGET_EUR, lib/ai-budget.ts)
+CREATE TABLE IF NOT EXISTS ai_spend (
+  day DATE PRIMARY KEY,                      -- UTC
+  calls INT NOT NULL DEFAULT 0,
+  cost_eur NUMERIC(10,4) NOT NULL DEFAULT 0
+);
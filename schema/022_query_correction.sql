@@ -0,0 +1,3 @@
+-- Typo correction (see lib/query-correction.ts)
+-- search_log.query keeps what the shopper typed; this is what was searched instead
+ALTER TABLE search_log ADD COLUMN IF NOT EXISTS corrected_query TEXT;
@@ -0,0 +1,32 @@
+-- Accent-insensitive full-text search: "cafe" finds "café" and the other way round
+-- The query parser strips accents from what the shopper typed, so search_vector
+-- and every tsquery use the same unaccenting configuration (lib/hybrid-search.ts)
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'dutch_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION dutch_unaccent (COPY = dutch);
+    ALTER TEXT SEARCH CONFIGURATION dutch_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, dutch_stem;
+  END IF;
+END $$;
+
+-- Rebuild the search vector with the new configuration (same fields and weights as 016)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_vector' AND generation_expression LIKE '%dutch_unaccent%'
+  ) THEN
+    ALTER TABLE products DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE products ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('dutch_unaccent', coalesce(title, '') || ' ' || coalesce(full_title, '')), 'A') ||
+        setweight(to_tsvector('dutch_unaccent', coalesce(artist, '') || ' ' || coalesce(category_names, '') || ' ' || coalesce(variant_titles, '')), 'B') ||
+        setweight(to_tsvector('dutch_unaccent', regexp_replace(coalesce(description, ''), '<[^>]*>', ' ', 'g')), 'C') ||
+        setweight(to_tsvector('dutch_unaccent', regexp_replace(coalesce(content, ''), '<[^>]*>', ' ', 'g')), 'D')
+      ) STORED;
+    CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN(search_vector);
+  END IF;
+END $$;
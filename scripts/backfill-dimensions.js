@@ -0,0 +1,46 @@
+/**
+ * Backfill structured dimensions (height/width/depth/diameter in cm)
+ * for products that were imported before schema/007_structured_dimensions.sql
+ * Run with: npm run db:backfill-dimensions
+ */
+import { sql } from '@vercel/postgres';
+import dotenv from 'dotenv';
+import { parseDimensions } from '../lib/dimension-parser.js';
+
+dotenv.config();
+
+async function backfill() {
+  console.log('📏 Backfilling structured dimensions...\n');
+
+  const { rows } = await sql`SELECT id, description, content FROM products`;
+  console.log(`   Products: ${rows.length}`);
+
+  let parsed = 0;
+
+  for (const row of rows) {
+    const dims = parseDimensions(row.description, row.content);
+    const hasAny = Object.values(dims).some(v => v !== null);
+    if (hasAny) parsed++;
+
+    await sql`
+      UPDATE products SET
+        height_cm = ${dims.heightCm},
+        width_cm = ${dims.widthCm},
+        depth_cm = ${dims.depthCm},
+        diameter_cm = ${dims.diameterCm}
+      WHERE id = ${row.id}
+    `;
+  }
+
+  console.log(`\n✅ Parsed dimensions for ${parsed}/${rows.length} products`);
+}
+
+backfill()
+  .then(() => {
+    console.log('✅ Done!');
+    process.exit(0);
+  })
+  .catch((err) => {
+    console.error('\n❌ Backfill failed:', err);
+    process.exit(1);
+  });
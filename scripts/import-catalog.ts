@@ -0,0 +1,73 @@
+/**
+ * Incremental catalog import: data/*.json → products (see lib/catalog-sync.ts)
+ * Run with: npm run import -- [options]
+ *
+ *   --dry-run          report what would change; no writes, no embeddings
+ *   --resume           continue the latest unfinished run after its checkpoint
+ *   --force            allow tombstoning a large share of the catalog
+ *   --batch-size <n>   rows per embedding call and upsert (default 50)
+ *   --data <dir>       snapshot directory (default data)
+ */
+
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import type { SyncReport } from '../lib/catalog-sync';
+
+dotenv.config();
+
+const { values: args } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    resume: { type: 'boolean', default: false },
+    force: { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '50' },
+    data: { type: 'string', default: 'data' }
+  }
+});
+
+async function main() {
+  // Imported after dotenv so the providers and database see the environment
+  const { loadSnapshot, syncCatalog } = await import('../lib/catalog-sync');
+  const { closeDb } = await import('../lib/db');
+
+  try {
+    console.log(`📖 Reading snapshot from ${args.data}/`);
+    const snapshot = loadSnapshot(args.data);
+
+    const report: SyncReport = await syncCatalog(snapshot, {
+      dryRun: args['dry-run'],
+      resume: args.resume,
+      force: args.force,
+      batchSize: parseInt(args['batch-size']!, 10)
+    });
+
+    console.log('');
+    console.log(report.dryRun ? '📋 Dry run (nothing written):' : `✅ Sync complete in ${(report.durationMs / 1000).toFixed(1)}s`);
+    if (report.resumedFrom !== null) {
+      console.log(`   Resumed run ${report.runId} after product ${report.resumedFrom}`);
+    }
+    console.log(`   New:        ${report.counts.insert}`);
+    console.log(`   Re-embed:   ${report.counts.reembed}`);
+    console.log(`   Data only:  ${report.counts.update}`);
+    console.log(`   Unchanged:  ${report.counts.unchanged}`);
+    console.log(`   Tombstone:  ${report.counts.tombstone}`);
+    console.log(`   Hidden in Lightspeed: ${report.counts.hidden}`);
+
+    if (report.dryRun) {
+      for (const action of Object.keys(report.samples) as (keyof SyncReport['samples'])[]) {
+        console.log(`   e.g. ${action}: ${report.samples[action]!.join(', ')}`);
+      }
+    } else {
+      console.log(`   Embedded ${report.embedded}, written ${report.written}, tombstoned ${report.tombstoned}`);
+    }
+  } finally {
+    await closeDb();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌ Import failed:', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,114 @@
+/**
+ * Replay Lightspeed webhook events
+ * Run with: npm run webhooks:replay -- [files...] [options]
+ *
+ *   files              recorded payloads ({ group, action, objectId, body } or an array of them),
+ *                      default scripts/webhook-payloads/*.json
+ *   --url <url>        POST signed requests to a running receiver (e.g. vercel dev)
+ *                      instead of applying them in-process
+ *   --failed           retry failed events from lightspeed_webhook_events
+ *   --direct           apply in-process without the event log (no idempotency, repeatable)
+ *   --limit <n>        max events for --failed (default 100)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: 'string' },
+    failed: { type: 'boolean', default: false },
+    direct: { type: 'boolean', default: false },
+    limit: { type: 'string', default: '100' }
+  }
+});
+
+const PAYLOAD_DIR = 'scripts/webhook-payloads';
+
+interface RecordedEvent {
+  group: string;
+  action: string;
+  objectId?: number;
+  body: unknown;
+}
+
+function loadRecordings(files: string[]): RecordedEvent[] {
+  const paths = files.length > 0
+    ? files
+    : fs.readdirSync(PAYLOAD_DIR).filter(f => f.endsWith('.json')).sort().map(f => path.join(PAYLOAD_DIR, f));
+
+  return paths.flatMap(file => {
+    const content = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return Array.isArray(content) ? content : [content];
+  });
+}
+
+async function postRecording(url: string, recording: RecordedEvent, secret: string, signPayload: (body: string, secret: string) => string) {
+  const rawBody = JSON.stringify(recording.body);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-group': recording.group,
+      'x-action': recording.action,
+      'x-object-id': String(recording.objectId ?? ''),
+      'x-signature': signPayload(rawBody, secret)
+    },
+    body: rawBody
+  });
+  return `${response.status} ${await response.text()}`;
+}
+
+async function main() {
+  const webhooks = await import('../lib/lightspeed-webhooks');
+  const { closeDb } = await import('../lib/db');
+
+  try {
+    if (args.failed) {
+      const events = await webhooks.loadUnprocessedEvents(parseInt(args.limit!, 10));
+      console.log(`🔁 Retrying ${events.length} unprocessed events`);
+      for (const event of events) {
+        const result = await webhooks.handleWebhookEvent(event).catch((error: Error) => ({ status: 'failed', detail: error.message }));
+        console.log(`   ${event.group}.${event.action} ${event.objectId}: ${result.status} (${result.detail})`);
+      }
+      return;
+    }
+
+    const recordings = loadRecordings(positionals);
+    console.log(`🔁 Replaying ${recordings.length} recorded events${args.url ? ` to ${args.url}` : ''}`);
+
+    for (const recording of recordings) {
+      const label = `${recording.group}.${recording.action} ${recording.objectId ?? ''}`;
+
+      if (args.url) {
+        const secret = webhooks.getWebhookSecret();
+        if (!secret) throw new Error('LIGHTSPEED_WEBHOOK_SECRET (or LIGHTSPEED_SECRET) is needed to sign requests');
+        console.log(`   ${label}: ${await postRecording(args.url, recording, secret, webhooks.signPayload)}`);
+        continue;
+      }
+
+      const event = webhooks.parseWebhookEvent(recording, JSON.stringify(recording.body));
+      if (!event) {
+        console.log(`   ${label}: unsupported event, skipped`);
+        continue;
+      }
+
+      const result = args.direct ? await webhooks.applyWebhookEvent(event) : await webhooks.handleWebhookEvent(event);
+      console.log(`   ${label}: ${result.status} (${result.detail})`);
+    }
+  } finally {
+    await closeDb();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('\n❌ Replay failed:', error.message);
+    process.exit(1);
+  });
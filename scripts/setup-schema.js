@@ -8,6 +8,34 @@ import fs from 'fs';
 
 dotenv.config();
 
+// Must match EMBEDDING_DIMENSIONS in lib/ai-providers.ts
+const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS) || 1536;
+
+/**
+ * Resize the vector columns when EMBEDDING_DIMENSIONS changed
+ * Existing vectors can't be converted: they are cleared, and the next
+ * catalog sync re-embeds every product.
+ */
+async function resizeEmbeddings() {
+  const { rows } = await sql.query(
+    `SELECT atttypmod AS dimensions FROM pg_attribute
+     WHERE attrelid = 'products'::regclass AND attname = 'embedding'`
+  );
+  const current = rows[0]?.dimensions;
+  if (current === EMBEDDING_DIMENSIONS) return;
+
+  console.log(`📐 Resizing embeddings from ${current} to ${EMBEDDING_DIMENSIONS} dimensions...\n`);
+  await sql.query('DROP INDEX IF EXISTS idx_products_embedding');
+  await sql.query(`ALTER TABLE products ALTER COLUMN embedding TYPE vector(${EMBEDDING_DIMENSIONS}) USING NULL`);
+  await sql.query('UPDATE products SET embedding_hash = NULL');
+  await sql.query('TRUNCATE search_contexts');
+  await sql.query(`ALTER TABLE search_contexts ALTER COLUMN embedding TYPE vector(${EMBEDDING_DIMENSIONS})`);
+  await sql.query(
+    'CREATE INDEX IF NOT EXISTS idx_products_embedding ON products USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100)'
+  );
+  console.log('✅ Embeddings cleared; run npm run import to re-embed the catalog\n');
+}
+
 async function setupSchema() {
   console.log('🗄️  Setting up database schema...\n');
   
@@ -15,7 +43,27 @@ async function setupSchema() {
     // Execute all schema migrations in order
     const migrations = [
       'schema/001_init.sql',
-      'schema/002_add_type.sql'
+      'schema/002_add_type.sql',
+      'schema/004_add_artist.sql',
+      'schema/005_add_dimensions.sql',
+      'schema/006_add_search_vector.sql',
+      'schema/007_structured_dimensions.sql',
+      'schema/008_search_contexts.sql',
+      'schema/009_query_cache.sql',
+      'schema/010_search_analytics.sql',
+      'schema/011_search_relaxation.sql',
+      'schema/012_search_sessions.sql',
+      'schema/013_brand_stock.sql',
+      'schema/014_catalog_sync.sql',
+      'schema/015_lightspeed_webhooks.sql',
+      'schema/016_product_variants.sql',
+      'schema/017_catalog_metadata.sql',
+      'schema/018_search_dictionaries.sql',
+      'schema/019_merchandising_rules.sql',
+      'schema/020_promotions.sql',
+      'schema/021_abuse_protection.sql',
+      'schema/022_query_correction.sql',
+      'schema/023_unaccent_search.sql'
     ];
     
     for (const migrationFile of migrations) {
@@ -41,6 +89,8 @@ async function setupSchema() {
       }
     }
     
+    await resizeEmbeddings();
+
     console.log('✅ All migrations complete!\n');
     
     // Verify pgvector is installed
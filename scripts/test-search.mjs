@@ -141,7 +141,7 @@ async function runTest(category, testCase) {
     
     if (passed) {
       passedTests++;
-      console.log(`   ✅ "${testCase.query}" → ${results} results (${data.query.took_ms}ms)`);
+      console.log(`   ✅ "${testCase.query}" → ${results} results (${data.query.took_ms.total}ms)`);
     } else {
       failedTests++;
       console.log(`   ❌ "${testCase.query}"`);
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getOfflineProviders } from '../lib/ai-providers';
+import { applyCatalogRows, buildCatalogRow, type CatalogRow } from '../lib/catalog-sync';
+import type { QueryClient } from '../lib/db';
+
+const { embedder } = getOfflineProviders();
+
+const row: CatalogRow = buildCatalogRow({
+  product: { id: 7, title: 'Klimt vaas De Kus', url: 'klimt-vaas', isVisible: true },
+  variants: [
+    { id: 70, title: 'Klein', isDefault: true, priceIncl: 39.95 },
+    { id: 71, title: 'Groot', isDefault: false, priceIncl: 59.95 }
+  ],
+  categoryIds: [3],
+  artist: 'Gustav Klimt'
+}, () => 'Vazen');
+
+/**
+ * Just enough of the products table to follow the stored hashes
+ * failOn: the first statement containing this text throws
+ */
+function fakeDatabase(failOn?: string) {
+  const products = new Map<number, { embedding_hash: string | null; data_hash: string | null }>();
+  const statements: string[] = [];
+  let failed = false;
+
+  const connect = (fail?: string): QueryClient => ({
+    async query(text: string, params: any[] = []) {
+      statements.push(text);
+      if (fail && !failed && text.includes(fail)) {
+        failed = true;
+        throw new Error(`connection lost during ${fail}`);
+      }
+      if (text.includes('SELECT id, embedding_hash')) {
+        return { rows: Array.from(products, ([id, hashes]) => ({ id, ...hashes, is_visible: true })) };
+      }
+      if (text.includes('INSERT INTO products')) {
+        for (const record of JSON.parse(params[0])) {
+          if (!products.has(record.id)) products.set(record.id, { embedding_hash: null, data_hash: null });
+        }
+      }
+      if (text.includes('SET embedding_hash')) {
+        for (const { id, embedding_hash, data_hash } of JSON.parse(params[0])) {
+          products.set(id, { embedding_hash, data_hash });
+        }
+      }
+      return { rows: [] };
+    }
+  });
+
+  return { products, statements, db: connect(failOn), retry: connect() };
+}
+
+test('a batch that fails partway is written again by the next run', async () => {
+  const database = fakeDatabase('INSERT INTO product_variants');
+
+  await assert.rejects(applyCatalogRows([row], { db: database.db, embedder }), /connection lost/);
+  assert.deepEqual(database.products.get(7), { embedding_hash: null, data_hash: null });
+
+  const retry = await applyCatalogRows([row], { db: database.retry, embedder });
+  assert.equal(retry.counts.reembed, 1);
+  assert.notEqual(database.products.get(7)?.data_hash, null);
+
+  const again = await applyCatalogRows([row], { db: database.retry, embedder });
+  assert.equal(again.counts.unchanged, 1);
+});
+
+test('hashes are the last statement of a batch', async () => {
+  const database = fakeDatabase();
+  await applyCatalogRows([row], { db: database.db, embedder });
+
+  const writes = database.statements.filter(text => !text.includes('SELECT id, embedding_hash') && !text.includes('is_visible = false'));
+  assert.match(writes[writes.length - 1], /SET embedding_hash = h\.embedding_hash, data_hash = h\.data_hash/);
+  assert.doesNotMatch(writes[0], /embedding_hash/);
+});
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { compareFilters, ndcgAtK, precisionAtK, recall, reciprocalRank } from '../eval/metrics';
+import { emptyFilters } from '../lib/search-filters';
+
+const judgments = { 1: 3, 2: 0, 3: 1 };
+
+test('precision, recall and reciprocal rank', () => {
+  assert.equal(precisionAtK([2, 1, 3, 4], judgments, 2), 0.5);
+  assert.equal(recall([2, 1], judgments), 0.5);
+  assert.equal(reciprocalRank([2, 4, 3], judgments), 1 / 3);
+  assert.equal(reciprocalRank([2, 4], judgments), 0);
+});
+
+test('nDCG is 1 for the ideal order', () => {
+  assert.equal(ndcgAtK([1, 3, 2], judgments, 3), 1);
+  assert.ok(ndcgAtK([3, 1, 2], judgments, 3) < 1);
+});
+
+test('filter accuracy covers centimetres and gift fields', () => {
+  const actual = { ...emptyFilters(), productType: 'Vaas', sizeMinCm: 20, sizeMaxCm: 40, recipient: 'zus', keywords: ['blauw', 'glas'] };
+
+  const exact = compareFilters({ productType: 'Vaas', sizeMinCm: 20, sizeMaxCm: 40, recipient: 'zus', keywords: ['blauw'] }, actual);
+  assert.equal(exact.correct, exact.checked);
+
+  // Extracted fields the golden query leaves out count as mistakes
+  const { mismatches } = compareFilters({ productType: 'Vaas' }, actual);
+  assert.deepEqual(mismatches.map(m => m.field), ['sizeMinCm', 'sizeMaxCm', 'recipient']);
+});
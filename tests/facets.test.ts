@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { emptyFilters } from '../lib/search-filters';
+import { planSearch } from '../lib/search-plan';
+import { buildCountQuery, buildFacetQuery } from '../lib/search-sql';
+
+const constraints = { filters: emptyFilters(), threshold: 0.3, keywordFilter: false };
+
+test('each facet is counted with the other facets\' selections only', () => {
+  const plan = planSearch([0.1, 0.2], constraints, null, { artist: ['Gustav Klimt'], size: ['groot'] });
+  const { text, params } = buildFacetQuery(plan);
+
+  assert.match(text, /\(p\.artist = ANY\(\$3::text\[\]\)\) AS in_artist/);
+  assert.match(text, /\(\(p\.max_dimension_cm >= 40\)\) AS in_size/);
+  assert.match(text, /\(TRUE\) AS in_type/);
+  assert.match(text, /WHERE type IS NOT NULL AND in_artist AND in_category AND in_price AND in_size GROUP BY type/);
+  assert.match(text, /WHERE artist IS NOT NULL AND in_type AND in_category AND in_price AND in_size GROUP BY artist/);
+  assert.deepEqual(params.slice(1), [0.3, ['Gustav Klimt']]);
+
+  // The selections do not narrow the matching set itself
+  assert.match(text, /FROM products p\s+WHERE \(p\.is_visible = true\) AND \(p\.embedding IS NOT NULL\) AND \(1 - \(p\.embedding <=> \$1::vector\) >= \$2\)\s+\)/);
+});
+
+test('price bands are selected and counted on variant prices', () => {
+  const plan = planSearch([0.1, 0.2], constraints, null, { price: ['25-50'] });
+  const { text } = buildFacetQuery(plan);
+
+  assert.match(text, /EXISTS \(SELECT 1 FROM product_variants v WHERE v\.product_id = p\.id AND \(v\.price >= 25 AND v\.price < 50\)\) OR \(p\.min_price IS NULL AND \(p\.price >= 25 AND p\.price < 50\)\)\)\) AS in_price/);
+  assert.match(text, /SELECT m\.id, v\.price FROM matches m JOIN product_variants v ON v\.product_id = m\.id WHERE in_type AND in_artist AND in_category AND in_size/);
+  assert.match(text, /SELECT id, price FROM matches WHERE min_price IS NULL AND in_type/);
+});
+
+test('the price range of the matches spans the variant prices', () => {
+  const plan = planSearch([0.1, 0.2], constraints, null, {});
+  const { text } = buildCountQuery(plan);
+
+  assert.match(text, /MIN\(COALESCE\(p\.min_price, p\.price\)\) AS min_price, MAX\(COALESCE\(p\.max_price, p\.price\)\) AS max_price/);
+});
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { editDistance, maxTypos } from '../lib/fuzzy';
+
+test('typos allowed grow with the term length', () => {
+  assert.equal(maxTypos('kust'), 0);
+  assert.equal(maxTypos('klimt'), 1);
+  assert.equal(maxTypos('forchino'), 1);
+  assert.equal(maxTypos('schilderij'), 2);
+});
+
+test('edit distance counts insertions, deletions and substitutions', () => {
+  assert.equal(editDistance('klimt', 'klimt'), 0);
+  assert.equal(editDistance('klimpt', 'klimt'), 1);
+  assert.equal(editDistance('kokesi', 'kokeshi'), 1);
+  assert.equal(editDistance('kenst', 'kunst'), 1);
+  assert.equal(editDistance('', 'kat'), 3);
+});
+
+test('swapping two neighbouring letters is one edit', () => {
+  assert.equal(editDistance('klmit', 'klimt'), 1);
+  assert.equal(editDistance('hnod', 'hond'), 1);
+});
+
+test('stops at max + 1 once the distance exceeds max', () => {
+  assert.equal(editDistance('olifant', 'giraffe', 2), 3);
+  assert.equal(editDistance('kat', 'kokeshi', 1), 2);
+  assert.equal(editDistance('klimpt', 'klimt', 1), 1);
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { correctQuery } from '../lib/query-correction';
+
+test('misspelled artist is corrected', () => {
+  const correction = correctQuery('klimpt schilderij');
+  assert.equal(correction?.original, 'klimpt schilderij');
+  assert.equal(correction?.corrected, 'Gustav Klimt schilderij');
+  assert.deepEqual(correction?.changes, [{ from: 'klimpt', to: 'Gustav Klimt' }]);
+  assert.equal(correction?.message, 'Bedoelde je: Gustav Klimt schilderij?');
+});
+
+test('misspelled brands are corrected to their display name', () => {
+  assert.deepEqual(correctQuery('kokesi')?.changes, [{ from: 'kokesi', to: 'Kokeshi dolls' }]);
+  assert.deepEqual(correctQuery('forcino beeld')?.changes, [{ from: 'forcino', to: 'Guillermo Forchino beelden' }]);
+});
+
+test('multi-word names are corrected as one phrase', () => {
+  const correction = correctQuery('vann gogh');
+  assert.equal(correction?.corrected, 'Vincent van Gogh');
+  assert.deepEqual(correction?.changes, [{ from: 'vann gogh', to: 'Vincent van Gogh' }]);
+});
+
+test('understood queries are left alone', () => {
+  assert.equal(correctQuery('klimt schilderij'), null);
+  assert.equal(correctQuery('beeld onder 50 euro'), null);
+});
+
+test('short words are never corrected', () => {
+  // One swap away from "hond", but four letters allow no typos
+  assert.equal(correctQuery('hnod'), null);
+});
+
+test('ambiguous matches are left alone', () => {
+  // One edit away from both "kerst" and "kunst"
+  assert.equal(correctQuery('kenst'), null);
+});
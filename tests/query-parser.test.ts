@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseQueryRules } from '../lib/query-parser';
+
+test('price bounds and ranges', () => {
+  assert.equal(parseQueryRules('beeld onder 50 euro').filters.priceMax, 50);
+  assert.equal(parseQueryRules('kat vanaf 30 euro').filters.priceMin, 30);
+
+  const { filters } = parseQueryRules('tussen 20 en 50 euro');
+  assert.equal(filters.priceMin, 20);
+  assert.equal(filters.priceMax, 50);
+});
+
+test('product type, size class and keywords', () => {
+  const { filters, unparsedTokens } = parseQueryRules('klein beeld');
+  assert.equal(filters.productType, 'Beeld');
+  assert.equal(filters.sizeCategory, 'klein');
+  assert.deepEqual(unparsedTokens, []);
+
+  assert.deepEqual(parseQueryRules('kat vanaf 30 euro').filters.keywords, ['kat']);
+});
+
+test('measurements are never read as a budget', () => {
+  const { filters } = parseQueryRules('mok max 30 cm');
+  assert.equal(filters.sizeMaxCm, 30);
+  assert.equal(filters.priceMax, null);
+});
+
+test('measurements on an axis', () => {
+  assert.equal(parseQueryRules('maximaal 30 cm hoog').filters.heightMaxCm, 30);
+
+  // A bare measurement allows 20% either way; metres become centimetres
+  const { filters } = parseQueryRules('schilderij 2 m breed');
+  assert.equal(filters.widthMinCm, 160);
+  assert.equal(filters.widthMaxCm, 240);
+});
+
+test('measurement ranges keep both bounds', () => {
+  for (const query of ['vaas van 20 tot 40 cm', 'vaas tussen 20 en 40 cm', 'vaas van 40 tot 20 cm']) {
+    const { filters } = parseQueryRules(query);
+    assert.equal(filters.sizeMinCm, 20, query);
+    assert.equal(filters.sizeMaxCm, 40, query);
+    assert.equal(filters.priceMin, null, query);
+  }
+
+  const { filters } = parseQueryRules('beeld van 20 tot 40 cm hoog');
+  assert.equal(filters.heightMinCm, 20);
+  assert.equal(filters.heightMaxCm, 40);
+});
+
+test('a price range next to a measurement', () => {
+  const { filters } = parseQueryRules('vaas vanaf 30 cm van 20 tot 50 euro');
+  assert.equal(filters.sizeMinCm, 30);
+  assert.equal(filters.priceMin, 20);
+  assert.equal(filters.priceMax, 50);
+});
+
+test('thousands separators and decimal commas in prices', () => {
+  const thousand = parseQueryRules('beeld €1.000');
+  assert.equal(thousand.filters.priceMax, 1000);
+
+  assert.equal(parseQueryRules('schilderij 1.250 euro').filters.priceMax, 1250);
+  assert.equal(parseQueryRules('onder €1.250,50').filters.priceMax, 1250.5);
+  assert.equal(parseQueryRules('mok €12,50').filters.priceMax, 12.5);
+  assert.equal(parseQueryRules('vaas tussen 1.000 en 2.500 euro').filters.priceMin, 1000);
+});
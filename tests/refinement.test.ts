@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { refineFiltersRules } from '../lib/refinement';
+import { emptyFilters } from '../lib/search-filters';
+
+const previous = { ...emptyFilters(), productType: 'Beeld', priceMax: 100, keywords: ['kat'] };
+
+test('absolute values in the follow-up override the previous filters', () => {
+  const { filters } = refineFiltersRules(previous, 'onder 40 euro');
+  assert.equal(filters.priceMax, 40);
+  assert.equal(filters.productType, 'Beeld');
+  assert.deepEqual(filters.keywords, ['kat']);
+});
+
+test('dropping a keyword and constraint', () => {
+  const { filters } = refineFiltersRules(previous, 'zonder kat, prijs maakt niet uit');
+  assert.deepEqual(filters.keywords, []);
+  assert.equal(filters.priceMax, null);
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { formatDimensions, formatProduct } from '../lib/search-format';
+
+test('dimensions label', () => {
+  assert.equal(formatDimensions({ heightCm: 30, widthCm: 20.5, depthCm: null, diameterCm: null }), '30 × 20,5 cm (h × b)');
+  assert.equal(formatDimensions({ heightCm: 9, widthCm: null, depthCm: null, diameterCm: 12 }), 'Ø 12 cm, hoogte 9 cm');
+  assert.equal(formatDimensions({ heightCm: null, widthCm: null, depthCm: null, diameterCm: null }), null);
+});
+
+test('product row → API product', () => {
+  const product = formatProduct({
+    id: 1,
+    title: 'Kat',
+    price: '40.00',
+    old_price: '50.00',
+    stock: '3',
+    stock_sold: '60',
+    height_cm: '30',
+    category_ids: [],
+    min_price: '40.00',
+    max_price: '60.00'
+  });
+
+  assert.equal(product.price, 40);
+  assert.equal(product.oldPrice, 50);
+  assert.equal(product.discount, 20);
+  assert.deepEqual(product.priceRange, { min: 40, max: 60 });
+  assert.equal(product.dimensions, 'hoogte 30 cm');
+  assert.equal(product.isPopular, true);
+  assert.equal(product.isScarce, true);
+  assert.equal(product.matchingVariant, null);
+  assert.equal(product.pinned, false);
+});
+
+test('no price range when every variant costs the same', () => {
+  const product = formatProduct({ id: 2, title: 'Mok', price: '15', min_price: '15', max_price: '15' });
+  assert.equal(product.priceRange, null);
+  assert.equal(product.oldPrice, null);
+  assert.equal(product.discount, 0);
+});
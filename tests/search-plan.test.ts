@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildTsQuery, reciprocalRankFusion } from '../lib/hybrid-search';
+import { planRelaxations } from '../lib/relaxation';
+import { emptyFilters } from '../lib/search-filters';
+import { buildFilterConditions } from '../lib/search-plan';
+import { createParams, renderConditions } from '../lib/sql-builder';
+
+test('filter conditions bind their values in order', () => {
+  const params = createParams();
+  const filters = { ...emptyFilters(), productType: 'Beeld', priceMax: 50, keywords: ['kat'] };
+  const where = renderConditions(buildFilterConditions(filters, true), params);
+
+  assert.match(where, /\(p\.type = \$1\)/);
+  assert.match(where, /v\.price <= \$2\) OR \(p\.min_price IS NULL AND p\.price <= \$3\)/);
+  assert.match(where, /p\.search_vector @@ to_tsquery\('dutch_unaccent', \$4\)/);
+  assert.deepEqual(params.values, ['Beeld', 50, 50, '(kat)']);
+});
+
+test('the size class uses the facet boundaries and matches variant names', () => {
+  const params = createParams();
+  const where = renderConditions(buildFilterConditions({ ...emptyFilters(), sizeCategory: 'groot' }, false), params);
+
+  assert.match(where, /\(p\.max_dimension_cm >= 40\) OR EXISTS \(SELECT 1 FROM product_variants v WHERE v\.product_id = p\.id AND v\.title ~\* \$1\)/);
+  assert.deepEqual(params.values, ['\\m(groot|grote|large|xl|xxl)\\M']);
+});
+
+test('no keyword condition without the keyword filter', () => {
+  const params = createParams();
+  const where = renderConditions(buildFilterConditions({ ...emptyFilters(), keywords: ['kat'] }, false), params);
+  assert.doesNotMatch(where, /to_tsquery/);
+  assert.deepEqual(params.values, []);
+});
+
+test('tsquery: phrases, duplicates and empty terms', () => {
+  assert.equal(buildTsQuery(['Van Gogh', 'kat', 'Kat']), '(van <-> gogh) | (kat)');
+  assert.equal(buildTsQuery(['', '!!']), null);
+});
+
+test('reciprocal rank fusion rewards agreement between lists', () => {
+  const fused = reciprocalRankFusion([
+    { rows: [{ id: 1 }, { id: 2 }], weight: 1 },
+    { rows: [{ id: 2 }, { id: 3 }], weight: 1 }
+  ], 60);
+  assert.deepEqual(fused.map(row => row.id), [2, 1, 3]);
+  assert.equal(fused[0].rrf_score, 1 / 62 + 1 / 61);
+});
+
+test('relaxation steps apply in order, each on top of the previous', () => {
+  const filters = { ...emptyFilters(), artist: 'Klimt', priceMax: 30, sizeCategory: 'klein' as const, keywords: ['vaas'] };
+  const steps = planRelaxations({ filters, threshold: 0.5, keywordFilter: true }, 0.2);
+
+  assert.deepEqual(steps.map(s => s.kind), ['drop-keywords', 'widen-price', 'drop-size', 'drop-artist', 'lower-threshold']);
+  assert.equal(steps[1].filters.priceMax, 38);
+  assert.equal(steps[2].filters.sizeCategory, null);
+  assert.equal(steps[4].filters.artist, null);
+  assert.equal(steps[4].keywordFilter, false);
+  assert.equal(steps[4].threshold, 0.2);
+});
+
+test('steps that do not apply are skipped', () => {
+  const steps = planRelaxations({ filters: { ...emptyFilters(), artist: 'Klimt' }, threshold: 0.2, keywordFilter: true }, 0.2);
+  assert.deepEqual(steps.map(s => s.kind), ['drop-artist']);
+});
+
+test('keywords that are only stopwords do not filter', () => {
+  const params = createParams();
+  const where = renderConditions(buildFilterConditions({ ...emptyFilters(), keywords: ['de'] }, true), params);
+  assert.match(where, /\(numnode\(to_tsquery\('dutch_unaccent', \$1\)\) = 0 OR p\.search_vector @@ to_tsquery\('dutch_unaccent', \$1\)\)/);
+  assert.deepEqual(params.values, ['(de)']);
+});
+
+test('tsquery terms lose their accents like search_vector', () => {
+  assert.equal(buildTsQuery(['Café', 'Ærø']), '(cafe) | (ærø)');
+});
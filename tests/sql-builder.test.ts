@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { anyOf, createParams, raw, renderConditions, type SqlCondition } from '../lib/sql-builder';
+
+test('placeholders follow the order values are bound in', () => {
+  const params = createParams();
+  assert.equal(params.bind('a'), '$1');
+  assert.equal(params.bind([0.1, 0.2], 'vector'), '$2::vector');
+  assert.deepEqual(params.values, ['a', [0.1, 0.2]]);
+});
+
+test('conditions are wrapped and joined with AND', () => {
+  const params = createParams();
+  const conditions: SqlCondition[] = [
+    raw('p.is_visible'),
+    p => `p.type = ${p.bind('Beeld')}`,
+    () => '',
+    anyOf([raw('p.a'), p => `p.b = ${p.bind(2)}`])
+  ];
+  assert.equal(renderConditions(conditions, params), '(p.is_visible) AND (p.type = $1) AND ((p.a) OR (p.b = $2))');
+  assert.deepEqual(params.values, ['Beeld', 2]);
+});
+
+test('no conditions render as TRUE', () => {
+  assert.equal(renderConditions([], createParams()), 'TRUE');
+});